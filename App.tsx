@@ -1,46 +1,579 @@
-import React, { useState, useRef, Suspense } from 'react';
-import { Activity, Wind, Mountain, Droplets, Zap, Globe, Cpu, MapPin } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect, Suspense } from 'react';
+import { Activity, Wind, Mountain, Droplets, Zap, Globe, Cpu, MapPin, Share2, History, Keyboard, Accessibility } from 'lucide-react';
 import HoloEarth from './components/HoloEarth';
 import InfoPanel from './components/InfoPanel';
-import HandTracker, { HandData } from './components/HandTracker';
-import { fetchEarthData, analyzeLocation } from './services/geminiService';
-import { EarthCategory, LocationData } from './types';
+import FollowUpConsole from './components/FollowUpConsole';
+import PlaceSearch from './components/PlaceSearch';
+import PinList from './components/PinList';
+import MeasurementPanel from './components/MeasurementPanel';
+import TimeController from './components/TimeController';
+import LayerManager from './components/LayerManager';
+import HandTracker from './components/HandTracker';
+import GestureCursor from './components/GestureCursor';
+import Crosshair from './components/Crosshair';
+import HandProfilePanel from './components/HandProfilePanel';
+import VoiceConsole from './components/VoiceConsole';
+import TourPlayer from './components/TourPlayer';
+import HistoryDrawer from './components/HistoryDrawer';
+import SeismicPanel from './components/SeismicPanel';
+import RasterPanel from './components/RasterPanel';
+import SatellitePanel from './components/SatellitePanel';
+import TimelinePanel from './components/TimelinePanel';
+import SessionPanel from './components/SessionPanel';
+import { knowledgeProvider } from './services/knowledgeProvider';
+import { GazetteerEntry, describePlace, nearestPlace, searchPlaces } from './services/gazetteer';
+import { featureContext, loadOverlayFromUrl } from './services/geojson';
+import { DEFAULT_SEISMIC_FILTER, filterQuakes, quakeContext } from './services/earthquakes';
+import { Satellite, SatelliteCatalog, satelliteContext, satelliteState } from './services/satellites';
+import { createHandData, eventsSince, lastEventSeq } from './services/gestureEngine';
+import { attachNavControls, createNavInput } from './services/navInput';
+import { loadReducedMotion, saveReducedMotion } from './services/accessibility';
+import { VoiceCommand } from './services/voiceCommands';
+import { stepDuration, tourFromPins } from './services/tours';
+import { formatLatLon } from './utils/geodesy';
+import { DEFAULT_VIEW, UrlState, decodeUrlState, encodeUrlState, isRemoteSource } from './services/urlState';
+import { DEFAULT_HAND_PROFILE, StoredHandProfiles, loadHandProfiles, saveHandProfiles } from './services/handProfiles';
+import { SimulationClock, clockTime, createClock, isLive } from './utils/simulationClock';
+import { Timeline, createTimeline, setTimelineRange, timelineTime } from './utils/timeline';
+import { temporalFocus, temporalSpan } from './services/temporal';
+import { ChatTurn, ComparisonTarget, EarthCategory, Earthquake, SeismicFeed, SeismicFilter, FeatureSelection, FlyToRequest, GeminiResponse, HandData, HandProfile, HistoryEntry, LocationContext, Tour, TourStep, ViewRequest, ViewState, LocationData, LocationReport, OverlayFeature, OverlayLayer, Pin, RasterLayer, SessionRole, SessionSnapshot, StreamOptions, TemporalLayer, ViewBuffer } from './types';
+
+// Follow-up threads are keyed by selection so returning to a pin restores its conversation
+const threadKeyFor = (location: LocationData | null, category: string) =>
+  location ? `loc:${location.lat.toFixed(2)},${location.lon.toFixed(2)}` : `cat:${category}`;
+
+// Ids are minted from the time plus a counter: two scans can land in the same millisecond.
+// (crypto.randomUUID is missing outside secure contexts, e.g. a wall display on a LAN address.)
+let idCounter = 0;
+const uniqueId = (prefix: string) => `${prefix}-${Date.now()}-${++idCounter}`;
 
 const App: React.FC = () => {
   const [activeCategory, setActiveCategory] = useState<string>(EarthCategory.GEOLOGY);
   const [fact, setFact] = useState<string>("System Initialized. Select a planetary sector to begin analysis, or click on the globe to scan a region.");
   const [sources, setSources] = useState<{ uri: string; title: string }[] | undefined>(undefined);
+  const [report, setReport] = useState<LocationReport | undefined>(undefined);
+  const [cachedAt, setCachedAt] = useState<number | undefined>(undefined);
   const [loading, setLoading] = useState(false);
   const [systemStatus, setSystemStatus] = useState("Standby");
   const [selectedLocation, setSelectedLocation] = useState<LocationData | null>(null);
+  const [flyTo, setFlyTo] = useState<FlyToRequest | null>(null);
   
   // Hand tracking data ref (Avoids re-renders for high freq data)
-  const handDataRef = useRef<HandData>({ x: 0.5, y: 0.5, active: false });
+  const handDataRef = useRef<HandData>(createHandData());
+  const [handProfiles, setHandProfiles] = useState<StoredHandProfiles>(loadHandProfiles);
+  const [calibrating, setCalibrating] = useState(false);
+  const handProfile = handProfiles.profiles.find(p => p.name === handProfiles.active) ?? DEFAULT_HAND_PROFILE;
 
-  const handleCategorySelect = async (category: EarthCategory) => {
-    setActiveCategory(category);
-    setSelectedLocation(null); // Deselect location when changing category
-    setLoading(true);
-    setFact(""); 
-    setSources(undefined);
-    
-    const data = await fetchEarthData(category);
+  useEffect(() => saveHandProfiles(handProfiles), [handProfiles]);
+
+  // Keyboard/gamepad navigation, shared with the globe the same way as hand data
+  const navRef = useRef(createNavInput());
+  const [reducedMotion, setReducedMotion] = useState(loadReducedMotion);
+
+  const toggleReducedMotion = () => {
+    const next = !reducedMotion;
+    setReducedMotion(next);
+    saveReducedMotion(next);
+  };
+
+  const [threads, setThreads] = useState<Record<string, ChatTurn[]>>({});
+  const [followUpPending, setFollowUpPending] = useState(false);
+  const threadKey = threadKeyFor(selectedLocation, activeCategory);
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [measureMode, setMeasureMode] = useState(false);
+  const [measurePoints, setMeasurePoints] = useState<LocationData[]>([]);
+  const [clock, setClock] = useState<SimulationClock>(() => createClock());
+  const [overlays, setOverlays] = useState<OverlayLayer[]>([]);
+  const [rasters, setRasters] = useState<RasterLayer[]>([]);
+  const [temporalLayers, setTemporalLayers] = useState<TemporalLayer[]>([]);
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const hoverRef = useRef<LocationData | null>(null);
+  const [selectedFeature, setSelectedFeature] = useState<FeatureSelection | null>(null);
+  const [tour, setTour] = useState<Tour | null>(null);
+  const [tourIndex, setTourIndex] = useState(0);
+  const [tourPlaying, setTourPlaying] = useState(false);
+  // Seeded from the link so the hash isn't overwritten with the default view before the globe mounts
+  const viewRef = useRef<ViewState>(decodeUrlState(window.location.hash).view ?? DEFAULT_VIEW);
+  const [viewRequest, setViewRequest] = useState<ViewRequest | null>(null);
+  // Filled by the session panel while this display mirrors a controller
+  const followRef = useRef<ViewBuffer | null>(null);
+  const [sessionRole, setSessionRole] = useState<SessionRole | null>(null);
+  const [linkStatus, setLinkStatus] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const [quakeFeed, setQuakeFeed] = useState<SeismicFeed | null>(null);
+  const [quakeFilter, setQuakeFilter] = useState<SeismicFilter>(DEFAULT_SEISMIC_FILTER);
+  const [quakesVisible, setQuakesVisible] = useState(true);
+  const [selectedQuakeId, setSelectedQuakeId] = useState<string | null>(null);
+  const [satCatalog, setSatCatalog] = useState<SatelliteCatalog | null>(null);
+  const [satsVisible, setSatsVisible] = useState(true);
+  const [showAllTracks, setShowAllTracks] = useState(false);
+  const [selectedSatId, setSelectedSatId] = useState<string | null>(null);
+  const activePin = pins.find(pin => threadKeyFor(pin.location, '') === threadKey) ?? null;
+
+  const nearest = useMemo(() => selectedLocation && nearestPlace(selectedLocation), [selectedLocation]);
+  const quakes = useMemo(
+    () => quakeFeed ? filterQuakes(quakeFeed.quakes, quakeFilter, clockTime(clock)) : [],
+    [quakeFeed, quakeFilter, clock]
+  );
+
+  // Controller for the in-flight knowledge request; superseded requests are aborted
+  const requestRef = useRef<AbortController | null>(null);
+  const followUpRef = useRef<AbortController | null>(null);
+
+  const cancelFollowUp = () => {
+    followUpRef.current?.abort();
+    followUpRef.current = null;
+    setFollowUpPending(false);
+  };
+
+  const showResult = (data: GeminiResponse) => {
     setFact(data.text);
     setSources(data.sources);
+    setReport(data.report);
+    setCachedAt(data.cachedAt);
     setLoading(false);
   };
 
-  const handleLocationSelect = async (lat: number, lon: number) => {
-    setSelectedLocation({ lat, lon });
-    setActiveCategory("COORDINATE SCAN");
+  const runQuery = async (
+    request: (options: StreamOptions) => Promise<GeminiResponse>,
+    onComplete?: (data: GeminiResponse) => void
+  ) => {
+    requestRef.current?.abort();
+    cancelFollowUp();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setLoading(true);
     setFact("");
     setSources(undefined);
+    setReport(undefined);
+    setCachedAt(undefined);
 
-    const data = await analyzeLocation(lat, lon);
-    setFact(data.text);
-    setSources(data.sources);
-    setLoading(false);
+    try {
+      const data = await request({ signal: controller.signal, onText: setFact });
+      showResult(data);
+      onComplete?.(data);
+    } catch (error) {
+      // A newer selection owns the panel now; drop this result silently
+      if (controller.signal.aborted) return;
+      console.error("Knowledge request failed:", error);
+      setFact("Uplink interrupted.");
+      setLoading(false);
+    } finally {
+      if (requestRef.current === controller) requestRef.current = null;
+    }
+  };
+
+  // Failed scans aren't worth restoring, so only successful results are kept
+  const recordHistory = (kind: HistoryEntry['kind'], title: string, location: LocationData | null, result: GeminiResponse) => {
+    if (result.failed) return;
+    const id = uniqueId('scan');
+    setHistory(prev => [...prev, { id, timestamp: Date.now(), kind, title, location, result }]);
+    setActiveHistoryId(id);
+  };
+
+  // While a timeline is showing, sector briefings describe the displayed date
+  const timelineFocus = () => timeline ? temporalFocus(temporalLayers, timelineTime(timeline)) : undefined;
+
+  const handleCategorySelect = (category: EarthCategory) => {
+    setActiveCategory(category);
+    setSelectedLocation(null); // Deselect location when changing category
+    const focus = timelineFocus();
+    runQuery(
+      options => knowledgeProvider.streamEarthData(category, focus, options),
+      data => recordHistory('category', category, null, data)
+    );
+  };
+
+  const handleLocationSelect = (lat: number, lon: number, context?: LocationContext) => {
+    setSelectedLocation({ lat, lon });
+    setActiveCategory(context ? "FEATURE SCAN" : "COORDINATE SCAN");
+    if (!context) {
+      setSelectedFeature(null);
+      setSelectedQuakeId(null);
+      setSelectedSatId(null);
+    }
+    const key = threadKeyFor({ lat, lon }, '');
+    runQuery(
+      options => knowledgeProvider.streamLocationAnalysis(lat, lon, options, context),
+      // Rescanning a pinned spot refreshes the pin's stored report
+      data => {
+        if (data.failed) return;
+        const place = nearestPlace({ lat, lon });
+        const label = context?.title ?? (place && place.distanceKm < 250 ? describePlace(place.place) : formatLatLon({ lat, lon }));
+        recordHistory('location', label, { lat, lon }, data);
+        setPins(prev => prev.map(pin => threadKeyFor(pin.location, '') === key ? { ...pin, result: data } : pin));
+      }
+    );
+  };
+
+  // Searching a place behaves exactly like clicking it on the globe, plus a fly-to
+  const handlePlaceSelect = (place: GazetteerEntry) => {
+    setFlyTo({ lat: place.lat, lon: place.lon, id: Date.now() });
+    handleLocationSelect(place.lat, place.lon);
+  };
+
+  const handlePinCurrent = () => {
+    if (!selectedLocation || activePin) return;
+    const label = nearest && nearest.distanceKm < 250 ? describePlace(nearest.place) : `PIN ${pins.length + 1}`;
+    setPins(prev => [...prev, {
+      id: uniqueId('pin'),
+      label,
+      location: selectedLocation,
+      result: { text: fact, sources, report }
+    }]);
+  };
+
+  // Switching to a pin restores its stored report instead of re-scanning
+  const handlePinSelect = (pin: Pin) => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    cancelFollowUp();
+    setSelectedLocation(pin.location);
+    setActiveCategory("COORDINATE SCAN");
+    setFlyTo({ ...pin.location, id: Date.now() });
+    if (pin.result) showResult(pin.result);
+    else handleLocationSelect(pin.location.lat, pin.location.lon);
+  };
+
+  const handlePinRemove = (pin: Pin) => {
+    setPins(prev => prev.filter(p => p.id !== pin.id));
+    setCompareIds(prev => prev.filter(id => id !== pin.id));
+  };
+
+  const handleToggleCompare = (pin: Pin) => {
+    setCompareIds(prev => prev.includes(pin.id) ? prev.filter(id => id !== pin.id) : [...prev, pin.id]);
+  };
+
+  const handleCompare = (focus: string | undefined, ids: string[] = compareIds) => {
+    const targets: ComparisonTarget[] = pins
+      .filter(pin => ids.includes(pin.id))
+      .map(pin => ({ ...pin.location, label: pin.label }));
+    if (targets.length < 2) return;
+
+    setSelectedLocation(null);
+    setActiveCategory("COMPARISON");
+    runQuery(
+      options => knowledgeProvider.compareLocations(targets, focus, options),
+      data => recordHistory('comparison', targets.map(t => t.label).join(' vs '), null, data)
+    );
+  };
+
+  // Restoring a history entry shows its stored result and re-selects its spot without re-scanning
+  const handleHistoryRestore = (entry: HistoryEntry) => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    cancelFollowUp();
+    setActiveHistoryId(entry.id);
+    setSelectedLocation(entry.location);
+    if (entry.location) setFlyTo({ ...entry.location, id: Date.now() });
+    setActiveCategory(entry.kind === 'category' ? entry.title : entry.kind === 'location' ? "COORDINATE SCAN" : "COMPARISON");
+    showResult(entry.result);
+  };
+
+  // Clicking an overlay feature scans its location with the feature's properties as context
+  const handleFeatureSelect = (layer: OverlayLayer, feature: OverlayFeature, location: LocationData) => {
+    setSelectedFeature({ layerId: layer.id, featureIndex: feature.index });
+    setSelectedQuakeId(null);
+    setSelectedSatId(null);
+    handleLocationSelect(location.lat, location.lon, featureContext(layer, feature));
+  };
+
+  // A quake scan carries the event's magnitude, depth and time so the report explains it
+  const handleQuakeSelect = (quake: Earthquake, fly = false) => {
+    setSelectedQuakeId(quake.id);
+    setSelectedFeature(null);
+    setSelectedSatId(null);
+    if (fly) setFlyTo({ ...quake.location, id: Date.now() });
+    handleLocationSelect(quake.location.lat, quake.location.lon, quakeContext(quake));
+  };
+
+  // Scans the ground point under the satellite at the current simulated time
+  const handleSatelliteSelect = (satellite: Satellite, fly = false) => {
+    const time = clockTime(clock);
+    const state = satelliteState(satellite, time);
+    if (!state) return;
+    setSelectedSatId(satellite.id);
+    setSelectedFeature(null);
+    setSelectedQuakeId(null);
+    if (fly) setFlyTo({ ...state.location, id: Date.now() });
+    handleLocationSelect(state.location.lat, state.location.lon, satelliteContext(satellite, state, time));
+  };
+
+  const handleSatCatalogChange = (catalog: SatelliteCatalog | null) => {
+    setSatCatalog(catalog);
+    setSatsVisible(true);
+    if (!catalog?.satellites.some(s => s.id === selectedSatId)) setSelectedSatId(null);
+  };
+
+  const handleQuakeFeedChange = (feed: SeismicFeed | null) => {
+    setQuakeFeed(feed);
+    setQuakesVisible(true);
+    if (!feed?.quakes.some(q => q.id === selectedQuakeId)) setSelectedQuakeId(null);
+  };
+
+  const handleOverlaysChange = (layers: OverlayLayer[]) => {
+    setOverlays(layers);
+    if (selectedFeature && !layers.some(l => l.id === selectedFeature.layerId)) setSelectedFeature(null);
+  };
+
+  const handleTemporalLayersChange = (layers: TemporalLayer[]) => {
+    setTemporalLayers(layers);
+    const span = temporalSpan(layers);
+    setTimeline(prev => !span ? null : prev ? setTimelineRange(prev, span.start, span.end) : createTimeline(span.start, span.end));
+    if (selectedFeature && overlays.every(l => l.id !== selectedFeature.layerId) && layers.every(l => l.id !== selectedFeature.layerId)) {
+      setSelectedFeature(null);
+    }
+  };
+
+  const handleMeasurePoint = (point: LocationData) => setMeasurePoints(prev => [...prev, point]);
+
+  const handleMeasureToggle = () => {
+    setMeasureMode(active => !active);
+    setMeasurePoints([]);
+  };
+
+  // A tour step drives the same state a user would: fly-to, selection, sector and panel content
+  const applyTourStep = (step: TourStep) => {
+    const location = step.lat !== undefined && step.lon !== undefined ? { lat: step.lat, lon: step.lon } : null;
+    if (location) setFlyTo({ ...location, id: Date.now(), distance: step.cameraDistance });
+    setSelectedLocation(location);
+    setSelectedFeature(null);
+    setActiveCategory(step.category ?? (location ? "COORDINATE SCAN" : "TOUR"));
+
+    if (step.prompt) {
+      const focus = location ? `${step.prompt} (at ${step.title ?? formatLatLon(location)})` : step.prompt;
+      runQuery(options => knowledgeProvider.streamEarthData(step.category ?? EarthCategory.GEOLOGY, focus, options));
+    } else if (step.narration) {
+      requestRef.current?.abort();
+      requestRef.current = null;
+      cancelFollowUp();
+      showResult({ text: step.narration });
+    } else if (location) {
+      runQuery(options => knowledgeProvider.streamLocationAnalysis(location.lat, location.lon, options));
+    } else if (step.category) {
+      const category = step.category;
+      const focus = timelineFocus();
+      runQuery(options => knowledgeProvider.streamEarthData(category, focus, options));
+    }
+  };
+
+  const goToTourStep = (index: number) => {
+    if (!tour || index < 0 || index >= tour.steps.length) return;
+    setTourIndex(index);
+    applyTourStep(tour.steps[index]);
+  };
+
+  const handleTourLoad = (next: Tour) => {
+    setTour(next);
+    setTourIndex(0);
+    setTourPlaying(true);
+    applyTourStep(next.steps[0]);
+  };
+
+  const handleTourStop = () => {
+    setTour(null);
+    setTourPlaying(false);
+  };
+
+  // Auto-advance; the last step stays on screen and pauses
+  useEffect(() => {
+    if (!tour || !tourPlaying) return;
+    const timer = setTimeout(() => {
+      if (tourIndex < tour.steps.length - 1) goToTourStep(tourIndex + 1);
+      else setTourPlaying(false);
+    }, stepDuration(tour.steps[tourIndex]));
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tour, tourIndex, tourPlaying]);
+
+  // --- URL state ---
+  const currentUrlState = (): UrlState => ({
+    location: selectedLocation ?? undefined,
+    category: !selectedLocation && Object.values(EarthCategory).includes(activeCategory as EarthCategory)
+      ? activeCategory as EarthCategory
+      : undefined,
+    view: viewRef.current,
+    layers: overlays.filter(layer => layer.visible && isRemoteSource(layer.source)).map(layer => layer.source),
+    time: isLive(clock) ? undefined : clockTime(clock),
+    speed: clock.speed === 1 ? undefined : clock.speed,
+  });
+
+  const writeUrlState = () => {
+    const hash = encodeUrlState(currentUrlState());
+    if (hash !== window.location.hash) {
+      window.history.replaceState(null, '', hash || window.location.pathname + window.location.search);
+    }
+  };
+
+  // Restoring goes through the normal handlers, so scans hit the response cache when warm
+  const applyUrlState = async (state: UrlState) => {
+    if (state.view) setViewRequest({ ...state.view, id: Date.now() });
+    if (state.time !== undefined || state.speed !== undefined) {
+      setClock(createClock(state.time ?? Date.now(), state.speed ?? 1));
+    }
+    if (state.location) handleLocationSelect(state.location.lat, state.location.lon);
+    else if (state.category) handleCategorySelect(state.category);
+
+    if (state.layers) {
+      const results = await Promise.allSettled(state.layers.map((url, i) => loadOverlayFromUrl(url, i)));
+      results.forEach((result, i) => {
+        if (result.status === 'rejected') console.error(`Shared layer ${state.layers![i]} failed:`, result.reason);
+      });
+      const remote = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+      // Layers loaded from local files stay; remote ones are replaced by the link's set
+      setOverlays(prev => [...prev.filter(layer => !isRemoteSource(layer.source)), ...remote]);
+    }
+  };
+
+  const urlStateRef = useRef({ write: writeUrlState, apply: applyUrlState });
+  urlStateRef.current = { write: writeUrlState, apply: applyUrlState };
+
+  useEffect(() => {
+    urlStateRef.current.apply(decodeUrlState(window.location.hash));
+    const onHashChange = () => urlStateRef.current.apply(decodeUrlState(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    // The view changes every frame, so the hash is refreshed on a timer rather than per change
+    const timer = setInterval(() => urlStateRef.current.write(), 1000);
+    return () => {
+      window.removeEventListener('hashchange', onHashChange);
+      clearInterval(timer);
+    };
+  }, []);
+
+  // What a session controller sends to its mirrors, besides the view
+  const sessionSnapshot = useMemo<SessionSnapshot>(() => ({
+    activeCategory,
+    selectedLocation,
+    fact,
+    loading,
+    sources,
+    report,
+    cachedAt,
+    thread: threads[threadKey],
+  }), [activeCategory, selectedLocation, fact, loading, sources, report, cachedAt, threads, threadKey]);
+
+  const applySessionSnapshot = (snapshot: SessionSnapshot) => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    cancelFollowUp();
+    setActiveCategory(snapshot.activeCategory);
+    setSelectedLocation(snapshot.selectedLocation);
+    setSelectedFeature(null);
+    setSelectedQuakeId(null);
+    setSelectedSatId(null);
+    setFact(snapshot.fact);
+    setSources(snapshot.sources);
+    setReport(snapshot.report);
+    setCachedAt(snapshot.cachedAt);
+    setLoading(snapshot.loading);
+    const key = threadKeyFor(snapshot.selectedLocation, snapshot.activeCategory);
+    setThreads(prev => ({ ...prev, [key]: snapshot.thread ?? [] }));
+  };
+
+  const handleShare = async () => {
+    writeUrlState();
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkStatus("LINK COPIED");
+    } catch (error) {
+      console.error("Clipboard write failed:", error);
+      setLinkStatus("COPY THE ADDRESS BAR");
+    }
+    setTimeout(() => setLinkStatus(null), 2500);
+  };
+
+  // Voice commands go through the same handlers as the sidebar, search bar and pin list
+  const handleVoiceCommand = (command: VoiceCommand): string | void => {
+    switch (command.type) {
+      case 'goto': {
+        const place = searchPlaces(command.place, 1)[0];
+        if (!place) return `NO PLACE MATCHING "${command.place.toUpperCase()}"`;
+        handlePlaceSelect(place);
+        return `FLYING TO ${describePlace(place).toUpperCase()}`;
+      }
+      case 'category':
+        handleCategorySelect(command.category);
+        return;
+      case 'compare': {
+        // "These two pins": the ticked pins if any, otherwise the two most recent
+        const ids = compareIds.length >= 2 ? compareIds : pins.slice(-2).map(pin => pin.id);
+        if (ids.length < 2) return "PIN AT LEAST TWO LOCATIONS TO COMPARE";
+        handleCompare(command.focus, ids);
+        return;
+      }
+      case 'pin':
+        if (!selectedLocation) return "NO LOCATION SELECTED";
+        if (activePin) return `ALREADY PINNED AS ${activePin.label.toUpperCase()}`;
+        // Pinning mid-stream would store the partial report as the pin's result
+        if (loading) return "WAIT FOR THE CURRENT SCAN TO FINISH";
+        handlePinCurrent();
+        return;
+      case 'question':
+        if (loading) return "WAIT FOR THE CURRENT SCAN TO FINISH";
+        handleFollowUp(command.text);
+        return;
+    }
+  };
+
+  // Saving under an existing name replaces that profile
+  const handleProfileSave = (profile: HandProfile) => {
+    setHandProfiles(prev => ({
+      profiles: [...prev.profiles.filter(p => p.name !== profile.name), profile],
+      active: profile.name
+    }));
+    setCalibrating(false);
+  };
+
+  const handleProfileChange = (profile: HandProfile) => {
+    setHandProfiles(prev => ({ ...prev, profiles: prev.profiles.map(p => p.name === profile.name ? profile : p) }));
+  };
+
+  const handleProfileDelete = (name: string) => {
+    setHandProfiles(prev => ({
+      profiles: prev.profiles.filter(p => p.name !== name),
+      active: prev.active === name ? DEFAULT_HAND_PROFILE.name : prev.active
+    }));
+  };
+
+  const handleFollowUp = async (question: string) => {
+    cancelFollowUp();
+    const controller = new AbortController();
+    followUpRef.current = controller;
+
+    const key = threadKey;
+    const history = threads[key] ?? [];
+    const userTurn: ChatTurn = { role: 'user', text: question };
+    const asked = [...history, userTurn];
+    const updateThread = (turns: ChatTurn[]) => setThreads(prev => ({ ...prev, [key]: turns }));
+
+    updateThread(asked);
+    setFollowUpPending(true);
+
+    try {
+      const data = await knowledgeProvider.askFollowUp(
+        question,
+        { category: activeCategory, location: selectedLocation, previousAnswer: fact, history },
+        { signal: controller.signal, onText: text => updateThread([...asked, { role: 'model', text }]) }
+      );
+      updateThread([...asked, { role: 'model', text: data.text, sources: data.sources }]);
+    } catch (error) {
+      // Selection changed mid-answer: leave the thread as it was before the question
+      if (controller.signal.aborted) {
+        setThreads(prev => prev[key]?.[history.length] === userTurn ? { ...prev, [key]: history } : prev);
+        return;
+      }
+      console.error("Follow-up failed:", error);
+      updateThread([...asked, { role: 'model', text: "Uplink interrupted." }]);
+    } finally {
+      if (followUpRef.current === controller) {
+        followUpRef.current = null;
+        setFollowUpPending(false);
+      }
+    }
   };
 
   const menuItems = [
@@ -51,14 +584,83 @@ const App: React.FC = () => {
     { id: EarthCategory.HUMAN_IMPACT, icon: Zap, label: 'Anthroposphere' },
   ];
 
+  // Digit shortcuts pick a sidebar sector directly (0-based index)
+  const handleSectorKeyRef = useRef<(index: number) => void>(() => {});
+  handleSectorKeyRef.current = index => {
+    if (menuItems[index]) handleCategorySelect(menuItems[index].id);
+  };
+
+  // Open-palm swipes step through the sidebar sectors; kept in a ref so the polling loop sees fresh state
+  const handleSwipeRef = useRef<(direction: 'left' | 'right') => void>(() => {});
+  handleSwipeRef.current = direction => {
+    // During a tour, swipes step through it instead of the sectors
+    if (tour) {
+      goToTourStep(tourIndex + (direction === 'right' ? 1 : -1));
+      return;
+    }
+    const index = menuItems.findIndex(item => item.id === activeCategory);
+    const step = direction === 'right' ? 1 : -1;
+    const next = index < 0
+      ? (direction === 'right' ? 0 : menuItems.length - 1)
+      : (index + step + menuItems.length) % menuItems.length;
+    handleCategorySelect(menuItems[next].id);
+  };
+
+  useEffect(() => {
+    let frame: number;
+    let seq = lastEventSeq(handDataRef.current);
+    const poll = () => {
+      frame = requestAnimationFrame(poll);
+      for (const event of eventsSince(handDataRef.current, seq)) {
+        seq = event.seq;
+        if (event.type === 'swipe') handleSwipeRef.current(event.direction);
+      }
+    };
+    poll();
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // Gamepad shoulder buttons step through sectors like a swipe
+  useEffect(() => attachNavControls(navRef.current, {
+    onCategory: index => handleSectorKeyRef.current(index),
+    onCategoryStep: direction => handleSwipeRef.current(direction > 0 ? 'right' : 'left'),
+  }), []);
+
   return (
-    <div className="relative w-full h-screen overflow-hidden selection:bg-cyan-500 selection:text-black">
+    <div className={`relative w-full h-screen overflow-hidden selection:bg-cyan-500 selection:text-black ${reducedMotion ? 'reduce-motion' : ''}`}>
       {/* 3D Background - Now on Z-0, App background removed */}
       <Suspense fallback={<div className="fixed inset-0 bg-black flex items-center justify-center text-cyan-500">INITIALIZING SATELLITE UPLINK...</div>}>
         <HoloEarth 
             handDataRef={handDataRef} 
+            navRef={navRef}
             onLocationSelect={handleLocationSelect}
             selectedLocation={selectedLocation}
+            flyTo={flyTo}
+            pins={pins}
+            onPinSelect={handlePinSelect}
+            measureMode={measureMode}
+            measurePoints={measurePoints}
+            onMeasurePoint={handleMeasurePoint}
+            clock={clock}
+            overlays={overlays}
+            selectedFeature={selectedFeature}
+            onFeatureSelect={handleFeatureSelect}
+            rasters={rasters}
+            temporalLayers={temporalLayers}
+            timeline={timeline}
+            hoverRef={hoverRef}
+            satellites={satsVisible ? satCatalog?.satellites : undefined}
+            selectedSatelliteId={selectedSatId}
+            showAllTracks={showAllTracks}
+            onSatelliteSelect={handleSatelliteSelect}
+            earthquakes={quakesVisible ? quakes : undefined}
+            selectedQuakeId={selectedQuakeId}
+            onQuakeSelect={handleQuakeSelect}
+            rotationSensitivity={handProfile.sensitivity}
+            viewRef={viewRef}
+            viewRequest={viewRequest}
+            reducedMotion={reducedMotion}
+            followRef={followRef}
         />
       </Suspense>
 
@@ -79,25 +681,66 @@ const App: React.FC = () => {
                 <p className="text-xs text-cyan-600 font-mono tracking-widest">REAL-TIME PLANETARY INTERFACE v2.0</p>
              </div>
           </div>
+          <div className="hidden md:block">
+             <PlaceSearch onSelect={handlePlaceSelect} />
+          </div>
           <div className="hidden md:block text-right">
+             <button
+                onClick={() => setHistoryOpen(open => !open)}
+                className="mb-2 mr-2 inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-400 border border-cyan-800 rounded hover:text-white hover:border-cyan-400 transition-colors"
+                title="Scan history"
+             >
+                <History className="w-3 h-3" />
+                HISTORY {history.length > 0 && history.length}
+             </button>
+             <button
+                onClick={toggleReducedMotion}
+                aria-pressed={reducedMotion}
+                className={`mb-2 mr-2 inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono border rounded hover:text-white hover:border-cyan-400 transition-colors ${reducedMotion ? 'text-white border-cyan-400' : 'text-cyan-400 border-cyan-800'}`}
+                title="Stop auto-rotation and pulsing animations"
+             >
+                <Accessibility className="w-3 h-3" />
+                REDUCE MOTION
+             </button>
+             <button
+                onClick={handleShare}
+                className="mb-2 inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-400 border border-cyan-800 rounded hover:text-white hover:border-cyan-400 transition-colors"
+                title="Copy a link to this view"
+             >
+                <Share2 className="w-3 h-3" />
+                {linkStatus ?? 'SHARE'}
+             </button>
              <div className="text-xs font-mono text-cyan-700">SYS_STATUS</div>
              <div className={`text-sm font-bold ${systemStatus.includes("Online") ? "text-green-400" : "text-amber-400"}`}>
                {systemStatus}
              </div>
+             {sessionRole && (
+                <div className="text-xs font-mono text-cyan-400">
+                    SESSION: {sessionRole === 'controller' ? 'CONTROLLING DISPLAYS' : 'MIRROR'}
+                </div>
+             )}
              {selectedLocation && (
                 <div className="mt-1 text-xs font-mono text-cyan-400 animate-pulse">
                     LAT: {selectedLocation.lat.toFixed(2)} | LON: {selectedLocation.lon.toFixed(2)}
                 </div>
              )}
+             {nearest && (
+                <div className="text-xs font-mono text-cyan-600">
+                    {nearest.distanceKm < 25 ? '' : `${Math.round(nearest.distanceKm)} KM FROM `}{describePlace(nearest.place).toUpperCase()}
+                </div>
+             )}
           </div>
         </header>
 
         {/* Sidebar Navigation */}
         <nav className="mt-24 md:mt-32 w-full md:w-24 flex md:flex-col gap-4 pointer-events-auto z-20 overflow-x-auto md:overflow-visible pb-4 md:pb-0 scrollbar-hide">
-          {menuItems.map((item) => (
+          {menuItems.map((item, index) => (
             <button
               key={item.id}
               onClick={() => handleCategorySelect(item.id)}
+              aria-label={`${item.label} sector`}
+              aria-pressed={activeCategory === item.id}
+              aria-keyshortcuts={String(index + 1)}
               className={`
                 group relative flex items-center justify-center p-3 rounded-xl transition-all duration-300
                 border border-transparent hover:border-cyan-500/50 hover:bg-cyan-900/20
@@ -107,8 +750,8 @@ const App: React.FC = () => {
               <item.icon 
                 className={`w-6 h-6 transition-colors ${activeCategory === item.id ? 'text-white' : 'text-cyan-600 group-hover:text-cyan-300'}`} 
               />
-              <span className="absolute left-full ml-4 bg-cyan-900/80 text-cyan-100 text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap backdrop-blur-sm border border-cyan-500/30">
-                {item.label}
+              <span aria-hidden="true" className="absolute left-full ml-4 bg-cyan-900/80 text-cyan-100 text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100 transition-opacity whitespace-nowrap backdrop-blur-sm border border-cyan-500/30">
+                {item.label} <span className="text-cyan-500 font-mono">[{index + 1}]</span>
               </span>
             </button>
           ))}
@@ -122,32 +765,169 @@ const App: React.FC = () => {
                 content={fact} 
                 loading={loading}
                 sources={sources}
+                report={report}
+                cachedAt={cachedAt}
+                dataSource={knowledgeProvider.label}
+                thread={threads[threadKey]}
+             />
+             <FollowUpConsole
+                onSubmit={handleFollowUp}
+                disabled={loading}
+                pending={followUpPending}
              />
              
-             {/* Interaction Hint */}
-             <div className="mt-4 flex flex-col gap-2 bg-black/60 backdrop-blur border border-cyan-900/50 p-3 rounded-lg w-fit">
-                <div className="flex items-center gap-3">
-                    <Cpu className="w-4 h-4 text-cyan-500" />
-                    <span className="text-xs text-cyan-400 font-mono">
-                    HAND: PINCH & DRAG TO ROTATE
-                    </span>
-                </div>
-                <div className="flex items-center gap-3">
-                    <MapPin className="w-4 h-4 text-cyan-500" />
-                    <span className="text-xs text-cyan-400 font-mono">
-                    MOUSE: CLICK GLOBE TO SCAN WEATHER
-                    </span>
-                </div>
+             <div className="mt-4 flex flex-wrap gap-4 items-start">
+               {/* Interaction Hint */}
+               <div className="flex flex-col gap-2 bg-black/60 backdrop-blur border border-cyan-900/50 p-3 rounded-lg w-fit">
+                  <div className="flex items-center gap-3">
+                      <Cpu className="w-4 h-4 text-cyan-500" />
+                      <span className="text-xs text-cyan-400 font-mono">
+                      HAND: PINCH & DRAG TO ROTATE
+                      </span>
+                  </div>
+                  <div className="flex flex-col gap-1 pl-7 text-[10px] text-cyan-600 font-mono">
+                      <span>TWO-HAND PINCH: SPREAD TO ZOOM</span>
+                      <span>OPEN PALM: SWIPE TO CHANGE SECTOR</span>
+                      <span>POINT & HOLD: SCAN LOCATION</span>
+                      <span>CLOSED FIST: RESET VIEW</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                      <MapPin className="w-4 h-4 text-cyan-500" />
+                      <span className="text-xs text-cyan-400 font-mono">
+                      MOUSE: CLICK GLOBE TO SCAN WEATHER
+                      </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                      <Keyboard className="w-4 h-4 text-cyan-500" />
+                      <span className="text-xs text-cyan-400 font-mono">
+                      KEYS: ARROWS/WASD ROTATE · Q/E ZOOM
+                      </span>
+                  </div>
+                  <div className="flex flex-col gap-1 pl-7 text-[10px] text-cyan-600 font-mono">
+                      <span>ENTER: SCAN UNDER CROSSHAIR</span>
+                      <span>1-5: SECTORS · 0: RESET VIEW</span>
+                      <span>GAMEPAD: STICKS, A SCAN, LB/RB SECTORS</span>
+                  </div>
+               </div>
+
+               <PinList
+                  pins={pins}
+                  activePinId={activePin?.id ?? null}
+                  compareIds={compareIds}
+                  canPin={!!selectedLocation && !loading && !activePin}
+                  onPinCurrent={handlePinCurrent}
+                  onSelect={handlePinSelect}
+                  onRemove={handlePinRemove}
+                  onToggleCompare={handleToggleCompare}
+                  onCompare={handleCompare}
+               />
+
+               <MeasurementPanel
+                  active={measureMode}
+                  points={measurePoints}
+                  onToggle={handleMeasureToggle}
+                  onUndo={() => setMeasurePoints(prev => prev.slice(0, -1))}
+                  onClear={() => setMeasurePoints([])}
+               />
+
+               <TimeController clock={clock} onChange={setClock} />
+
+               <LayerManager layers={overlays} onChange={handleOverlaysChange} />
+
+               <RasterPanel layers={rasters} onChange={setRasters} hoverRef={hoverRef} selectedLocation={selectedLocation} />
+
+               <SessionPanel
+                  viewRef={viewRef}
+                  followRef={followRef}
+                  snapshot={sessionSnapshot}
+                  onSnapshot={applySessionSnapshot}
+                  onRoleChange={setSessionRole}
+               />
+
+               <TimelinePanel
+                  layers={temporalLayers}
+                  timeline={timeline}
+                  onLayersChange={handleTemporalLayersChange}
+                  onTimelineChange={setTimeline}
+                  onBrief={!selectedLocation && Object.values(EarthCategory).includes(activeCategory as EarthCategory)
+                     ? () => handleCategorySelect(activeCategory as EarthCategory)
+                     : undefined}
+               />
+
+               <SatellitePanel
+                  catalog={satCatalog}
+                  clock={clock}
+                  visible={satsVisible}
+                  showAllTracks={showAllTracks}
+                  selectedId={selectedSatId}
+                  onCatalogChange={handleSatCatalogChange}
+                  onToggleVisible={() => setSatsVisible(v => !v)}
+                  onToggleTracks={() => setShowAllTracks(v => !v)}
+                  onSelect={satellite => handleSatelliteSelect(satellite, true)}
+               />
+
+               <SeismicPanel
+                  feed={quakeFeed}
+                  quakes={quakes}
+                  filter={quakeFilter}
+                  visible={quakesVisible}
+                  selectedId={selectedQuakeId}
+                  onFeedChange={handleQuakeFeedChange}
+                  onFilterChange={setQuakeFilter}
+                  onToggleVisible={() => setQuakesVisible(v => !v)}
+                  onSelect={quake => handleQuakeSelect(quake, true)}
+               />
+
+               <TourPlayer
+                  tour={tour}
+                  index={tourIndex}
+                  playing={tourPlaying}
+                  canBuildFromPins={pins.length > 0}
+                  onLoad={handleTourLoad}
+                  onBuildFromPins={() => handleTourLoad(tourFromPins(pins))}
+                  onPrevious={() => goToTourStep(tourIndex - 1)}
+                  onNext={() => goToTourStep(tourIndex + 1)}
+                  onTogglePlay={() => setTourPlaying(playing => !playing)}
+                  onStop={handleTourStop}
+               />
+
+               <VoiceConsole onCommand={handleVoiceCommand} narration={fact} loading={loading} />
+
+               <HandProfilePanel
+                  profiles={handProfiles.profiles}
+                  active={handProfile}
+                  calibrating={calibrating}
+                  onSelect={name => setHandProfiles(prev => ({ ...prev, active: name }))}
+                  onChange={handleProfileChange}
+                  onDelete={handleProfileDelete}
+                  onCalibrate={() => setCalibrating(true)}
+               />
              </div>
           </div>
         </div>
 
       </main>
 
+      <GestureCursor handDataRef={handDataRef} />
+      <Crosshair navRef={navRef} />
+
+      <HistoryDrawer
+        open={historyOpen}
+        entries={history}
+        activeId={activeHistoryId}
+        onClose={() => setHistoryOpen(false)}
+        onRestore={handleHistoryRestore}
+        onClear={() => { setHistory([]); setActiveHistoryId(null); }}
+      />
+
       {/* Vision Component (Hidden/Overlay) */}
       <HandTracker 
         handDataRef={handDataRef} 
         onStatusChange={setSystemStatus}
+        profile={handProfile}
+        calibrating={calibrating}
+        onCalibrationComplete={handleProfileSave}
+        onCalibrationCancel={() => setCalibrating(false)}
       />
     </div>
   );
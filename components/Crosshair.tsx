@@ -0,0 +1,34 @@
+import React, { useEffect, useRef } from 'react';
+import { NavInput } from '../types';
+
+interface CrosshairProps {
+  navRef: React.MutableRefObject<NavInput>;
+}
+
+// Screen-centre reticle for keyboard/gamepad scans; Enter or A scans whatever sits under it.
+// Shown and hidden straight from the ref, like the gesture cursor.
+const Crosshair: React.FC<CrosshairProps> = ({ navRef }) => {
+  const crosshairRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame: number;
+    const update = () => {
+      frame = requestAnimationFrame(update);
+      if (crosshairRef.current) crosshairRef.current.style.opacity = navRef.current.crosshair ? '1' : '0';
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [navRef]);
+
+  return (
+    <div ref={crosshairRef} className="fixed top-1/2 left-1/2 z-40 pointer-events-none opacity-0 transition-opacity" aria-hidden="true">
+      <svg width={48} height={48} className="-translate-x-1/2 -translate-y-1/2">
+        <circle cx={24} cy={24} r={12} fill="none" stroke="rgba(0,255,255,0.5)" strokeWidth={1.5} />
+        <path d="M24 2v12M24 34v12M2 24h12M34 24h12" stroke="#22d3ee" strokeWidth={2} />
+        <circle cx={24} cy={24} r={1.5} fill="#22d3ee" />
+      </svg>
+    </div>
+  );
+};
+
+export default Crosshair;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+
+interface FollowUpConsoleProps {
+  onSubmit: (question: string) => void;
+  disabled: boolean;
+  pending: boolean;
+}
+
+const FollowUpConsole: React.FC<FollowUpConsoleProps> = ({ onSubmit, disabled, pending }) => {
+  const [question, setQuestion] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || disabled || pending) return;
+    onSubmit(trimmed);
+    setQuestion("");
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="glass-panel mt-2 flex items-center gap-2 px-3 py-2 rounded-bl-xl rounded-tr-xl max-w-md w-full"
+    >
+      <span className="text-cyan-600 font-mono text-xs shrink-0">&gt;_</span>
+      <input
+        type="text"
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        disabled={disabled}
+        placeholder={pending ? "AWAITING RESPONSE..." : "ASK A FOLLOW-UP QUESTION"}
+        className="flex-1 bg-transparent border-none outline-none text-sm text-cyan-100 placeholder-cyan-800 font-mono disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || pending || !question.trim()}
+        className="p-1 text-cyan-500 hover:text-white disabled:text-cyan-900 transition-colors"
+      >
+        <Send className={`w-4 h-4 ${pending ? 'animate-pulse' : ''}`} />
+      </button>
+    </form>
+  );
+};
+
+export default FollowUpConsole;
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { HandData } from '../types';
+
+interface GestureCursorProps {
+  handDataRef: React.MutableRefObject<HandData>;
+}
+
+const RING_RADIUS = 16;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+// Reticle that follows a pointing finger and fills up while it dwells.
+// Updated straight from the ref every frame so it never re-renders the HUD.
+const GestureCursor: React.FC<GestureCursorProps> = ({ handDataRef }) => {
+  const cursorRef = useRef<HTMLDivElement>(null);
+  const progressRef = useRef<SVGCircleElement>(null);
+
+  useEffect(() => {
+    let frame: number;
+    const update = () => {
+      frame = requestAnimationFrame(update);
+      const pointer = handDataRef.current.pointer;
+      if (!cursorRef.current || !progressRef.current) return;
+
+      cursorRef.current.style.opacity = pointer ? '1' : '0';
+      if (!pointer) return;
+      cursorRef.current.style.transform = `translate(${pointer.x * window.innerWidth}px, ${pointer.y * window.innerHeight}px)`;
+      progressRef.current.style.strokeDashoffset = `${RING_LENGTH * (1 - pointer.dwell)}`;
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [handDataRef]);
+
+  return (
+    <div ref={cursorRef} className="fixed top-0 left-0 z-40 pointer-events-none opacity-0 transition-opacity">
+      <svg width={40} height={40} className="-translate-x-1/2 -translate-y-1/2">
+        <circle cx={20} cy={20} r={RING_RADIUS} fill="none" stroke="rgba(0,255,255,0.3)" strokeWidth={2} />
+        <circle
+          ref={progressRef}
+          cx={20}
+          cy={20}
+          r={RING_RADIUS}
+          fill="none"
+          stroke="#22d3ee"
+          strokeWidth={3}
+          strokeDasharray={RING_LENGTH}
+          strokeDashoffset={RING_LENGTH}
+          transform="rotate(-90 20 20)"
+        />
+        <circle cx={20} cy={20} r={2} fill="#22d3ee" />
+      </svg>
+    </div>
+  );
+};
+
+export default GestureCursor;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Hand, Crosshair, Trash2 } from 'lucide-react';
+import { HandProfile } from '../types';
+import { DEFAULT_HAND_PROFILE } from '../services/handProfiles';
+
+interface HandProfilePanelProps {
+  profiles: HandProfile[];
+  active: HandProfile;
+  calibrating: boolean;
+  onSelect: (name: string) => void;
+  onChange: (profile: HandProfile) => void;
+  onDelete: (name: string) => void;
+  onCalibrate: () => void;
+}
+
+const HandProfilePanel: React.FC<HandProfilePanelProps> = ({ profiles, active, calibrating, onSelect, onChange, onDelete, onCalibrate }) => {
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Hand className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">HAND PROFILE</span>
+        </div>
+        <button
+          onClick={onCalibrate}
+          disabled={calibrating}
+          className="flex items-center gap-1 text-[10px] font-mono text-cyan-400 hover:text-white disabled:opacity-30"
+          title="Measure your open and pinched hand"
+        >
+          <Crosshair className="w-3 h-3" />
+          {calibrating ? 'CALIBRATING' : 'CALIBRATE'}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={active.name}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 bg-black/60 border border-cyan-800 rounded text-[10px] font-mono text-cyan-300 px-1 py-0.5"
+        >
+          {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </select>
+        {active.name !== DEFAULT_HAND_PROFILE.name && (
+          <button onClick={() => onDelete(active.name)} className="text-cyan-500 hover:text-red-400" title="Delete profile">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      <label className="block mt-2 text-[10px] font-mono text-cyan-600">
+        ROTATION SENSITIVITY <span className="text-cyan-200">{active.sensitivity.toFixed(1)}</span>
+        <input
+          type="range"
+          min={2}
+          max={25}
+          step={0.5}
+          value={active.sensitivity}
+          onChange={(e) => onChange({ ...active, sensitivity: Number(e.target.value) })}
+          className="w-full accent-cyan-400"
+        />
+      </label>
+
+      <p className="text-[10px] font-mono text-cyan-700">
+        PINCH {active.pinchOn.toFixed(3)} / {active.pinchOff.toFixed(3)} · CUTOFF {active.filter.minCutoff.toFixed(2)} HZ
+      </p>
+    </div>
+  );
+};
+
+export default HandProfilePanel;
@@ -1,18 +1,92 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { FilesetResolver, GestureRecognizer, DrawingUtils } from '@mediapipe/tasks-vision';
-
-export interface HandData {
-    x: number;
-    y: number;
-    active: boolean;
-}
+import { GestureRecognizer, DrawingUtils, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GestureData, GestureName, HandData, HandLandmark, HandProfile } from '../types';
+import { createGestureEngine, pinchDistance } from '../services/gestureEngine';
+import { CalibrationSamples, deriveProfile, measureJitter } from '../services/handProfiles';
+import { VisionAssetSource, VisionDelegate, loadGestureRecognizer, resolveVisionAssets } from '../services/visionAssets';
+import { GestureRecorder, PlaybackSource, createGestureRecorder, createPlaybackSource, downloadRecording, parseRecording } from '../services/gestureRecording';
 
 interface HandTrackerProps {
   handDataRef: React.MutableRefObject<HandData>;
   onStatusChange: (status: string) => void;
+  profile: HandProfile;
+  // While true the calibration wizard is shown and samples are collected
+  calibrating?: boolean;
+  onCalibrationComplete?: (profile: HandProfile) => void;
+  onCalibrationCancel?: () => void;
 }
 
-const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }) => {
+type CalibrationStep = 'open' | 'pinched' | 'review';
+
+const CALIBRATION_PROMPTS: Record<Exclude<CalibrationStep, 'review'>, string> = {
+  open: 'HOLD YOUR HAND OPEN AND STILL',
+  pinched: 'PINCH THUMB AND INDEX TOGETHER'
+};
+const SETTLE_FRAMES = 15; // Ignored at the start of each step while the hand moves into pose
+const SAMPLE_FRAMES = 60; // ~2 s at 30 fps
+
+const emptySamples = (): CalibrationSamples => ({ open: [], pinched: [], positions: [] });
+
+interface CalibrationWizardProps {
+  step: CalibrationStep;
+  progress: number;
+  samples: CalibrationSamples;
+  baseProfile: HandProfile;
+  onSave: (profile: HandProfile) => void;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ step, progress, samples, baseProfile, onSave, onRetry, onCancel }) => {
+  const [name, setName] = useState('');
+  const draft = step === 'review' ? deriveProfile(name.trim() || 'Calibrated', samples, baseProfile) : null;
+
+  return (
+    <div className="absolute bottom-48 left-4 z-50 pointer-events-auto glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-holo text-cyan-300 tracking-widest">HAND CALIBRATION</span>
+        <button onClick={onCancel} className="text-[10px] font-mono text-cyan-600 hover:text-cyan-300">CANCEL</button>
+      </div>
+
+      {step !== 'review' ? (
+        <>
+          <p className="text-[10px] font-mono text-cyan-400 mb-2">
+            STEP {step === 'open' ? 1 : 2}/2 · {CALIBRATION_PROMPTS[step]}
+          </p>
+          <div className="h-1 bg-gray-800 rounded overflow-hidden">
+            <div className="h-full bg-cyan-500 transition-all duration-100" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </>
+      ) : draft ? (
+        <>
+          <div className="grid grid-cols-2 gap-1 text-[10px] font-mono text-cyan-500 mb-2">
+            <span>PINCH ON</span><span className="text-cyan-200">{draft.pinchOn.toFixed(3)}</span>
+            <span>PINCH OFF</span><span className="text-cyan-200">{draft.pinchOff.toFixed(3)}</span>
+            <span>JITTER</span><span className="text-cyan-200">{measureJitter(samples.positions).toFixed(4)}</span>
+            <span>MIN CUTOFF</span><span className="text-cyan-200">{draft.filter.minCutoff.toFixed(2)} HZ</span>
+          </div>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="PROFILE NAME"
+            className="w-full mb-2 bg-black/60 border border-cyan-800 rounded px-2 py-1 text-xs font-mono text-cyan-100 placeholder-cyan-800 focus:outline-none focus:border-cyan-400"
+          />
+          <div className="flex gap-2">
+            <button onClick={() => onSave(draft)} className="flex-1 px-2 py-1 text-[10px] font-holo border border-cyan-500 text-cyan-300 rounded hover:bg-cyan-500/20">SAVE</button>
+            <button onClick={onRetry} className="flex-1 px-2 py-1 text-[10px] font-holo border border-cyan-800 text-cyan-600 rounded hover:bg-cyan-500/10">RETRY</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-[10px] font-mono text-amber-400 mb-2">OPEN AND PINCHED POSES WERE TOO SIMILAR. KEEP THE HAND FACING THE CAMERA.</p>
+          <button onClick={onRetry} className="w-full px-2 py-1 text-[10px] font-holo border border-cyan-500 text-cyan-300 rounded hover:bg-cyan-500/20">RETRY</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange, profile, calibrating, onCalibrationComplete, onCalibrationCancel }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -22,11 +96,97 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
   const [error, setError] = useState<string | null>(null);
   const [isAiReady, setIsAiReady] = useState(false);
   const [pinchDist, setPinchDist] = useState(0); // For debug UI
+  // Which delegate and asset source the recognizer ended up on
+  const [runtime, setRuntime] = useState<{ delegate: VisionDelegate; source: VisionAssetSource } | null>(null);
   const requestRef = useRef<number | null>(null);
   const lastVideoTime = useRef<number>(-1);
 
-  // Smoothing variables
-  const prevHand = useRef<{x: number, y: number}>({ x: 0.5, y: 0.5 });
+  // Turns recognizer frames into HandData (pinch, zoom, swipe, dwell, fist)
+  const engineRef = useRef(createGestureEngine(profile));
+
+  useEffect(() => {
+    engineRef.current.setProfile(profile);
+  }, [profile]);
+
+  // Calibration state is mirrored in a ref for the prediction loop
+  const [calibrationStep, setCalibrationStep] = useState<CalibrationStep | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState(0);
+  const calibrationRef = useRef<{ step: CalibrationStep; frames: number } | null>(null);
+  const samplesRef = useRef<CalibrationSamples>(emptySamples());
+
+  const goToStep = (step: CalibrationStep | null) => {
+    calibrationRef.current = step ? { step, frames: 0 } : null;
+    setCalibrationStep(step);
+    setCalibrationProgress(0);
+  };
+
+  const restartCalibration = () => {
+    samplesRef.current = emptySamples();
+    goToStep('open');
+  };
+
+  useEffect(() => {
+    if (calibrating) restartCalibration();
+    else goToStep(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [calibrating]);
+
+  const collectCalibrationSample = (hand: HandLandmark[]) => {
+    const calibration = calibrationRef.current;
+    if (!calibration || calibration.step === 'review') return;
+
+    calibration.frames++;
+    if (calibration.frames <= SETTLE_FRAMES) return;
+
+    const samples = samplesRef.current;
+    samples[calibration.step].push(pinchDistance(hand));
+    if (calibration.step === 'open') samples.positions.push({ x: 1 - hand[8].x, y: hand[8].y });
+
+    const progress = (calibration.frames - SETTLE_FRAMES) / SAMPLE_FRAMES;
+    if (progress >= 1) goToStep(calibration.step === 'open' ? 'pinched' : 'review');
+    else setCalibrationProgress(progress);
+  };
+
+  // Landmark capture and replay; playback takes over from the camera until stopped
+  const recorderRef = useRef<GestureRecorder | null>(null);
+  const playbackRef = useRef<PlaybackSource | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [recording, setRecording] = useState(false);
+  const [playing, setPlaying] = useState(false);
+
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+      const capture = recorderRef.current.finish();
+      recorderRef.current = null;
+      setRecording(false);
+      if (capture.frames.length > 0) downloadRecording(capture);
+    } else {
+      recorderRef.current = createGestureRecorder();
+      setRecording(true);
+    }
+  };
+
+  const stopPlayback = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setPlaying(false);
+  };
+
+  const handlePlaybackFile = async (file: File) => {
+    try {
+      const capture = parseRecording(await file.text());
+      stopPlayback();
+      playbackRef.current = createPlaybackSource(capture, handleFrame, { onEnd: stopPlayback });
+      setPlaying(true);
+      onStatusChange("PLAYBACK");
+      playbackRef.current.start();
+    } catch (err) {
+      console.error("Playback Error:", err);
+      onStatusChange(err instanceof Error ? err.message : "Playback Failed");
+    }
+  };
+
+  useEffect(() => () => playbackRef.current?.stop(), []);
 
   const stopCamera = useCallback(() => {
     if (requestRef.current) {
@@ -92,27 +252,20 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
   };
 
   const initAi = async () => {
+    const source = resolveVisionAssets();
     try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-        );
-        
-        const gestureRecognizer = await GestureRecognizer.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
+        const loaded = await loadGestureRecognizer(2, source, delegate => {
+            onStatusChange(`Loading AI (${delegate} · ${source.label})...`);
         });
         
         // Store in ref so the loop sees it immediately
-        recognizerRef.current = gestureRecognizer;
+        recognizerRef.current = loaded.recognizer;
+        setRuntime({ delegate: loaded.delegate, source: loaded.source });
         setIsAiReady(true);
-        onStatusChange("Systems Online");
+        onStatusChange(`Systems Online (${loaded.delegate} · ${source.label})`);
     } catch (err) {
         console.error("AI Init Error:", err);
-        onStatusChange("AI Module Failed");
+        onStatusChange(`AI Module Failed (${source.label} assets)`);
     }
   };
 
@@ -132,10 +285,73 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Single pipeline for every frame source: the live recognizer or a recorded playback
+  const handleFrame = (frame: GestureData) => {
+    recorderRef.current?.push(frame);
+    const handData = engineRef.current.process(frame);
+    handDataRef.current = handData;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (frame.landmarks.length > 0) {
+        // Update debug state occasionally (not every frame to save React renders)
+        if (Math.random() > 0.9) setPinchDist(pinchDistance(frame.landmarks[0]));
+
+        collectCalibrationSample(frame.landmarks[0]);
+
+        // Draw Skeleton
+        const drawingUtils = new DrawingUtils(ctx);
+        const pinchStates = engineRef.current.pinching();
+
+        frame.landmarks.forEach((hand, i) => {
+            const indexTip = hand[8];
+            const thumbTip = hand[4];
+            const pinching = pinchStates[i];
+
+            // Draw connectors
+            drawingUtils.drawConnectors(hand as NormalizedLandmark[], GestureRecognizer.HAND_CONNECTIONS, {
+                color: pinching ? "#00FF00" : "#00FFFF",
+                lineWidth: 4
+            });
+
+            // Draw large contact points for thumb and index
+            ctx.fillStyle = pinching ? "#00FF00" : "#FF0000";
+            [thumbTip, indexTip].forEach(pt => {
+                ctx.beginPath();
+                ctx.arc(pt.x * canvas.width, pt.y * canvas.height, 8, 0, 2 * Math.PI);
+                ctx.fill();
+            });
+
+            // Visual "Pinch Line"
+            ctx.beginPath();
+            ctx.moveTo(thumbTip.x * canvas.width, thumbTip.y * canvas.height);
+            ctx.lineTo(indexTip.x * canvas.width, indexTip.y * canvas.height);
+            ctx.strokeStyle = pinching ? "#00FF00" : "rgba(255, 255, 255, 0.5)";
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        });
+
+        onStatusChange(
+            handData.zooming ? "ZOOMING (SPREAD HANDS)"
+            : handData.active ? "GRIPPING (MOVE HAND)"
+            : handData.pointer ? "POINTING (HOLD TO SELECT)"
+            : "HAND DETECTED"
+        );
+    } else {
+        onStatusChange("LOOKING FOR HAND...");
+    }
+  };
+
   const predictWebcam = () => {
     // Recursive loop
     requestRef.current = requestAnimationFrame(predictWebcam);
 
+    // Recorded frames own the pipeline during playback
+    if (playbackRef.current) return;
+
     if (videoRef.current && videoRef.current.readyState === 4 && canvasRef.current) {
         // Access ref directly
         if (recognizerRef.current) {
@@ -146,79 +362,15 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
                 try {
                     const results = recognizerRef.current.recognizeForVideo(videoRef.current, nowInMs);
                     
-                    const ctx = canvasRef.current.getContext('2d');
-                    if (ctx) {
-                        ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-                        
-                        canvasRef.current.width = videoRef.current.videoWidth;
-                        canvasRef.current.height = videoRef.current.videoHeight;
-                        
-                        if (results.landmarks && results.landmarks.length > 0) {
-                            const hand = results.landmarks[0];
-                            const indexTip = hand[8];
-                            const thumbTip = hand[4];
-                            
-                            // Calculate Pinch
-                            const distance = Math.sqrt(
-                                Math.pow(thumbTip.x - indexTip.x, 2) + 
-                                Math.pow(thumbTip.y - indexTip.y, 2)
-                            );
-                            
-                            // Update debug state occasionally (not every frame to save React renders)
-                            if (Math.random() > 0.9) setPinchDist(distance);
-
-                            // Tuned Threshold: 0.15 is forgiving enough for most hands
-                            const isPinching = distance < 0.15; 
-                            
-                            // Draw Skeleton
-                            const drawingUtils = new DrawingUtils(ctx);
-                            
-                            // Draw connectors
-                            drawingUtils.drawConnectors(hand, GestureRecognizer.HAND_CONNECTIONS, {
-                                color: isPinching ? "#00FF00" : "#00FFFF",
-                                lineWidth: 4
-                            });
-                            
-                            // Draw large contact points for thumb and index
-                            ctx.fillStyle = isPinching ? "#00FF00" : "#FF0000";
-                            [thumbTip, indexTip].forEach(pt => {
-                                ctx.beginPath();
-                                ctx.arc(pt.x * canvasRef.current!.width, pt.y * canvasRef.current!.height, 8, 0, 2 * Math.PI);
-                                ctx.fill();
-                            });
-
-                            // Visual "Pinch Line"
-                            ctx.beginPath();
-                            ctx.moveTo(thumbTip.x * canvasRef.current.width, thumbTip.y * canvasRef.current.height);
-                            ctx.lineTo(indexTip.x * canvasRef.current.width, indexTip.y * canvasRef.current.height);
-                            ctx.strokeStyle = isPinching ? "#00FF00" : "rgba(255, 255, 255, 0.5)";
-                            ctx.lineWidth = 2;
-                            ctx.stroke();
-
-                            // Smooth the input coordinates using Linear Interpolation (Lerp)
-                            const rawX = 1 - indexTip.x; // Mirror X
-                            const rawY = indexTip.y;
-                            
-                            // Lerp factor (0.2 = heavy smoothing for stability)
-                            const alpha = 0.2; 
-                            const smoothX = prevHand.current.x + (rawX - prevHand.current.x) * alpha;
-                            const smoothY = prevHand.current.y + (rawY - prevHand.current.y) * alpha;
-                            
-                            prevHand.current = { x: smoothX, y: smoothY };
-
-                            handDataRef.current = {
-                                x: smoothX, 
-                                y: smoothY,
-                                active: isPinching
-                            };
-                            
-                            onStatusChange(isPinching ? "GRIPPING (MOVE HAND)" : "HAND DETECTED");
-                        } else {
-                            handDataRef.current = { ...handDataRef.current, active: false };
-                            onStatusChange("LOOKING FOR HAND...");
-                        }
-                    }
+                    canvasRef.current.width = videoRef.current.videoWidth;
+                    canvasRef.current.height = videoRef.current.videoHeight;
 
+                    handleFrame({
+                        landmarks: results.landmarks,
+                        handedness: results.handedness,
+                        gestures: results.gestures.map(g => (g[0]?.categoryName ?? 'None') as GestureName),
+                        timestamp: nowInMs
+                    });
                 } catch (e) {
                     console.error("Frame prediction error", e);
                 }
@@ -228,6 +380,18 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
   };
 
   return (
+    <>
+    {calibrationStep && (
+      <CalibrationWizard
+        step={calibrationStep}
+        progress={calibrationProgress}
+        samples={samplesRef.current}
+        baseProfile={profile}
+        onSave={draft => onCalibrationComplete?.(draft)}
+        onRetry={restartCalibration}
+        onCancel={() => onCalibrationCancel?.()}
+      />
+    )}
     <div className="absolute bottom-4 left-4 z-50 pointer-events-auto opacity-95 border-2 border-cyan-500/50 bg-black/90 overflow-hidden rounded-xl w-52 h-40 flex flex-col items-center justify-center transition-all hover:opacity-100 shadow-[0_0_25px_rgba(0,255,255,0.3)]">
       
       <div className="relative w-full h-full">
@@ -250,14 +414,55 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
             <div className="absolute bottom-1 left-2 right-2 h-1 bg-gray-800 rounded overflow-hidden">
                 <div 
                     className={`h-full transition-all duration-100 ${handDataRef.current.active ? 'bg-green-500' : 'bg-cyan-500'}`}
-                    style={{ width: `${Math.max(0, Math.min(100, (1 - (pinchDist / 0.3)) * 100))}%` }}
+                    style={{ width: `${Math.max(0, Math.min(100, (1 - (pinchDist / (profile.pinchOff * 2))) * 100))}%` }}
                 />
             </div>
           )}
       </div>
 
+      {/* Record / Playback Controls */}
+      <div className="absolute top-1 right-1 z-30 flex gap-1">
+          <button
+            onClick={toggleRecording}
+            disabled={playing || !isAiReady}
+            className={`px-1.5 py-0.5 text-[9px] font-mono rounded border disabled:opacity-30 ${recording ? 'border-red-500 text-red-400 animate-pulse' : 'border-cyan-700 text-cyan-400 hover:text-white'}`}
+            title={recording ? 'Stop and download recording' : 'Record landmark stream'}
+          >
+            {recording ? '■ REC' : '● REC'}
+          </button>
+          <button
+            onClick={() => playing ? stopPlayback() : fileInputRef.current?.click()}
+            disabled={recording}
+            className={`px-1.5 py-0.5 text-[9px] font-mono rounded border disabled:opacity-30 ${playing ? 'border-amber-500 text-amber-300' : 'border-cyan-700 text-cyan-400 hover:text-white'}`}
+            title={playing ? 'Stop playback' : 'Play a recording'}
+          >
+            {playing ? '■ STOP' : '▶ PLAY'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handlePlaybackFile(file);
+              e.target.value = '';
+            }}
+          />
+      </div>
+
+      {/* Runtime Readout */}
+      {runtime && (
+          <div
+            className="absolute top-1 left-1 z-30 px-1.5 py-0.5 text-[9px] font-mono rounded bg-black/70 border border-cyan-800 text-cyan-400"
+            title={`WASM: ${runtime.source.wasmPath}\nMODEL: ${runtime.source.modelPath}`}
+          >
+            {runtime.delegate} · {runtime.source.label}
+          </div>
+      )}
+
       {/* Loading Overlay */}
-      {!error && !isAiReady && (
+      {!error && !isAiReady && !playing && (
          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm z-10">
             <div className="w-8 h-8 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mb-3"></div>
             <span className="text-[10px] text-cyan-400 font-holo animate-pulse tracking-widest">INITIALIZING AI...</span>
@@ -265,7 +470,7 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
       )}
 
       {/* Error / Manual Start UI */}
-      {error && (
+      {error && !playing && (
         <div className="absolute inset-0 flex flex-col items-center justify-center p-4 text-center bg-black/90 z-20">
             <p className="text-red-500 text-[10px] font-mono mb-3 font-bold">{error.toUpperCase()}</p>
             <button 
@@ -277,6 +482,7 @@ const HandTracker: React.FC<HandTrackerProps> = ({ handDataRef, onStatusChange }
         </div>
       )}
     </div>
+    </>
   );
 };
 
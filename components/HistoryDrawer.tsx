@@ -0,0 +1,86 @@
+import React from 'react';
+import { History, X, Trash2, FileText, FileJson, FileSpreadsheet } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { ExportFormat, downloadHistory } from '../services/sessionExport';
+import { formatLatLon } from '../utils/geodesy';
+
+interface HistoryDrawerProps {
+  open: boolean;
+  entries: HistoryEntry[];
+  activeId: string | null;
+  onClose: () => void;
+  onRestore: (entry: HistoryEntry) => void;
+  onClear: () => void;
+}
+
+const EXPORTS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: 'markdown', label: 'MD', icon: FileText },
+  { format: 'json', label: 'JSON', icon: FileJson },
+  { format: 'csv', label: 'CSV', icon: FileSpreadsheet },
+];
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ open, entries, activeId, onClose, onRestore, onClear }) => {
+  // Closed, the drawer is only slid off-screen; inert keeps its buttons out of the tab order
+  return (
+    <aside
+      className={`fixed top-0 right-0 z-40 h-full w-80 glass-panel flex flex-col transition-transform duration-300 pointer-events-auto ${open ? 'translate-x-0' : 'translate-x-full'}`}
+      inert={!open}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-cyan-500/20">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">SCAN HISTORY</span>
+          <span className="text-[10px] font-mono text-cyan-700">{entries.length}</span>
+        </div>
+        <button onClick={onClose} className="text-cyan-500 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-cyan-500/20">
+        <span className="text-[10px] font-mono text-cyan-700">EXPORT</span>
+        {EXPORTS.map(({ format, label, icon: Icon }) => (
+          <button
+            key={format}
+            onClick={() => downloadHistory(entries, format)}
+            disabled={entries.length === 0}
+            className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-mono text-cyan-400 border border-cyan-800 rounded hover:text-white hover:border-cyan-400 disabled:opacity-30"
+          >
+            <Icon className="w-3 h-3" />
+            {label}
+          </button>
+        ))}
+        <button onClick={onClear} disabled={entries.length === 0} className="ml-auto text-cyan-500 hover:text-red-400 disabled:opacity-30" title="Clear history">
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto p-2 space-y-2">
+        {entries.length === 0 && (
+          <li className="p-2 text-[11px] font-mono text-cyan-700">Completed scans and sector summaries appear here.</li>
+        )}
+        {[...entries].reverse().map(entry => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onRestore(entry)}
+              className={`w-full text-left p-2 rounded border transition-colors ${entry.id === activeId ? 'border-cyan-400 bg-cyan-500/10' : 'border-cyan-900/50 hover:border-cyan-600 hover:bg-cyan-900/20'}`}
+            >
+              <div className="flex items-center justify-between text-[10px] font-mono text-cyan-600">
+                <span>{formatTime(entry.timestamp)}</span>
+                <span>{entry.result.sources?.length ? `${entry.result.sources.length} SRC` : ''}{entry.result.cachedAt ? ' · CACHED' : ''}</span>
+              </div>
+              <p className="text-xs font-holo text-cyan-100 truncate">{entry.title.toUpperCase()}</p>
+              {entry.location && <p className="text-[10px] font-mono text-cyan-500">{formatLatLon(entry.location)}</p>}
+              <p className="mt-1 text-[11px] text-cyan-300/80 line-clamp-2">{entry.result.text}</p>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+};
+
+export default HistoryDrawer;
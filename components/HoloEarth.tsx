@@ -1,22 +1,85 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Canvas, useFrame, ThreeEvent } from '@react-three/fiber';
-import { OrbitControls, Stars, Html, useTexture } from '@react-three/drei';
+import React, { useRef, useState, useEffect, useMemo, use } from 'react';
+import { Canvas, useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Stars, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { HandData } from './HandTracker';
+import { Earthquake, FeatureSelection, FlyToRequest, GestureEvent, HandData, LocationData, NavInput, OverlayFeature, OverlayLayer, Pin, RasterLayer, TemporalLayer, ViewBuffer, ViewRequest, ViewState } from '../types';
+import { eventsSince, lastEventSeq } from '../services/gestureEngine';
+import { sampleView } from '../services/sessionSync';
+import { SimulationClock, clockDate } from '../utils/simulationClock';
+import { Timeline } from '../utils/timeline';
+import { subsolarPoint } from '../utils/solar';
+import MeasurementLayer from './globe/MeasurementLayer';
+import OverlayLayerMesh from './globe/OverlayLayerMesh';
+import EarthquakeLayer from './globe/EarthquakeLayer';
+import RasterLayerMesh from './globe/RasterLayerMesh';
+import TemporalLayerMesh from './globe/TemporalLayerMesh';
+import SatelliteLayer from './globe/SatelliteLayer';
+import TiledSurface from './globe/TiledSurface';
+import { loadEarthTextures } from './globe/earthTextures';
+import { resolveTileSource } from '../services/imagery';
+import { Satellite } from '../services/satellites';
+import { facingQuaternion, latLonToVector, vectorToLatLon } from './globe/sceneMath';
+import { DragAnchor, dragStep, pickLatLon } from './globe/globeInput';
+import { createDayNightUniforms, dayNightFragmentShader, dayNightVertexShader } from './globe/dayNightShader';
 
 interface HoloEarthProps {
   handDataRef: React.MutableRefObject<HandData>;
+  // Keyboard/gamepad rates and crosshair events
+  navRef?: React.MutableRefObject<NavInput>;
   onLocationSelect: (lat: number, lon: number) => void;
   selectedLocation: { lat: number, lon: number } | null;
+  flyTo?: FlyToRequest | null;
+  pins?: Pin[];
+  onPinSelect?: (pin: Pin) => void;
+  // Measurement mode: clicks/pinches add path vertices instead of scanning
+  measureMode?: boolean;
+  measurePoints?: LocationData[];
+  onMeasurePoint?: (point: LocationData) => void;
+  // Drives the sun position (day/night terminator)
+  clock: SimulationClock;
+  // GeoJSON overlays, bottom-most first
+  overlays?: OverlayLayer[];
+  selectedFeature?: FeatureSelection | null;
+  onFeatureSelect?: (layer: OverlayLayer, feature: OverlayFeature, location: LocationData) => void;
+  // Gridded data shells, bottom-most first
+  rasters?: RasterLayer[];
+  // Dated raster/GeoJSON sequences positioned by `timeline`; they stack above the static layers
+  temporalLayers?: TemporalLayer[];
+  timeline?: Timeline | null;
+  // Surface point under the mouse, written on pointer move (for value readouts)
+  hoverRef?: React.MutableRefObject<LocationData | null>;
+  // Orbital layer, propagated against `clock`
+  satellites?: Satellite[];
+  selectedSatelliteId?: string | null;
+  showAllTracks?: boolean;
+  onSatelliteSelect?: (satellite: Satellite) => void;
+  // Seismic layer, already filtered
+  earthquakes?: Earthquake[];
+  selectedQuakeId?: string | null;
+  onQuakeSelect?: (quake: Earthquake) => void;
+  // Radians of globe rotation per full frame width of hand travel (from the hand profile)
+  rotationSensitivity?: number;
+  // Current globe/camera view, written every frame (for share links)
+  viewRef?: React.MutableRefObject<ViewState>;
+  // Jump straight to a saved view
+  viewRequest?: ViewRequest | null;
+  // Stops idle spinning and marker pulses; flights land instantly
+  reducedMotion?: boolean;
+  // Session mirroring: while this holds a buffer the view replays the controller's and local input is ignored
+  followRef?: React.MutableRefObject<ViewBuffer | null>;
 }
 
-// --- Textures ---
-const EARTH_TEXTURES = {
-  map: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_atmos_2048.jpg',
-  specular: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_specular_2048.jpg',
-  normal: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_normal_2048.jpg',
-  clouds: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_clouds_1024.png'
-};
+const FLY_DURATION = 1.6; // seconds
+const CAMERA_DISTANCE = 6;
+const MIN_DISTANCE = 2.5;
+const MAX_DISTANCE = 15;
+// Keyboard/gamepad rates at full deflection
+const NAV_ROTATE_SPEED = 1.2; // radians per second
+const NAV_ZOOM_SPEED = 1.2; // log camera distance per second
+
+// --- Imagery ---
+// Streamed day tiles over the base textures; null when EARTH_TILE_URL is 'none'
+const TILE_SOURCE = resolveTileSource();
 
 const LocationMarker = ({ position }: { position: THREE.Vector3 }) => {
   return (
@@ -37,59 +100,184 @@ const LocationMarker = ({ position }: { position: THREE.Vector3 }) => {
   );
 };
 
-const RealisticEarth = ({ handDataRef, onLocationSelect, selectedLocation }: HoloEarthProps) => {
+const PinMarker = ({ pin, position, onSelect }: { pin: Pin; position: THREE.Vector3; onSelect?: (pin: Pin) => void }) => {
+  return (
+    <group position={position}>
+      <mesh
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          onSelect?.(pin);
+        }}
+      >
+         <sphereGeometry args={[0.025, 12, 12]} />
+         <meshBasicMaterial color="#ffcc00" />
+      </mesh>
+      <Html distanceFactor={8} center position={[0, 0.08, 0]} zIndexRange={[10, 0]}>
+        <div
+          onClick={() => onSelect?.(pin)}
+          className="px-1.5 py-0.5 text-[10px] font-mono whitespace-nowrap text-amber-200 bg-black/70 border border-amber-400/50 rounded cursor-pointer select-none"
+        >
+          {pin.label}
+        </div>
+      </Html>
+    </group>
+  );
+};
+
+const RealisticEarth = ({ handDataRef, onLocationSelect, selectedLocation, flyTo, pins, onPinSelect, measureMode, measurePoints, onMeasurePoint, clock, overlays, selectedFeature, onFeatureSelect, earthquakes, selectedQuakeId, onQuakeSelect, satellites, selectedSatelliteId, showAllTracks, onSatelliteSelect, rasters, temporalLayers, timeline, hoverRef, navRef, rotationSensitivity = 10, viewRef, viewRequest, reducedMotion, followRef }: HoloEarthProps) => {
   const earthRef = useRef<THREE.Group>(null);
   const cloudsRef = useRef<THREE.Mesh>(null);
+  const surfaceRef = useRef<THREE.Mesh>(null);
+  const sunLightRef = useRef<THREE.DirectionalLight>(null);
   const [textures, setTextures] = useState<any>(null);
   
+  const { camera } = useThree();
+  
   // Previous hand position for calculating Drag Delta
-  const lastHandPos = useRef<{x: number, y: number} | null>(null);
+  const lastHandPos = useRef<DragAnchor>(null);
+
+  // Pinch state from the previous frame, for detecting the start of a pinch
+  const wasPinching = useRef(false);
+
+  // Last gesture event handled, so each select/reset applies once
+  const gestureSeq = useRef(lastEventSeq(handDataRef.current));
+  const navSeq = useRef(navRef ? lastEventSeq(navRef.current) : 0);
+
+  // Active fly-to animation (slerp between two globe orientations)
+  const flight = useRef<{ from: THREE.Quaternion; to: THREE.Quaternion; elapsed: number } | null>(null);
+
+  useEffect(() => {
+    if (!flyTo || !earthRef.current) return;
+    // Face the target towards wherever the camera currently is
+    const toCamera = new THREE.Quaternion().setFromUnitVectors(
+        new THREE.Vector3(0, 0, 1),
+        camera.position.clone().normalize()
+    );
+    flight.current = {
+        from: earthRef.current.quaternion.clone(),
+        to: toCamera.multiply(facingQuaternion(flyTo.lat, flyTo.lon)),
+        elapsed: reducedMotion ? FLY_DURATION : 0
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flyTo?.id]);
 
-  // Load textures manually to ensure they exist before rendering
-  const [colorMap, specularMap, normalMap, cloudsMap] = useTexture([
-    EARTH_TEXTURES.map,
-    EARTH_TEXTURES.specular,
-    EARTH_TEXTURES.normal,
-    EARTH_TEXTURES.clouds
-  ]);
+  useEffect(() => {
+    if (!viewRequest || !earthRef.current) return;
+    flight.current = null;
+    earthRef.current.quaternion.fromArray(viewRequest.globe);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewRequest?.id]);
+
+  // Base textures suspend until loaded; missing ones come back as flat placeholders
+  const { map: colorMap, specular: specularMap, night: nightMap, clouds: cloudsMap } = use(loadEarthTextures());
+
+  const surfaceUniforms = useMemo(() => {
+    // ShaderMaterial doesn't infer colour spaces, so flag the imagery as sRGB
+    colorMap.colorSpace = THREE.SRGBColorSpace;
+    nightMap.colorSpace = THREE.SRGBColorSpace;
+    return createDayNightUniforms(colorMap, nightMap, specularMap);
+  }, [colorMap, nightMap, specularMap]);
 
   useFrame((state, delta) => {
     if (!earthRef.current) return;
 
     const handData = handDataRef.current;
+    if (viewRef) viewRef.current = { ...viewRef.current, globe: earthRef.current.quaternion.toArray() as ViewState['globe'] };
+    const pinchStarted = handData.active && !wasPinching.current;
+    wasPinching.current = handData.active;
 
     // --- CLOUD ANIMATION ---
     if (cloudsRef.current) {
         cloudsRef.current.rotation.y += delta * 0.02; // Slow independent cloud rotation
     }
 
-    // --- INTERACTION LOGIC (GRAB & DRAG) ---
-    if (handData.active) {
-       // If this is the first frame of a grab, just store position, don't move yet
-       if (!lastHandPos.current) {
-           lastHandPos.current = { x: handData.x, y: handData.y };
-           return;
-       }
+    // --- SUN POSITION ---
+    // Sun direction lives in the Earth's local frame, so it turns with the globe
+    const sun = subsolarPoint(clockDate(clock));
+    const sunDirection = latLonToVector(sun.lat, sun.lon, 1);
+    surfaceUniforms.sunDirection.value.copy(sunDirection);
+    sunLightRef.current?.position.copy(sunDirection).multiplyScalar(10);
 
-       // Calculate Delta (Movement since last frame)
-       const deltaX = handData.x - lastHandPos.current.x;
-       const deltaY = handData.y - lastHandPos.current.y;
+    // --- SESSION MIRRORING ---
+    // The controller's orientation, interpolated; pending local events are dropped rather than replayed later
+    const follow = followRef?.current ? sampleView(followRef.current) : null;
+    if (follow) {
+        flight.current = null;
+        gestureSeq.current = lastEventSeq(handData);
+        if (navRef) navSeq.current = lastEventSeq(navRef.current);
+        earthRef.current.quaternion.slerpQuaternions(
+            new THREE.Quaternion().fromArray(follow.from.globe),
+            new THREE.Quaternion().fromArray(follow.to.globe),
+            follow.t
+        );
+        return;
+    }
 
-       // Apply Rotation
-       // Moving Hand LEFT (negative X) should rotate Earth LEFT (negative Y rotation)
-       // Sensitivity Multiplier: 10
-       earthRef.current.rotation.y += deltaX * 10; 
-       earthRef.current.rotation.x += deltaY * 10;
+    // --- GESTURE & NAV EVENTS ---
+    const handleEvent = (event: GestureEvent) => {
+        const earth = earthRef.current!;
+        if (event.type === 'reset') {
+            // Fly back to the initial orientation
+            flight.current = { from: earth.quaternion.clone(), to: new THREE.Quaternion(), elapsed: reducedMotion ? FLY_DURATION : 0 };
+        } else if (event.type === 'select' && surfaceRef.current) {
+            // Point & dwell (or the crosshair) behaves like a click at that screen position
+            const point = pickLatLon(event, state.camera, state.raycaster, earth, surfaceRef.current);
+            if (point) {
+                if (measureMode) onMeasurePoint?.(point);
+                else onLocationSelect(point.lat, point.lon);
+            }
+        }
+    };
+    for (const event of eventsSince(handData, gestureSeq.current)) {
+        gestureSeq.current = event.seq;
+        handleEvent(event);
+    }
+    const nav = navRef?.current;
+    if (nav) {
+        for (const event of eventsSince(nav, navSeq.current)) {
+            navSeq.current = event.seq;
+            handleEvent(event);
+        }
+    }
+    const navRotating = !!nav && (nav.rotate.x !== 0 || nav.rotate.y !== 0);
 
-       // Update last pos
-       lastHandPos.current = { x: handData.x, y: handData.y };
+    // --- FLY-TO ANIMATION ---
+    // A grab or nav input takes over immediately; otherwise the flight owns the globe until it lands
+    if (flight.current && !handData.active && !navRotating) {
+        const f = flight.current;
+        f.elapsed += delta;
+        const t = Math.min(1, f.elapsed / FLY_DURATION);
+        const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2; // easeInOutCubic
+        earthRef.current.quaternion.slerpQuaternions(f.from, f.to, eased);
+        if (t >= 1) flight.current = null;
+        return;
+    }
+    flight.current = null;
 
-    } else {
-        // Reset drag state
-        lastHandPos.current = null;
+    // --- MEASUREMENT (PINCH TO PLACE) ---
+    // In measure mode a pinch drops a vertex under the fingertip instead of grabbing
+    if (measureMode && handData.active) {
+        if (pinchStarted && surfaceRef.current) {
+            const point = pickLatLon(handData, state.camera, state.raycaster, earthRef.current, surfaceRef.current);
+            if (point) onMeasurePoint?.(point);
+        }
+        return;
+    }
 
-        // Auto Rotation (Idle)
-        if (!selectedLocation) {
+    // --- INTERACTION LOGIC (GRAB & DRAG) ---
+    // The first frame of a grab only stores the position; releasing clears it
+    const drag = dragStep(lastHandPos.current, handData, rotationSensitivity);
+    lastHandPos.current = drag.anchor;
+    if (handData.active) {
+       earthRef.current.rotation.y += drag.rotateY;
+       earthRef.current.rotation.x += drag.rotateX;
+    } else {
+        if (navRotating) {
+            // Same sense as the hand drag: +x brings the east into view, +y the north
+            earthRef.current.rotation.y -= nav.rotate.x * NAV_ROTATE_SPEED * delta;
+            earthRef.current.rotation.x += nav.rotate.y * NAV_ROTATE_SPEED * delta;
+        } else if (!selectedLocation && !measureMode && !reducedMotion && !nav?.crosshair) {
+            // Auto Rotation (Idle); held still while the crosshair is up so it stays on target
              earthRef.current.rotation.y += delta * 0.05;
         }
     }
@@ -99,39 +287,90 @@ const RealisticEarth = ({ handDataRef, onLocationSelect, selectedLocation }: Hol
     e.stopPropagation();
     const point = e.point;
     
-    if (earthRef.current) {
+    // A mirror's selection comes from the controller
+    if (earthRef.current && !followRef?.current) {
         // Convert world point to local point relative to the Earth Group
         const localPoint = earthRef.current.worldToLocal(point.clone());
-        
-        // Normalize to unit sphere (radius 1) for math, although our sphere is radius 2
-        localPoint.normalize();
+        const { lat, lon } = vectorToLatLon(localPoint);
 
-        // Calculate Lat/Lon
-        // Y is up in Three.js default
-        const phi = Math.acos(localPoint.y); // Angle from North Pole
-        const theta = Math.atan2(localPoint.x, localPoint.z); // Angle around Y axis
+        if (measureMode) {
+            onMeasurePoint?.({ lat, lon });
+        } else {
+            onLocationSelect(lat, lon);
+        }
+    }
+  };
 
-        const lat = 90 - (phi * 180 / Math.PI);
-        const lon = (theta * 180 / Math.PI);
-        
-        onLocationSelect(lat, lon);
+  const handleFeatureSelect = (layer: OverlayLayer, feature: OverlayFeature, worldPoint: THREE.Vector3) => {
+    if (!earthRef.current || followRef?.current) return;
+    // Point features report their own coordinate; lines/polygons report where they were hit
+    const location = feature.points.length === 1 && feature.lines.length === 0 && feature.polygons.length === 0
+        ? feature.points[0]
+        : vectorToLatLon(earthRef.current.worldToLocal(worldPoint.clone()));
+    if (measureMode) {
+        onMeasurePoint?.(location);
+    } else {
+        onFeatureSelect?.(layer, feature, location);
+    }
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (hoverRef && earthRef.current) hoverRef.current = vectorToLatLon(earthRef.current.worldToLocal(e.point.clone()));
+  };
+
+  const handlePointerOut = () => {
+    document.body.style.cursor = 'default';
+    if (hoverRef) hoverRef.current = null;
+  };
+
+  const handleQuakeSelect = (quake: Earthquake) => {
+    if (followRef?.current) return;
+    if (measureMode) {
+        onMeasurePoint?.(quake.location);
+    } else {
+        onQuakeSelect?.(quake);
     }
   };
 
   return (
-    <group ref={earthRef} onPointerDown={handlePointerDown} onPointerOver={() => document.body.style.cursor = 'crosshair'} onPointerOut={() => document.body.style.cursor = 'default'}>
+    <group ref={earthRef} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerOver={() => document.body.style.cursor = 'crosshair'} onPointerOut={handlePointerOut}>
+      {/* SUNLIGHT: positioned at the subsolar point every frame (lights the clouds) */}
+      <directionalLight 
+          ref={sunLightRef}
+          position={[10, 0, 0]} 
+          intensity={2.5} 
+          castShadow 
+          color="#ffffff"
+      />
+
       {/* 1. SURFACE SPHERE */}
-      <mesh castShadow receiveShadow>
+      <mesh ref={surfaceRef} castShadow receiveShadow>
         <sphereGeometry args={[2, 64, 64]} />
-        <meshPhongMaterial 
-            map={colorMap}
-            specularMap={specularMap}
-            normalMap={normalMap}
-            specular={new THREE.Color(0x333333)}
-            shininess={15}
+        <shaderMaterial
+            uniforms={surfaceUniforms}
+            vertexShader={dayNightVertexShader}
+            fragmentShader={dayNightFragmentShader}
         />
       </mesh>
 
+      {/* Higher-resolution day imagery where the camera is looking */}
+      {TILE_SOURCE && <TiledSurface source={TILE_SOURCE} uniforms={surfaceUniforms} />}
+
+      {/* Raster Data Shells (between surface and clouds) */}
+      {rasters?.map((layer, order) => layer.visible && (
+          <RasterLayerMesh key={layer.id} layer={layer} order={order} />
+      ))}
+      {timeline && temporalLayers?.filter(layer => layer.kind === 'raster').map((layer, i) => layer.visible && (
+          <TemporalLayerMesh
+              key={layer.id}
+              layer={layer}
+              timeline={timeline}
+              order={(rasters?.length ?? 0) + i}
+              selectedFeatureIndex={null}
+              onFeatureSelect={handleFeatureSelect}
+          />
+      ))}
+
       {/* 2. CLOUD LAYER */}
       <mesh ref={cloudsRef}>
         <sphereGeometry args={[2.02, 64, 64]} />
@@ -157,34 +396,174 @@ const RealisticEarth = ({ handDataRef, onLocationSelect, selectedLocation }: Hol
         />
       </mesh>
 
+      {/* GeoJSON Overlays */}
+      {overlays?.map((layer, order) => layer.visible && (
+          <OverlayLayerMesh
+              key={layer.id}
+              layer={layer}
+              order={order}
+              selectedFeatureIndex={selectedFeature?.layerId === layer.id ? selectedFeature.featureIndex : null}
+              onFeatureSelect={handleFeatureSelect}
+          />
+      ))}
+      {timeline && temporalLayers?.filter(layer => layer.kind === 'geojson').map((layer, i) => layer.visible && (
+          <TemporalLayerMesh
+              key={layer.id}
+              layer={layer}
+              timeline={timeline}
+              order={(overlays?.length ?? 0) + i}
+              selectedFeatureIndex={selectedFeature?.layerId === layer.id ? selectedFeature.featureIndex : null}
+              onFeatureSelect={handleFeatureSelect}
+          />
+      ))}
+
+      {/* Seismic Events */}
+      {earthquakes && earthquakes.length > 0 && (
+          <EarthquakeLayer quakes={earthquakes} selectedId={selectedQuakeId ?? null} onSelect={handleQuakeSelect} animate={!reducedMotion} />
+      )}
+
+      {/* Satellites (Earth-fixed positions, so they ride with the globe) */}
+      {satellites && satellites.length > 0 && (
+          <SatelliteLayer
+              satellites={satellites}
+              clock={clock}
+              selectedId={selectedSatelliteId ?? null}
+              showAllTracks={showAllTracks ?? false}
+              onSelect={satellite => onSatelliteSelect?.(satellite)}
+          />
+      )}
+
+      {/* Measurement Path */}
+      {measurePoints && measurePoints.length > 0 && <MeasurementLayer points={measurePoints} />}
+
+      {/* Pinned Locations */}
+      {pins?.map(pin => (
+          <PinMarker
+              key={pin.id}
+              pin={pin}
+              position={latLonToVector(pin.location.lat, pin.location.lon)}
+              onSelect={onPinSelect}
+          />
+      ))}
+
       {/* Selected Location Marker */}
       {selectedLocation && (
-          <LocationMarker position={new THREE.Vector3(
-              2.02 * Math.sin((90 - selectedLocation.lat) * Math.PI / 180) * Math.sin(selectedLocation.lon * Math.PI / 180),
-              2.02 * Math.cos((90 - selectedLocation.lat) * Math.PI / 180),
-              2.02 * Math.sin((90 - selectedLocation.lat) * Math.PI / 180) * Math.cos(selectedLocation.lon * Math.PI / 180)
-          )} />
+          <LocationMarker position={latLonToVector(selectedLocation.lat, selectedLocation.lon)} />
       )}
     </group>
   );
 };
 
+// Camera distance changes: two-hand or nav zoom, resets and fly-to requests that carry a distance
+interface CameraRigProps {
+  handDataRef: React.MutableRefObject<HandData>;
+  navRef?: React.MutableRefObject<NavInput>;
+  flyTo?: FlyToRequest | null;
+  viewRef?: React.MutableRefObject<ViewState>;
+  viewRequest?: ViewRequest | null;
+  reducedMotion?: boolean;
+  followRef?: React.MutableRefObject<ViewBuffer | null>;
+}
+
+const CameraRig = ({ handDataRef, navRef, flyTo, viewRef, viewRequest, reducedMotion, followRef }: CameraRigProps) => {
+  const lastZoom = useRef(handDataRef.current.zoom);
+  const gestureSeq = useRef(lastEventSeq(handDataRef.current));
+  const navSeq = useRef(navRef ? lastEventSeq(navRef.current) : 0);
+  const dolly = useRef<{ from: number; to: number; elapsed: number } | null>(null);
+  const { camera, controls } = useThree();
+
+  useEffect(() => {
+    if (flyTo?.distance === undefined) return;
+    dolly.current = {
+        from: camera.position.length(),
+        to: THREE.MathUtils.clamp(flyTo.distance, MIN_DISTANCE, MAX_DISTANCE),
+        elapsed: reducedMotion ? FLY_DURATION : 0
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flyTo?.id]);
+
+  useEffect(() => {
+    if (!viewRequest) return;
+    const orbit = controls as unknown as { target: THREE.Vector3; update: () => void } | null;
+    dolly.current = null;
+    orbit?.target.set(0, 0, 0);
+    camera.position.fromArray(viewRequest.camera);
+    orbit?.update();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewRequest?.id, controls]);
+
+  useFrame(({ camera, controls }, delta) => {
+    const handData = handDataRef.current;
+    const orbit = controls as unknown as { target: THREE.Vector3; update: () => void } | null;
+    const target = orbit?.target ?? new THREE.Vector3();
+    const offset = camera.position.clone().sub(target);
+
+    // Mirrors take the controller's camera, interpolated like the globe
+    const follow = followRef?.current ? sampleView(followRef.current) : null;
+    if (follow) {
+        dolly.current = null;
+        lastZoom.current = handData.zoom;
+        gestureSeq.current = lastEventSeq(handData);
+        if (navRef) navSeq.current = lastEventSeq(navRef.current);
+        target.set(0, 0, 0);
+        camera.position.fromArray(follow.from.camera).lerp(new THREE.Vector3().fromArray(follow.to.camera), follow.t);
+        orbit?.update();
+        if (viewRef) viewRef.current = { ...viewRef.current, camera: camera.position.toArray() as ViewState['camera'] };
+        return;
+    }
+
+    // Dolly alongside the globe's fly-to, with the same easing
+    if (dolly.current) {
+        const d = dolly.current;
+        d.elapsed += delta;
+        const t = Math.min(1, d.elapsed / FLY_DURATION);
+        const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+        offset.setLength(THREE.MathUtils.lerp(d.from, d.to, eased));
+        camera.position.copy(target).add(offset);
+        orbit?.update();
+        if (t >= 1) dolly.current = null;
+    }
+
+    // Spreading the hands apart (or holding nav zoom) moves the camera closer
+    const nav = navRef?.current;
+    const zoomDelta = handData.zoom - lastZoom.current + (nav ? nav.zoom * NAV_ZOOM_SPEED * delta : 0);
+    lastZoom.current = handData.zoom;
+    if (zoomDelta !== 0) {
+        dolly.current = null;
+        offset.setLength(THREE.MathUtils.clamp(offset.length() * Math.exp(-zoomDelta), MIN_DISTANCE, MAX_DISTANCE));
+        camera.position.copy(target).add(offset);
+        orbit?.update();
+    }
+
+    const resets = [
+        ...eventsSince(handData, gestureSeq.current),
+        ...(nav ? eventsSince(nav, navSeq.current) : []),
+    ];
+    gestureSeq.current = lastEventSeq(handData);
+    if (nav) navSeq.current = lastEventSeq(nav);
+    if (resets.some(event => event.type === 'reset')) {
+        dolly.current = null;
+        target.set(0, 0, 0);
+        camera.position.set(0, 0, CAMERA_DISTANCE);
+        orbit?.update();
+    }
+
+    if (viewRef) viewRef.current = { ...viewRef.current, camera: camera.position.toArray() as ViewState['camera'] };
+  });
+
+  return null;
+};
+
 const HoloEarth: React.FC<HoloEarthProps> = (props) => {
   return (
     <div className="fixed inset-0 z-0 bg-black">
       <Canvas 
         shadows 
-        camera={{ position: [0, 0, 6], fov: 45 }} 
+        camera={{ position: [0, 0, CAMERA_DISTANCE], fov: 45 }} 
         gl={{ antialias: true, toneMapping: THREE.ACESFilmicToneMapping, outputColorSpace: THREE.SRGBColorSpace }}
       >
         {/* REALISTIC SPACE LIGHTING */}
         <ambientLight intensity={0.1} color="#404040" /> {/* Dim ambient space light */}
-        <directionalLight 
-            position={[10, 5, 5]} 
-            intensity={2.5} 
-            castShadow 
-            color="#ffffff"
-        />
         <pointLight position={[-10, 0, -10]} intensity={0.5} color="#001133" /> {/* Blue rim light from back */}
         
         {/* Background Stars */}
@@ -194,14 +573,17 @@ const HoloEarth: React.FC<HoloEarthProps> = (props) => {
              <RealisticEarth {...props} />
         </React.Suspense>
         
+        <CameraRig handDataRef={props.handDataRef} navRef={props.navRef} flyTo={props.flyTo} viewRef={props.viewRef} viewRequest={props.viewRequest} reducedMotion={props.reducedMotion} followRef={props.followRef} />
+
         <OrbitControls 
-            enableZoom={true} 
-            minDistance={2.5}
-            maxDistance={15}
-            enablePan={true}
-            // Disable Mouse Rotate ONLY if hand is active
-            enableRotate={!props.handDataRef.current.active}
-            autoRotate={!props.handDataRef.current.active && !props.selectedLocation}
+            makeDefault
+            minDistance={MIN_DISTANCE}
+            maxDistance={MAX_DISTANCE}
+            // Disable Mouse Rotate ONLY if hand is active; a mirror's camera belongs to the controller
+            enableRotate={!props.handDataRef.current.active && !props.followRef?.current}
+            enableZoom={!props.followRef?.current}
+            enablePan={!props.followRef?.current}
+            autoRotate={!props.followRef?.current && !props.handDataRef.current.active && !props.navRef?.current.crosshair && !props.selectedLocation && !props.measureMode && !props.reducedMotion}
             autoRotateSpeed={0.5} 
             zoomSpeed={0.8}
             rotateSpeed={0.5}
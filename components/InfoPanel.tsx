@@ -1,14 +1,107 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { ExternalLink } from 'lucide-react';
+import { ChatTurn, LocationReport } from '../types';
+import { formatPopulation } from '../services/locationReport';
 
 interface InfoPanelProps {
   title: string;
   content: string;
   loading: boolean;
   sources?: { uri: string; title: string }[];
+  dataSource?: string;
+  thread?: ChatTurn[];
+  report?: LocationReport;
+  cachedAt?: number;
 }
 
-const InfoPanel: React.FC<InfoPanelProps> = ({ title, content, loading, sources }) => {
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const SourceList = ({ sources, compact = false }: { sources: { uri: string; title: string }[]; compact?: boolean }) => (
+  <div className={compact ? 'mt-1' : 'border-t border-cyan-500/20 pt-3 mt-4'}>
+    {!compact && <p className="text-[10px] text-cyan-500 uppercase font-mono mb-2 tracking-widest">Data Sources</p>}
+    <ul className="space-y-1">
+      {sources.map((source, index) => (
+        <li key={index}>
+          <a 
+            href={source.uri} 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="flex items-center text-xs text-cyan-400 hover:text-white transition-colors truncate"
+          >
+            <ExternalLink className="w-3 h-3 mr-1 inline" />
+            <span className="truncate">{source.title || source.uri}</span>
+          </a>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Horizontal gauge for bounded readouts (temperature, confidence)
+const Gauge = ({ value, min, max, color }: { value: number; min: number; max: number; color: string }) => (
+  <div className="h-1 mt-1 bg-cyan-950 rounded overflow-hidden">
+    <div
+      className={`h-full ${color} shadow-[0_0_6px_rgba(0,255,255,0.6)]`}
+      style={{ width: `${Math.max(0, Math.min(100, ((value - min) / (max - min)) * 100))}%` }}
+    />
+  </div>
+);
+
+const Readout = ({ label, value, children }: { label: string; value: React.ReactNode; children?: React.ReactNode }) => (
+  <div className="border-l-2 border-cyan-500/40 pl-2">
+    <p className="text-[10px] text-cyan-600 font-mono tracking-widest uppercase">{label}</p>
+    <p className="text-cyan-100 font-holo text-sm truncate">{value}</p>
+    {children}
+  </div>
+);
+
+const ReportReadouts = ({ report }: { report: LocationReport }) => (
+  <div className="space-y-3">
+    <div>
+      <p className="text-xl text-cyan-50 font-holo tracking-wide">{report.regionName}</p>
+      <p className="text-xs text-cyan-500 font-mono uppercase">{report.country ?? 'International Territory'}</p>
+    </div>
+    <div className="grid grid-cols-2 gap-3">
+      <Readout label="Climate Zone" value={report.climateZone} />
+      <Readout label="Population" value={formatPopulation(report.populationEstimate)} />
+      <Readout label="Temperature" value={`${report.temperatureC.toFixed(1)}°C`}>
+        <Gauge value={report.temperatureC} min={-40} max={50} color={report.temperatureC > 25 ? 'bg-amber-400' : 'bg-cyan-400'} />
+      </Readout>
+      <Readout label="Confidence" value={`${Math.round(report.confidence * 100)}%`}>
+        <Gauge value={report.confidence} min={0} max={1} color={report.confidence < 0.5 ? 'bg-red-400' : 'bg-green-400'} />
+      </Readout>
+    </div>
+    <Readout label="Conditions" value={report.conditions} />
+    <p className="text-cyan-100/90 leading-relaxed font-light text-base tracking-wide">{report.fact}</p>
+  </div>
+);
+
+const InfoPanel: React.FC<InfoPanelProps> = ({ title, content, loading, sources, dataSource = 'GEMINI_CORE_V2.5', thread, report, cachedAt }) => {
+  // Re-render periodically so the cache age stays current
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!cachedAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [cachedAt]);
+
+  // Screen readers hear the finished result once, not every streamed chunk
+  const [announcement, setAnnouncement] = useState('');
+  useEffect(() => {
+    if (loading) {
+      setAnnouncement(`Scanning ${title}`);
+      return;
+    }
+    const summary = report ? `${report.regionName}. ${report.conditions}. ${report.fact}` : content;
+    setAnnouncement(`${title}: ${summary}`);
+  }, [loading, title, content, report]);
+
   return (
     <div className="glass-panel p-6 rounded-tr-3xl rounded-bl-3xl max-w-md w-full relative overflow-hidden group transition-all duration-300 hover:bg-opacity-80 flex flex-col max-h-[80vh]">
       {/* Decorative HUD Lines */}
@@ -16,6 +109,7 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ title, content, loading, sources
       <div className="absolute top-0 right-0 w-[2px] h-8 bg-cyan-400"></div>
       <div className="absolute bottom-0 right-0 w-16 h-[2px] bg-cyan-400"></div>
       <div className="absolute bottom-0 left-0 w-[2px] h-8 bg-cyan-400"></div>
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
 
       <div className="flex items-center justify-between mb-4 border-b border-cyan-500/30 pb-2 shrink-0">
         <h2 className="text-2xl font-holo text-cyan-300 tracking-wider uppercase drop-shadow-[0_0_5px_rgba(0,255,255,0.8)] truncate pr-2">
@@ -29,44 +123,49 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ title, content, loading, sources
       </div>
 
       <div className="relative overflow-y-auto pr-2 custom-scrollbar grow">
-        {loading ? (
-          <div className="flex flex-col items-center justify-center py-10 space-y-4">
-             <div className="w-8 h-8 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin"></div>
-             <p className="text-cyan-600 text-sm animate-pulse font-mono">SCANNING SECTOR...</p>
-          </div>
-        ) : (
-          <div className="space-y-4">
+        <div className="space-y-4">
+          {report && !loading ? (
+            <ReportReadouts report={report} />
+          ) : (
             <p className="text-cyan-100/90 leading-relaxed font-light text-lg tracking-wide shadow-black drop-shadow-md whitespace-pre-wrap">
               {content}
+              {/* Typing cursor while the response is still streaming in */}
+              {loading && (
+                <span className="inline-block w-2 h-5 ml-1 align-middle bg-cyan-400 animate-pulse shadow-[0_0_6px_rgba(0,255,255,0.8)]" />
+              )}
             </p>
-            
-            {sources && sources.length > 0 && (
-              <div className="border-t border-cyan-500/20 pt-3 mt-4">
-                <p className="text-[10px] text-cyan-500 uppercase font-mono mb-2 tracking-widest">Data Sources</p>
-                <ul className="space-y-1">
-                  {sources.map((source, index) => (
-                    <li key={index}>
-                      <a 
-                        href={source.uri} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="flex items-center text-xs text-cyan-400 hover:text-white transition-colors truncate"
-                      >
-                        <ExternalLink className="w-3 h-3 mr-1 inline" />
-                        <span className="truncate">{source.title || source.uri}</span>
-                      </a>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            )}
-          </div>
-        )}
+          )}
+          {loading && !content && (
+            <p className="text-cyan-600 text-xs animate-pulse font-mono">RECEIVING TRANSMISSION...</p>
+          )}
+
+          {!loading && sources && sources.length > 0 && <SourceList sources={sources} />}
+
+          {/* Follow-up conversation for the current selection */}
+          {thread && thread.length > 0 && (
+            <div className="border-t border-cyan-500/20 pt-3 mt-4 space-y-3">
+              <p className="text-[10px] text-cyan-500 uppercase font-mono tracking-widest">Query Log</p>
+              {thread.map((turn, index) => (
+                <div key={index} className={turn.role === 'user' ? 'text-right' : ''}>
+                  <p className="text-[10px] text-cyan-700 font-mono">{turn.role === 'user' ? 'OPERATOR' : 'CORE'}</p>
+                  <p className={`text-sm whitespace-pre-wrap ${turn.role === 'user' ? 'text-cyan-300 font-mono' : 'text-cyan-100/90 font-light'}`}>
+                    {turn.text}
+                  </p>
+                  {turn.sources && turn.sources.length > 0 && <SourceList sources={turn.sources} compact />}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="mt-4 pt-2 flex justify-between items-center text-xs text-cyan-600 font-mono shrink-0">
-        <span>DATA_SRC: GEMINI_CORE_V2.5</span>
-        <span>LIVE_FEED</span>
+        <span>DATA_SRC: {dataSource}</span>
+        {cachedAt ? (
+          <span className="text-amber-500">CACHED · {formatAge(now - cachedAt)}</span>
+        ) : (
+          <span>LIVE_FEED</span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, Eye, EyeOff, ChevronUp, ChevronDown, X, Upload, Link } from 'lucide-react';
+import { OverlayLayer, OverlayStyle } from '../types';
+import { loadOverlayFromFile, loadOverlayFromUrl } from '../services/geojson';
+
+interface LayerManagerProps {
+  layers: OverlayLayer[];
+  onChange: (layers: OverlayLayer[]) => void;
+}
+
+const isGeoJsonFile = (file: File) => /\.(geo)?json$/i.test(file.name);
+
+const LayerManager: React.FC<LayerManagerProps> = ({ layers, onChange }) => {
+  const [url, setUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Latest props for the window-level drop handler, which is registered once
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const addLayer = async (load: (index: number) => Promise<OverlayLayer>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const layer = await load(layersRef.current.length);
+      onChangeRef.current([...layersRef.current, layer]);
+    } catch (err) {
+      console.error("Overlay load failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to load layer");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addFiles = (files: FileList | null) => {
+    Array.from(files ?? []).filter(isGeoJsonFile).forEach(file => addLayer(index => loadOverlayFromFile(file, index)));
+  };
+
+  // Accept GeoJSON files dropped anywhere on the window
+  useEffect(() => {
+    const onDragOver = (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      setDragging(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (e.relatedTarget === null) setDragging(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!e.dataTransfer?.files.length) return;
+      e.preventDefault();
+      setDragging(false);
+      addFiles(e.dataTransfer.files);
+    };
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('drop', onDrop);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const update = (id: string, patch: Partial<OverlayLayer>) =>
+    onChange(layers.map(layer => layer.id === id ? { ...layer, ...patch } : layer));
+
+  const updateStyle = (layer: OverlayLayer, patch: Partial<OverlayStyle>) =>
+    update(layer.id, { style: { ...layer.style, ...patch } });
+
+  // List is shown top-most first; the array is bottom-most first
+  const move = (index: number, direction: 1 | -1) => {
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    addLayer(index => loadOverlayFromUrl(trimmed, index));
+    setUrl("");
+  };
+
+  return (
+    <div className={`glass-panel p-3 rounded-tl-xl rounded-br-xl w-64 transition-colors ${dragging ? 'border-emerald-400' : ''}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Layers className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">LAYERS</span>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-300 border border-cyan-500/50 rounded hover:bg-cyan-500/20 disabled:opacity-30"
+        >
+          <Upload className="w-3 h-3" /> FILE
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.geojson,application/geo+json,application/json"
+          multiple
+          className="hidden"
+          onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+        />
+      </div>
+
+      <form onSubmit={handleUrlSubmit} className="flex items-center gap-1 mb-2">
+        <Link className="w-3 h-3 text-cyan-600 shrink-0" />
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="GEOJSON URL"
+          className="flex-1 min-w-0 bg-transparent border-b border-cyan-800 outline-none text-[10px] text-cyan-100 placeholder-cyan-800 font-mono"
+        />
+      </form>
+
+      {dragging && <p className="text-[10px] text-emerald-300 font-mono mb-1">DROP GEOJSON TO ADD LAYER</p>}
+      {busy && <p className="text-[10px] text-cyan-500 font-mono animate-pulse mb-1">LOADING LAYER...</p>}
+      {error && <p className="text-[10px] text-red-400 font-mono mb-1 break-words">{error.toUpperCase()}</p>}
+
+      {layers.length === 0 ? (
+        <p className="text-[10px] text-cyan-700 font-mono">Drop a .geojson file or paste a URL.</p>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto pr-1">
+          {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+            <li key={layer.id} className="flex items-center gap-1 text-xs font-mono text-cyan-300">
+              <input
+                type="color"
+                value={layer.style.color}
+                onChange={(e) => updateStyle(layer, { color: e.target.value })}
+                className="w-4 h-4 bg-transparent border-none p-0 cursor-pointer shrink-0"
+                title="Layer colour"
+              />
+              <span className={`flex-1 truncate ${layer.visible ? '' : 'opacity-40'}`} title={`${layer.source} · ${layer.features.length} features`}>
+                {layer.name}
+              </span>
+              <button onClick={() => update(layer.id, { visible: !layer.visible })} className="text-cyan-500 hover:text-white" title="Toggle visibility">
+                {layer.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === layers.length - 1} className="text-cyan-500 hover:text-white disabled:opacity-20" title="Move up">
+                <ChevronUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="text-cyan-500 hover:text-white disabled:opacity-20" title="Move down">
+                <ChevronDown className="w-3 h-3" />
+              </button>
+              <button onClick={() => onChange(layers.filter(l => l.id !== layer.id))} className="text-cyan-700 hover:text-red-400" title="Remove layer">
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LayerManager;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Ruler, Undo2, Trash2 } from 'lucide-react';
+import { LocationData } from '../types';
+import { compassPoint, formatLatLon, haversineKm, initialBearing, midpoint, pathLengthKm } from '../utils/geodesy';
+
+interface MeasurementPanelProps {
+  active: boolean;
+  points: LocationData[];
+  onToggle: () => void;
+  onUndo: () => void;
+  onClear: () => void;
+}
+
+const formatKm = (km: number) => km >= 1000 ? `${(km / 1000).toFixed(2)}k km` : `${km.toFixed(1)} km`;
+
+const MeasurementPanel: React.FC<MeasurementPanelProps> = ({ active, points, onToggle, onUndo, onClear }) => {
+  const last = points.length > 1 ? { from: points[points.length - 2], to: points[points.length - 1] } : null;
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onToggle}
+          className={`flex items-center gap-2 text-xs font-holo tracking-widest transition-colors ${active ? 'text-emerald-300' : 'text-cyan-300 hover:text-white'}`}
+        >
+          <Ruler className="w-4 h-4" />
+          {active ? 'MEASURING' : 'MEASURE'}
+        </button>
+        {active && (
+          <div className="flex gap-2">
+            <button onClick={onUndo} disabled={points.length === 0} className="text-cyan-500 hover:text-white disabled:opacity-30" title="Remove last point">
+              <Undo2 className="w-3 h-3" />
+            </button>
+            <button onClick={onClear} disabled={points.length === 0} className="text-cyan-500 hover:text-red-400 disabled:opacity-30" title="Clear path">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {active && (
+        <div className="mt-2 space-y-1 text-[11px] font-mono text-cyan-300">
+          {points.length === 0 && <p className="text-cyan-700">Click or pinch the globe to place the first point.</p>}
+          {points.length === 1 && <p className="text-cyan-700">Origin {formatLatLon(points[0])}. Place the next point.</p>}
+          {last && (
+            <>
+              <p>SEGMENT: <span className="text-white">{formatKm(haversineKm(last.from, last.to))}</span></p>
+              <p>BEARING: <span className="text-white">{initialBearing(last.from, last.to).toFixed(1)}° {compassPoint(initialBearing(last.from, last.to))}</span></p>
+              <p>MIDPOINT: <span className="text-white">{formatLatLon(midpoint(last.from, last.to))}</span></p>
+              {points.length > 2 && (
+                <p className="pt-1 border-t border-cyan-500/20">
+                  TOTAL ({points.length - 1} SEG): <span className="text-emerald-300">{formatKm(pathLengthKm(points))}</span>
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeasurementPanel;
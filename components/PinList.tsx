@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { MapPinned, Plus, X, GitCompare } from 'lucide-react';
+import { Pin } from '../types';
+
+interface PinListProps {
+  pins: Pin[];
+  activePinId: string | null;
+  compareIds: string[];
+  canPin: boolean;
+  onPinCurrent: () => void;
+  onSelect: (pin: Pin) => void;
+  onRemove: (pin: Pin) => void;
+  onToggleCompare: (pin: Pin) => void;
+  onCompare: (focus: string | undefined) => void;
+}
+
+const COMPARISON_FOCUSES = ['General', 'Climate', 'Population', 'Geology', 'Ecology'];
+
+const PinList: React.FC<PinListProps> = ({ pins, activePinId, compareIds, canPin, onPinCurrent, onSelect, onRemove, onToggleCompare, onCompare }) => {
+  const [focus, setFocus] = useState(COMPARISON_FOCUSES[0]);
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <MapPinned className="w-4 h-4 text-amber-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">PINS</span>
+        </div>
+        <button
+          onClick={onPinCurrent}
+          disabled={!canPin}
+          className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-300 border border-cyan-500/50 rounded hover:bg-cyan-500/20 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+        >
+          <Plus className="w-3 h-3" /> PIN SCAN
+        </button>
+      </div>
+
+      {pins.length === 0 ? (
+        <p className="text-[10px] text-cyan-700 font-mono">Scan a location, then pin it to keep its report.</p>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto pr-1">
+          {pins.map(pin => (
+            <li
+              key={pin.id}
+              className={`flex items-center gap-2 px-2 py-1 rounded text-xs font-mono ${pin.id === activePinId ? 'bg-amber-500/20 text-white' : 'text-cyan-300'}`}
+            >
+              <input
+                type="checkbox"
+                checked={compareIds.includes(pin.id)}
+                onChange={() => onToggleCompare(pin)}
+                className="accent-amber-400"
+                title="Include in comparison"
+              />
+              <button onClick={() => onSelect(pin)} className="flex-1 text-left truncate hover:text-white">
+                {pin.label}
+              </button>
+              <button onClick={() => onRemove(pin)} className="text-cyan-700 hover:text-red-400" title="Remove pin">
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pins.length > 1 && (
+        <div className="flex items-center gap-2 mt-2 pt-2 border-t border-cyan-500/20">
+          <select
+            value={focus}
+            onChange={(e) => setFocus(e.target.value)}
+            className="flex-1 bg-black/60 border border-cyan-800 rounded text-[10px] font-mono text-cyan-300 px-1 py-0.5"
+          >
+            {COMPARISON_FOCUSES.map(f => <option key={f} value={f}>{f.toUpperCase()}</option>)}
+          </select>
+          <button
+            onClick={() => onCompare(focus === 'General' ? undefined : focus.toLowerCase())}
+            disabled={compareIds.length < 2}
+            className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-amber-300 border border-amber-500/50 rounded hover:bg-amber-500/20 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+          >
+            <GitCompare className="w-3 h-3" /> COMPARE ({compareIds.length})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PinList;
@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { Search, MapPin, Flag } from 'lucide-react';
+import { GazetteerEntry, searchPlaces } from '../services/gazetteer';
+
+interface PlaceSearchProps {
+  onSelect: (place: GazetteerEntry) => void;
+}
+
+const PlaceSearch: React.FC<PlaceSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState("");
+  const [highlight, setHighlight] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  const results = useMemo(() => searchPlaces(query), [query]);
+
+  const choose = (place: GazetteerEntry) => {
+    onSelect(place);
+    setQuery("");
+    setOpen(false);
+    setHighlight(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight(h => Math.min(results.length - 1, h + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(h => Math.max(0, h - 1));
+    } else if (e.key === 'Enter' && results[highlight]) {
+      choose(results[highlight]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative w-64">
+      <div className="flex items-center gap-2 px-3 py-2 border border-cyan-500/50 rounded-md bg-black/60 backdrop-blur-md">
+        <Search className="w-4 h-4 text-cyan-500 shrink-0" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setHighlight(0); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+          placeholder="LOCATE CITY / COUNTRY"
+          className="flex-1 bg-transparent border-none outline-none text-sm text-cyan-100 placeholder-cyan-800 font-mono"
+        />
+      </div>
+
+      {open && results.length > 0 && (
+        <ul className="absolute mt-1 w-full glass-panel rounded-md overflow-hidden z-30">
+          {results.map((place, index) => {
+            const Icon = place.kind === 'city' ? MapPin : Flag;
+            return (
+              <li key={`${place.kind}:${place.name}:${place.country}`}>
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => choose(place)}
+                  onMouseEnter={() => setHighlight(index)}
+                  className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs font-mono transition-colors ${index === highlight ? 'bg-cyan-500/20 text-white' : 'text-cyan-300'}`}
+                >
+                  <Icon className="w-3 h-3 shrink-0 text-cyan-500" />
+                  <span className="truncate">{place.name}</span>
+                  {place.kind === 'city' && <span className="ml-auto text-cyan-700 truncate">{place.country}</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PlaceSearch;
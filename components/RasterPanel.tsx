@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Grid3x3, Eye, EyeOff, X, Upload, Link, Crosshair } from 'lucide-react';
+import { ColorRampName, LocationData, RasterLayer } from '../types';
+import { COLOR_RAMPS, formatRasterValue, loadRasterFromFile, loadRasterFromUrl, rampGradient, sampleGrid } from '../services/raster';
+
+interface RasterPanelProps {
+  layers: RasterLayer[];
+  onChange: (layers: RasterLayer[]) => void;
+  // Surface point under the mouse, updated by the globe without re-rendering
+  hoverRef: React.MutableRefObject<LocationData | null>;
+  selectedLocation: LocationData | null;
+}
+
+const RAMPS = Object.keys(COLOR_RAMPS) as ColorRampName[];
+
+const describeSample = (layer: RasterLayer, location: LocationData | null) => {
+  if (!location) return '—';
+  const value = sampleGrid(layer.grid, location);
+  return value === null ? 'NO DATA' : `${formatRasterValue(value)}${layer.units ? ` ${layer.units}` : ''}`;
+};
+
+const RasterPanel: React.FC<RasterPanelProps> = ({ layers, onChange, hoverRef, selectedLocation }) => {
+  const [url, setUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cursorValueRef = useRef<HTMLSpanElement>(null);
+
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+
+  // Readouts follow the top-most visible layer unless one is picked from the list
+  const active = layers.find(l => l.id === activeId) ?? [...layers].reverse().find(l => l.visible) ?? null;
+  const activeRef = useRef(active);
+  activeRef.current = active;
+
+  // Cursor value is written straight into the DOM every frame so hovering never re-renders the HUD
+  useEffect(() => {
+    let frame: number;
+    let last = '';
+    const update = () => {
+      frame = requestAnimationFrame(update);
+      const layer = activeRef.current;
+      const text = layer ? describeSample(layer, hoverRef.current) : '';
+      if (text !== last && cursorValueRef.current) cursorValueRef.current.textContent = last = text;
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [hoverRef]);
+
+  const addLayer = async (load: (index: number) => Promise<RasterLayer>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const layer = await load(layersRef.current.length);
+      onChange([...layersRef.current, layer]);
+      setActiveId(layer.id);
+    } catch (err) {
+      console.error("Raster load failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to load grid");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const update = (id: string, patch: Partial<RasterLayer>) =>
+    onChange(layers.map(layer => layer.id === id ? { ...layer, ...patch } : layer));
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    addLayer(index => loadRasterFromUrl(trimmed, index));
+    setUrl("");
+  };
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Grid3x3 className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">DATA GRIDS</span>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-300 border border-cyan-500/50 rounded hover:bg-cyan-500/20 disabled:opacity-30"
+        >
+          <Upload className="w-3 h-3" /> FILE
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".png,.csv,.tsv,.txt,.json,image/png,text/csv,application/json"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            Array.from(e.target.files ?? []).forEach(file => addLayer(index => loadRasterFromFile(file, index)));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <form onSubmit={handleUrlSubmit} className="flex items-center gap-1 mb-2">
+        <Link className="w-3 h-3 text-cyan-600 shrink-0" />
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="PNG / CSV / JSON GRID URL"
+          className="flex-1 min-w-0 bg-transparent border-b border-cyan-800 outline-none text-[10px] text-cyan-100 placeholder-cyan-800 font-mono"
+        />
+      </form>
+
+      {busy && <p className="text-[10px] text-cyan-500 font-mono animate-pulse mb-1">DECODING GRID...</p>}
+      {error && <p className="text-[10px] text-red-400 font-mono mb-1 break-words">{error.toUpperCase()}</p>}
+
+      {layers.length === 0 ? (
+        <p className="text-[10px] text-cyan-700 font-mono">Load an equirectangular greyscale PNG, a lat,lon,value CSV or a JSON grid.</p>
+      ) : (
+        <ul className="space-y-1 max-h-24 overflow-y-auto pr-1">
+          {[...layers].reverse().map(layer => (
+            <li key={layer.id} className="flex items-center gap-1 text-xs font-mono text-cyan-300">
+              <button
+                onClick={() => setActiveId(layer.id)}
+                className={`flex-1 truncate text-left ${layer.visible ? '' : 'opacity-40'} ${layer === active ? 'text-white' : 'hover:text-white'}`}
+                title={`${layer.source} · ${layer.grid.width}x${layer.grid.height}`}
+              >
+                {layer.name}
+              </button>
+              <button onClick={() => update(layer.id, { visible: !layer.visible })} className="text-cyan-500 hover:text-white" title="Toggle visibility">
+                {layer.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+              </button>
+              <button onClick={() => onChange(layers.filter(l => l.id !== layer.id))} className="text-cyan-700 hover:text-red-400" title="Remove grid">
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {active && (
+        <div className="mt-2 space-y-1">
+          <div className="flex items-center gap-2">
+            <select
+              value={active.ramp}
+              onChange={(e) => update(active.id, { ramp: e.target.value as ColorRampName })}
+              className="bg-black/60 border border-cyan-800 text-[10px] font-mono text-cyan-200 rounded px-1"
+            >
+              {RAMPS.map(ramp => <option key={ramp} value={ramp}>{ramp.toUpperCase()}</option>)}
+            </select>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={active.opacity}
+              onChange={(e) => update(active.id, { opacity: Number(e.target.value) })}
+              className="flex-1 accent-cyan-400"
+              title="Opacity"
+            />
+          </div>
+
+          {/* Legend */}
+          <div className="h-2 rounded-sm" style={{ background: rampGradient(active.ramp) }} />
+          <div className="flex items-center justify-between gap-1 text-[10px] font-mono text-cyan-400">
+            <input
+              type="number"
+              value={active.range[0]}
+              onChange={(e) => update(active.id, { range: [Number(e.target.value), active.range[1]] })}
+              className="w-14 bg-transparent border-b border-cyan-900 outline-none"
+              title="Value at the low end of the ramp"
+            />
+            <input
+              type="text"
+              value={active.units}
+              onChange={(e) => update(active.id, { units: e.target.value })}
+              placeholder="UNITS"
+              className="w-16 text-center bg-transparent border-b border-cyan-900 outline-none placeholder-cyan-800"
+            />
+            <input
+              type="number"
+              value={active.range[1]}
+              onChange={(e) => update(active.id, { range: [active.range[0], Number(e.target.value)] })}
+              className="w-14 text-right bg-transparent border-b border-cyan-900 outline-none"
+              title="Value at the high end of the ramp"
+            />
+          </div>
+
+          <div className="text-[10px] font-mono text-cyan-600">
+            <div className="flex items-center gap-1">
+              <Crosshair className="w-3 h-3" /> CURSOR <span ref={cursorValueRef} className="ml-auto text-cyan-200" />
+            </div>
+            {selectedLocation && (
+              <div className="flex items-center gap-1">
+                <span className="w-3" /> SELECTED <span className="ml-auto text-cyan-200">{describeSample(active, selectedLocation)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RasterPanel;
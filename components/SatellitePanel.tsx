@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Satellite as SatelliteIcon, Eye, EyeOff, X, Upload, Link, Route, Package } from 'lucide-react';
+import { Satellite, SatelliteCatalog, SatelliteState, loadSampleCatalog, loadTleFromFile, loadTleFromUrl, satelliteState } from '../services/satellites';
+import { SimulationClock, clockTime } from '../utils/simulationClock';
+import { formatLatLon } from '../utils/geodesy';
+
+interface SatellitePanelProps {
+  catalog: SatelliteCatalog | null;
+  clock: SimulationClock;
+  visible: boolean;
+  showAllTracks: boolean;
+  selectedId: string | null;
+  onCatalogChange: (catalog: SatelliteCatalog | null) => void;
+  onToggleVisible: () => void;
+  onToggleTracks: () => void;
+  onSelect: (satellite: Satellite) => void;
+}
+
+const READOUT_INTERVAL_MS = 500;
+
+const SatellitePanel: React.FC<SatellitePanelProps> = ({ catalog, clock, visible, showAllTracks, selectedId, onCatalogChange, onToggleVisible, onToggleTracks, onSelect }) => {
+  const [url, setUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [readout, setReadout] = useState<SatelliteState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = catalog?.satellites.find(s => s.id === selectedId) ?? null;
+
+  // Live altitude/velocity for the selected satellite
+  useEffect(() => {
+    if (!selected) {
+      setReadout(null);
+      return;
+    }
+    const update = () => setReadout(satelliteState(selected, clockTime(clock)));
+    update();
+    const timer = setInterval(update, READOUT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [selected, clock]);
+
+  const load = async (request: () => SatelliteCatalog | Promise<SatelliteCatalog>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onCatalogChange(await request());
+    } catch (err) {
+      console.error("TLE load failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to load element sets");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    load(() => loadTleFromUrl(trimmed));
+    setUrl("");
+  };
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <SatelliteIcon className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">ORBITAL</span>
+        </div>
+        <div className="flex gap-2">
+          {catalog && (
+            <>
+              <button onClick={onToggleTracks} className={showAllTracks ? 'text-white' : 'text-cyan-500 hover:text-white'} title={showAllTracks ? 'Track selected only' : 'Show all ground tracks'}>
+                <Route className="w-3 h-3" />
+              </button>
+              <button onClick={onToggleVisible} className="text-cyan-500 hover:text-white" title="Toggle layer">
+                {visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+              </button>
+              <button onClick={() => onCatalogChange(null)} className="text-cyan-700 hover:text-red-400" title="Remove satellites">
+                <X className="w-3 h-3" />
+              </button>
+            </>
+          )}
+          <button onClick={() => load(loadSampleCatalog)} disabled={busy} className="text-cyan-500 hover:text-white disabled:opacity-30" title="Load bundled sample">
+            <Package className="w-3 h-3" />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={busy} className="text-cyan-500 hover:text-white disabled:opacity-30" title="Load TLE file">
+            <Upload className="w-3 h-3" />
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".tle,.txt,text/plain"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) load(() => loadTleFromFile(file));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <form onSubmit={handleUrlSubmit} className="flex items-center gap-1 mb-2">
+        <Link className="w-3 h-3 text-cyan-600 shrink-0" />
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="TLE URL (E.G. CELESTRAK)"
+          className="flex-1 min-w-0 bg-transparent border-b border-cyan-800 outline-none text-[10px] text-cyan-100 placeholder-cyan-800 font-mono"
+        />
+      </form>
+
+      {error && <p className="text-[10px] text-red-400 font-mono mb-1 break-words">{error.toUpperCase()}</p>}
+
+      {catalog ? (
+        <>
+          <p className="text-[10px] font-mono text-cyan-700 truncate" title={catalog.source}>
+            {catalog.satellites.length} OBJECTS{catalog.skipped ? ` · ${catalog.skipped} SKIPPED` : ''}
+          </p>
+          <ul className="mt-1 max-h-20 overflow-y-auto pr-1 space-y-0.5">
+            {catalog.satellites.map(satellite => (
+              <li key={satellite.id}>
+                <button
+                  onClick={() => onSelect(satellite)}
+                  className={`w-full text-left text-[10px] font-mono truncate ${satellite.id === selectedId ? 'text-white' : 'text-cyan-300 hover:text-white'}`}
+                >
+                  {satellite.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="mt-2 pt-2 border-t border-cyan-900 text-[10px] font-mono text-cyan-400 space-y-0.5">
+              <p className="text-white truncate">{selected.name} · #{selected.id}</p>
+              {readout ? (
+                <>
+                  <p>ALT {Math.round(readout.altitudeKm).toLocaleString()} KM · VEL {readout.speedKmS.toFixed(2)} KM/S</p>
+                  <p>SUBPOINT {formatLatLon(readout.location)}</p>
+                </>
+              ) : (
+                <p className="text-amber-400">ORBIT DECAYED AT THIS TIME</p>
+              )}
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-[10px] text-cyan-700 font-mono">Load two-line element sets, or the bundled sample.</p>
+      )}
+    </div>
+  );
+};
+
+export default SatellitePanel;
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Activity, Eye, EyeOff, RefreshCw, Upload, X } from 'lucide-react';
+import { Earthquake, SeismicFeed, SeismicFilter } from '../types';
+import { DEFAULT_QUAKE_FEED, QUAKE_DEPTH_LEGEND, QUAKE_WINDOWS, loadQuakesFromFile, loadQuakesFromUrl } from '../services/earthquakes';
+
+interface SeismicPanelProps {
+  feed: SeismicFeed | null;
+  // Events passing the current filter
+  quakes: Earthquake[];
+  filter: SeismicFilter;
+  visible: boolean;
+  selectedId: string | null;
+  onFeedChange: (feed: SeismicFeed | null) => void;
+  onFilterChange: (filter: SeismicFilter) => void;
+  onToggleVisible: () => void;
+  onSelect: (quake: Earthquake) => void;
+}
+
+const STRONGEST_SHOWN = 5;
+
+const SeismicPanel: React.FC<SeismicPanelProps> = ({ feed, quakes, filter, visible, selectedId, onFeedChange, onFilterChange, onToggleVisible, onSelect }) => {
+  const [url, setUrl] = useState(DEFAULT_QUAKE_FEED);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = async (request: () => Promise<SeismicFeed>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onFeedChange(await request());
+    } catch (err) {
+      console.error("Earthquake feed load failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to load feed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (trimmed) load(() => loadQuakesFromUrl(trimmed));
+  };
+
+  const strongest = [...quakes].sort((a, b) => b.magnitude - a.magnitude).slice(0, STRONGEST_SHOWN);
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Activity className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">SEISMIC</span>
+        </div>
+        <div className="flex gap-2">
+          {feed && (
+            <>
+              <button onClick={onToggleVisible} className="text-cyan-500 hover:text-white" title="Toggle layer">
+                {visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+              </button>
+              <button onClick={() => onFeedChange(null)} className="text-cyan-700 hover:text-red-400" title="Remove feed">
+                <X className="w-3 h-3" />
+              </button>
+            </>
+          )}
+          <button onClick={() => fileInputRef.current?.click()} disabled={busy} className="text-cyan-500 hover:text-white disabled:opacity-30" title="Load feed file">
+            <Upload className="w-3 h-3" />
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.geojson,application/geo+json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) load(() => loadQuakesFromFile(file));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <form onSubmit={handleUrlSubmit} className="flex items-center gap-1 mb-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="USGS FEED URL"
+          className="flex-1 min-w-0 bg-transparent border-b border-cyan-800 outline-none text-[10px] text-cyan-100 placeholder-cyan-800 font-mono"
+        />
+        <button type="submit" disabled={busy} className="text-cyan-500 hover:text-white disabled:opacity-30" title={feed ? 'Reload feed' : 'Load feed'}>
+          <RefreshCw className={`w-3 h-3 ${busy ? 'animate-spin' : ''}`} />
+        </button>
+      </form>
+
+      {error && <p className="text-[10px] text-red-400 font-mono mb-1 break-words">{error.toUpperCase()}</p>}
+
+      {feed ? (
+        <>
+          <div className="flex items-center gap-1 mb-1">
+            {QUAKE_WINDOWS.map(({ label, hours }) => (
+              <button
+                key={label}
+                onClick={() => onFilterChange({ ...filter, windowHours: hours })}
+                className={`px-1 text-[10px] font-mono border rounded ${filter.windowHours === hours ? 'text-white border-cyan-400 bg-cyan-500/20' : 'text-cyan-600 border-cyan-900 hover:text-cyan-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-mono text-cyan-500">
+            M{filter.minMagnitude.toFixed(1)}+
+            <input
+              type="range"
+              min={0}
+              max={8}
+              step={0.5}
+              value={filter.minMagnitude}
+              onChange={(e) => onFilterChange({ ...filter, minMagnitude: Number(e.target.value) })}
+              className="flex-1 accent-cyan-400"
+            />
+          </label>
+          <p className="text-[10px] font-mono text-cyan-700" title={feed.source}>
+            {quakes.length}/{feed.quakes.length} EVENTS · {new Date(feed.fetchedAt).toLocaleTimeString()}
+          </p>
+
+          <ul className="mt-1 space-y-0.5">
+            {strongest.map(quake => (
+              <li key={quake.id}>
+                <button
+                  onClick={() => onSelect(quake)}
+                  className={`w-full flex gap-2 text-left text-[10px] font-mono truncate ${quake.id === selectedId ? 'text-white' : 'text-cyan-300 hover:text-white'}`}
+                  title={`${new Date(quake.time).toISOString()} · ${quake.depthKm.toFixed(0)} km deep`}
+                >
+                  <span className="shrink-0 w-8">M{quake.magnitude.toFixed(1)}</span>
+                  <span className="truncate">{quake.place}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center gap-1 mt-2 text-[9px] font-mono text-cyan-700">
+            DEPTH KM
+            {QUAKE_DEPTH_LEGEND.map(({ label, color }) => (
+              <span key={label} className="flex items-center gap-0.5">
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: color }} />
+                {label}
+              </span>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-[10px] text-cyan-700 font-mono">Load the USGS feed or a saved copy of it.</p>
+      )}
+    </div>
+  );
+};
+
+export default SeismicPanel;
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Cast, Crown, Hand, Power, PowerOff, Presentation } from 'lucide-react';
+import { SessionRole, SessionRoster, SessionSnapshot, ViewBuffer, ViewState } from '../types';
+import {
+  SessionConnection, SessionStatus, VIEW_SEND_INTERVAL, connectSession, createViewBuffer, loadSessionSettings, pushView, saveSessionSettings,
+} from '../services/sessionSync';
+
+interface SessionPanelProps {
+  viewRef: React.MutableRefObject<ViewState>;
+  // Holds the controller's views while this display mirrors it; null otherwise
+  followRef: React.MutableRefObject<ViewBuffer | null>;
+  // Current selection and InfoPanel content, sent while this display has control
+  snapshot: SessionSnapshot;
+  onSnapshot: (snapshot: SessionSnapshot) => void;
+  onRoleChange: (role: SessionRole | null) => void;
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ viewRef, followRef, snapshot, onSnapshot, onRoleChange }) => {
+  const [settings, setSettings] = useState(loadSessionSettings);
+  const [status, setStatus] = useState<SessionStatus>('closed');
+  const [myId, setMyId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<SessionRoster | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const connectionRef = useRef<SessionConnection | null>(null);
+  // Bumped on every connect/disconnect so callbacks from an old socket are ignored
+  const sessionRef = useRef(0);
+  // Latest controller view, kept so a display that becomes a mirror starts from it
+  const lastViewRef = useRef<{ view: ViewState; sentAt: number } | null>(null);
+
+  const onSnapshotRef = useRef(onSnapshot);
+  onSnapshotRef.current = onSnapshot;
+  const onRoleChangeRef = useRef(onRoleChange);
+  onRoleChangeRef.current = onRoleChange;
+
+  const role: SessionRole | null = status !== 'connected' || !myId || !roster?.controllerId
+    ? null
+    : roster.controllerId === myId ? 'controller' : 'mirror';
+  const roleRef = useRef(role);
+  roleRef.current = role;
+  const controllerId = roster?.controllerId ?? null;
+  const controllerRef = useRef(controllerId);
+
+  // Rebuilt on every change of controller too: each controller stamps views with its own clock
+  useEffect(() => {
+    if (controllerRef.current && controllerRef.current !== controllerId) lastViewRef.current = null;
+    controllerRef.current = controllerId;
+    if (role === 'mirror') {
+      const buffer = createViewBuffer();
+      if (lastViewRef.current) pushView(buffer, lastViewRef.current.view, lastViewRef.current.sentAt);
+      followRef.current = buffer;
+    } else {
+      followRef.current = null;
+    }
+    onRoleChangeRef.current(role);
+  }, [role, controllerId, followRef]);
+
+  // Views are polled from the globe rather than pushed, so the render loop stays untouched
+  useEffect(() => {
+    const connection = connectionRef.current;
+    if (role !== 'controller' || !connection) return;
+    connection.resendView();
+    const timer = setInterval(() => connection.sendView(viewRef.current), VIEW_SEND_INTERVAL);
+    return () => clearInterval(timer);
+  }, [role, viewRef]);
+
+  useEffect(() => {
+    if (role === 'controller') connectionRef.current?.sendSnapshot(snapshot);
+  }, [role, snapshot]);
+
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  const reset = () => {
+    setStatus('closed');
+    setMyId(null);
+    setRoster(null);
+    lastViewRef.current = null;
+  };
+
+  const disconnect = () => {
+    sessionRef.current++;
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    reset();
+  };
+
+  const connect = () => {
+    disconnect();
+    saveSessionSettings(settings);
+    setError(null);
+    const session = sessionRef.current;
+    const live = () => sessionRef.current === session;
+    connectionRef.current = connectSession(settings, {
+      onStatus: next => {
+        if (!live()) return;
+        if (next === 'closed') {
+          connectionRef.current = null;
+          reset();
+        } else {
+          setStatus(next);
+        }
+      },
+      onWelcome: id => live() && setMyId(id),
+      onRoster: next => live() && setRoster(next),
+      onView: (view, sentAt) => {
+        if (!live()) return;
+        lastViewRef.current = { view, sentAt };
+        if (followRef.current) pushView(followRef.current, view, sentAt);
+      },
+      // The relay replays the last snapshot on joining, before the roster says who controls
+      onSnapshot: next => live() && roleRef.current !== 'controller' && onSnapshotRef.current(next),
+      onError: message => live() && setError(message),
+    });
+  };
+
+  const connected = status === 'connected';
+  const peers = roster?.peers ?? [];
+  const controller = peers.find(peer => peer.id === roster?.controllerId);
+  const me = peers.find(peer => peer.id === myId);
+  const isPresenter = !!myId && roster?.presenterId === myId;
+
+  const field = (key: keyof typeof settings, placeholder: string) => (
+    <input
+      type="text"
+      value={settings[key]}
+      onChange={(e) => setSettings(prev => ({ ...prev, [key]: e.target.value }))}
+      placeholder={placeholder}
+      className="w-full bg-transparent border-b border-cyan-800 outline-none text-[10px] text-cyan-100 placeholder-cyan-800 font-mono"
+    />
+  );
+
+  const actionClass = "flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-300 border border-cyan-500/50 rounded hover:bg-cyan-500/20";
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Cast className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">SESSION</span>
+        </div>
+        {status === 'closed' ? (
+          <button onClick={connect} className={actionClass}>
+            <Power className="w-3 h-3" /> JOIN
+          </button>
+        ) : (
+          <button onClick={disconnect} className={actionClass}>
+            <PowerOff className="w-3 h-3" /> LEAVE
+          </button>
+        )}
+      </div>
+
+      {status === 'closed' && (
+        <div className="space-y-1 mb-1">
+          {field('url', 'RELAY URL (WS://HOST:8787)')}
+          <div className="flex gap-2">
+            {field('room', 'ROOM')}
+            {field('name', 'DISPLAY NAME')}
+          </div>
+        </div>
+      )}
+
+      {status === 'connecting' && <p className="text-[10px] text-cyan-500 font-mono animate-pulse mb-1">CONNECTING TO RELAY...</p>}
+      {error && <p className="text-[10px] text-red-400 font-mono mb-1 break-words">{error.toUpperCase()}</p>}
+
+      {connected && (
+        <>
+          <div className="flex items-center justify-between gap-2 mb-1 text-[10px] font-mono">
+            <span className={role === 'controller' ? 'text-cyan-100' : 'text-cyan-400'}>
+              {role === 'controller' ? 'IN CONTROL' : role === 'mirror' ? `MIRRORING ${controller?.name.toUpperCase() ?? ''}` : 'NO CONTROLLER'}
+            </span>
+            {role === 'controller' ? (
+              <button onClick={() => connectionRef.current?.release()} className={actionClass} title="Stop driving the other displays">
+                RELEASE
+              </button>
+            ) : role === null || isPresenter ? (
+              <button onClick={() => connectionRef.current?.claim()} className={actionClass}>
+                <Crown className="w-3 h-3" /> {isPresenter ? 'TAKE BACK' : 'TAKE CONTROL'}
+              </button>
+            ) : (
+              <button
+                onClick={() => connectionRef.current?.raise(!me?.raised)}
+                className={`${actionClass} ${me?.raised ? 'bg-cyan-500/20 text-cyan-100' : ''}`}
+                aria-pressed={!!me?.raised}
+              >
+                <Hand className="w-3 h-3" /> {me?.raised ? 'LOWER' : 'REQUEST'}
+              </button>
+            )}
+          </div>
+
+          <ul className="space-y-1 max-h-24 overflow-y-auto pr-1">
+            {peers.map(peer => (
+              <li key={peer.id} className="flex items-center gap-1 text-xs font-mono text-cyan-300">
+                <span className={`flex-1 truncate ${peer.id === myId ? 'text-white' : ''}`}>
+                  {peer.name}{peer.id === myId ? ' (YOU)' : ''}
+                </span>
+                {peer.id === roster?.presenterId && <Presentation className="w-3 h-3 text-cyan-500" aria-label="Presenter" />}
+                {peer.id === roster?.controllerId && <Crown className="w-3 h-3 text-cyan-200" aria-label="In control" />}
+                {peer.raised && <Hand className="w-3 h-3 text-yellow-300 animate-pulse" aria-label="Requesting control" />}
+                {role === 'controller' && peer.id !== myId && (
+                  <button
+                    onClick={() => connectionRef.current?.handoff(peer.id)}
+                    className="px-1 text-[10px] text-cyan-500 border border-cyan-800 rounded hover:text-white hover:border-cyan-400"
+                    title={`Hand control to ${peer.name}`}
+                  >
+                    HAND OFF
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {status === 'closed' && !error && (
+        <p className="text-[10px] text-cyan-700 font-mono">Start the relay with npm run session-relay, then join the same room on every display.</p>
+      )}
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Pause, Play, RotateCcw } from 'lucide-react';
+import { SimulationClock, clockTime, isLive, resetClock, setClockSpeed, setClockTime } from '../utils/simulationClock';
+
+interface TimeControllerProps {
+  clock: SimulationClock;
+  onChange: (clock: SimulationClock) => void;
+}
+
+const SPEEDS = [
+  { value: 1, label: '1×' },
+  { value: 60, label: '1 MIN/S' },
+  { value: 600, label: '10 MIN/S' },
+  { value: 3600, label: '1 HR/S' },
+  { value: 86400, label: '1 DAY/S' },
+];
+
+const MS_PER_DAY = 86400000;
+
+const TimeController: React.FC<TimeControllerProps> = ({ clock, onChange }) => {
+  const [now, setNow] = useState(() => clockTime(clock));
+  const [lastSpeed, setLastSpeed] = useState(clock.speed || 1);
+
+  // Refresh the readout; a paused clock only needs updating when it changes
+  useEffect(() => {
+    setNow(clockTime(clock));
+    if (clock.speed === 0) return;
+    const timer = setInterval(() => setNow(clockTime(clock)), 250);
+    return () => clearInterval(timer);
+  }, [clock]);
+
+  const date = new Date(now);
+  const dayStart = now - (((now % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY);
+  const minuteOfDay = Math.floor((now - dayStart) / 60000);
+  const paused = clock.speed === 0;
+
+  const togglePause = () => {
+    if (paused) {
+      onChange(setClockSpeed(clock, lastSpeed));
+    } else {
+      setLastSpeed(clock.speed);
+      onChange(setClockSpeed(clock, 0));
+    }
+  };
+
+  const handleSpeed = (speed: number) => {
+    setLastSpeed(speed);
+    onChange(setClockSpeed(clock, speed));
+  };
+
+  const handleScrub = (minutes: number) => onChange(setClockTime(clock, dayStart + minutes * 60000));
+
+  const handleDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    if (!year || !month || !day) return;
+    onChange(setClockTime(clock, Date.UTC(year, month - 1, day) + (now - dayStart)));
+  };
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">SIM TIME</span>
+        </div>
+        <span className={`text-[10px] font-mono ${isLive(clock) ? 'text-green-400' : 'text-amber-400'}`}>
+          {isLive(clock) ? 'LIVE' : paused ? 'PAUSED' : 'SIMULATED'}
+        </span>
+      </div>
+
+      <p className="text-sm font-mono text-white tracking-wider">
+        {date.toISOString().slice(0, 10)} {date.toISOString().slice(11, 19)} UTC
+      </p>
+
+      <input
+        type="range"
+        min={0}
+        max={1439}
+        value={minuteOfDay}
+        onChange={(e) => handleScrub(Number(e.target.value))}
+        className="w-full mt-2 accent-cyan-400"
+        title="Scrub time of day (UTC)"
+      />
+
+      <div className="flex items-center gap-2 mt-1">
+        <button onClick={togglePause} className="text-cyan-400 hover:text-white" title={paused ? 'Play' : 'Pause'}>
+          {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </button>
+        <button onClick={() => onChange(resetClock())} className="text-cyan-400 hover:text-white" title="Jump to now">
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <select
+          value={paused ? lastSpeed : clock.speed}
+          onChange={(e) => handleSpeed(Number(e.target.value))}
+          className="flex-1 bg-black/60 border border-cyan-800 rounded text-[10px] font-mono text-cyan-300 px-1 py-0.5"
+        >
+          {SPEEDS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+        <input
+          type="date"
+          value={date.toISOString().slice(0, 10)}
+          onChange={(e) => handleDate(e.target.value)}
+          className="bg-black/60 border border-cyan-800 rounded text-[10px] font-mono text-cyan-300 px-1 py-0.5 w-24"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TimeController;
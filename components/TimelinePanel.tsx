@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalendarRange, Eye, EyeOff, X, Upload, Link, Play, Pause, Repeat, MessageSquare } from 'lucide-react';
+import { ColorRampName, TemporalLayer } from '../types';
+import { COLOR_RAMPS, rampGradient } from '../services/raster';
+import { finestPrecision, formatTimelineDate, loadTemporalFromFile, loadTemporalFromUrl } from '../services/temporal';
+import { Timeline, frameAt, pauseTimeline, playTimeline, seekTimeline, setTimelineLoop, setTimelineSweep, timelineEnded, timelineTime } from '../utils/timeline';
+
+interface TimelinePanelProps {
+  layers: TemporalLayer[];
+  timeline: Timeline | null;
+  onLayersChange: (layers: TemporalLayer[]) => void;
+  onTimelineChange: (timeline: Timeline) => void;
+  // Re-runs the active sector briefing for the displayed date; absent when no sector is active
+  onBrief?: () => void;
+}
+
+const SWEEPS = [
+  { value: 10000, label: '10 S' },
+  { value: 20000, label: '20 S' },
+  { value: 40000, label: '40 S' },
+  { value: 80000, label: '80 S' },
+];
+
+const RAMPS = Object.keys(COLOR_RAMPS) as ColorRampName[];
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ layers, timeline, onLayersChange, onTimelineChange, onBrief }) => {
+  const [url, setUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(() => timeline ? timelineTime(timeline) : 0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+
+  // Refresh the readout; a paused timeline only needs updating when it changes
+  useEffect(() => {
+    if (!timeline) return;
+    setNow(timelineTime(timeline));
+    if (!timeline.playing) return;
+    const timer = setInterval(() => setNow(timelineTime(timeline)), 100);
+    return () => clearInterval(timer);
+  }, [timeline]);
+
+  const addLayer = async (load: (index: number) => Promise<TemporalLayer>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const layer = await load(layersRef.current.length);
+      onLayersChange([...layersRef.current, layer]);
+    } catch (err) {
+      console.error("Temporal layer load failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to load series");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const update = (id: string, patch: Partial<TemporalLayer>) =>
+    onLayersChange(layers.map(layer => layer.id === id ? { ...layer, ...patch } : layer));
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    addLayer(index => loadTemporalFromUrl(trimmed, index));
+    setUrl("");
+  };
+
+  const visible = layers.filter(layer => layer.visible);
+  const precision = finestPrecision(visible.length ? visible : layers);
+  const raster = [...visible].reverse().find(layer => layer.kind === 'raster') ?? null;
+  const playing = !!timeline?.playing && !timelineEnded(timeline);
+
+  const togglePlay = () => {
+    if (!timeline) return;
+    onTimelineChange(playing ? pauseTimeline(timeline) : playTimeline(timeline));
+  };
+
+  // Label of the frame currently showing for a layer
+  const frameLabel = (layer: TemporalLayer) => {
+    const position = frameAt(layer.frames.map(f => f.time), now);
+    return position ? layer.frames[position.index].label : '';
+  };
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">TIMELINE</span>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-300 border border-cyan-500/50 rounded hover:bg-cyan-500/20 disabled:opacity-30"
+        >
+          <Upload className="w-3 h-3" /> FILE
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            Array.from(e.target.files ?? []).forEach(file => addLayer(index => loadTemporalFromFile(file, index)));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <form onSubmit={handleUrlSubmit} className="flex items-center gap-1 mb-2">
+        <Link className="w-3 h-3 text-cyan-600 shrink-0" />
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="TIME-SERIES MANIFEST URL"
+          className="flex-1 min-w-0 bg-transparent border-b border-cyan-800 outline-none text-[10px] text-cyan-100 placeholder-cyan-800 font-mono"
+        />
+      </form>
+
+      {busy && <p className="text-[10px] text-cyan-500 font-mono animate-pulse mb-1">LOADING FRAMES...</p>}
+      {error && <p className="text-[10px] text-red-400 font-mono mb-1 break-words">{error.toUpperCase()}</p>}
+
+      {layers.length === 0 ? (
+        <p className="text-[10px] text-cyan-700 font-mono">Load a JSON manifest of dated raster or GeoJSON frames.</p>
+      ) : (
+        <ul className="space-y-1 max-h-24 overflow-y-auto pr-1">
+          {[...layers].reverse().map(layer => (
+            <li key={layer.id} className="flex items-center gap-1 text-xs font-mono text-cyan-300">
+              <span
+                className={`flex-1 truncate ${layer.visible ? '' : 'opacity-40'}`}
+                title={`${layer.source} · ${layer.frames.length} ${layer.kind === 'raster' ? 'grids' : 'GeoJSON frames'}`}
+              >
+                {layer.name}
+              </span>
+              <span className="text-[10px] text-cyan-600 shrink-0">{frameLabel(layer)}</span>
+              <button onClick={() => update(layer.id, { visible: !layer.visible })} className="text-cyan-500 hover:text-white" title="Toggle visibility">
+                {layer.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+              </button>
+              <button onClick={() => onLayersChange(layers.filter(l => l.id !== layer.id))} className="text-cyan-700 hover:text-red-400" title="Remove series">
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {timeline && (
+        <div className="mt-2 space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-mono text-cyan-100">{formatTimelineDate(now, precision)}</span>
+            {onBrief && (
+              <button
+                onClick={onBrief}
+                className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-mono text-cyan-300 border border-cyan-500/50 rounded hover:bg-cyan-500/20"
+                title="Re-run the active sector briefing for this date"
+              >
+                <MessageSquare className="w-3 h-3" /> BRIEF
+              </button>
+            )}
+          </div>
+
+          <input
+            type="range"
+            min={timeline.start}
+            max={timeline.end}
+            step={(timeline.end - timeline.start) / 1000 || 1}
+            value={now}
+            onChange={(e) => onTimelineChange(seekTimeline(timeline, Number(e.target.value)))}
+            className="w-full accent-cyan-400"
+            aria-label="Timeline position"
+          />
+          <div className="flex justify-between text-[10px] font-mono text-cyan-600">
+            <span>{formatTimelineDate(timeline.start, precision)}</span>
+            <span>{formatTimelineDate(timeline.end, precision)}</span>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <button
+              onClick={togglePlay}
+              className="p-1 text-cyan-300 border border-cyan-500/50 rounded hover:bg-cyan-500/20"
+              title={playing ? "Pause" : "Play"}
+            >
+              {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            </button>
+            <button
+              onClick={() => onTimelineChange(setTimelineLoop(timeline, !timeline.loop))}
+              className={`p-1 border rounded ${timeline.loop ? 'text-cyan-100 border-cyan-400 bg-cyan-500/20' : 'text-cyan-600 border-cyan-800 hover:text-cyan-300'}`}
+              title="Loop"
+              aria-pressed={timeline.loop}
+            >
+              <Repeat className="w-3 h-3" />
+            </button>
+            <select
+              value={timeline.sweepMs}
+              onChange={(e) => onTimelineChange(setTimelineSweep(timeline, Number(e.target.value)))}
+              className="ml-auto bg-black/60 border border-cyan-800 text-[10px] font-mono text-cyan-200 rounded px-1"
+              title="Time for one pass over the whole span"
+            >
+              {SWEEPS.map(sweep => <option key={sweep.value} value={sweep.value}>{sweep.label}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {raster && (
+        <div className="mt-2 space-y-1">
+          <div className="flex items-center gap-2">
+            <select
+              value={raster.ramp}
+              onChange={(e) => update(raster.id, { ramp: e.target.value as ColorRampName })}
+              className="bg-black/60 border border-cyan-800 text-[10px] font-mono text-cyan-200 rounded px-1"
+            >
+              {RAMPS.map(ramp => <option key={ramp} value={ramp}>{ramp.toUpperCase()}</option>)}
+            </select>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={raster.opacity}
+              onChange={(e) => update(raster.id, { opacity: Number(e.target.value) })}
+              className="flex-1 accent-cyan-400"
+              title="Opacity"
+            />
+          </div>
+          <div className="h-2 rounded-sm" style={{ background: rampGradient(raster.ramp) }} />
+          <div className="flex justify-between text-[10px] font-mono text-cyan-400">
+            <span>{raster.range[0]}</span>
+            <span className="text-cyan-600 truncate">{raster.units || raster.name}</span>
+            <span>{raster.range[1]}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
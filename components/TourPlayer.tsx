@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Map as MapIcon, Play, Pause, SkipBack, SkipForward, Square, Upload, Download, MapPin } from 'lucide-react';
+import { Tour } from '../types';
+import { downloadTour, parseTour, stepDuration } from '../services/tours';
+
+interface TourPlayerProps {
+  tour: Tour | null;
+  index: number;
+  playing: boolean;
+  canBuildFromPins: boolean;
+  onLoad: (tour: Tour) => void;
+  onBuildFromPins: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onTogglePlay: () => void;
+  onStop: () => void;
+}
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const TourPlayer: React.FC<TourPlayerProps> = ({ tour, index, playing, canBuildFromPins, onLoad, onBuildFromPins, onPrevious, onNext, onTogglePlay, onStop }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      onLoad(parseTour(await file.text()));
+    } catch (err) {
+      console.error("Tour load failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to load tour");
+    }
+  };
+
+  // Presenter clickers send PageUp/PageDown; N/B/P cover a plain keyboard
+  const controlsRef = useRef({ onPrevious, onNext, onTogglePlay, onStop });
+  controlsRef.current = { onPrevious, onNext, onTogglePlay, onStop };
+  useEffect(() => {
+    if (!tour) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target)) return;
+      const controls = controlsRef.current;
+      switch (e.key) {
+        case 'PageDown':
+        case 'n':
+          controls.onNext();
+          break;
+        case 'PageUp':
+        case 'b':
+          controls.onPrevious();
+          break;
+        case 'p':
+          controls.onTogglePlay();
+          break;
+        case 'Escape':
+          controls.onStop();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [tour]);
+
+  const step = tour?.steps[index];
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <MapIcon className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">TOUR</span>
+        </div>
+        <div className="flex gap-2">
+          {tour && (
+            <button onClick={() => downloadTour(tour)} className="text-cyan-500 hover:text-white" title="Export tour">
+              <Download className="w-3 h-3" />
+            </button>
+          )}
+          <button onClick={() => fileInputRef.current?.click()} className="text-cyan-500 hover:text-white" title="Import tour">
+            <Upload className="w-3 h-3" />
+          </button>
+          <button onClick={onBuildFromPins} disabled={!canBuildFromPins} className="text-cyan-500 hover:text-white disabled:opacity-30" title="Build tour from pins">
+            <MapPin className="w-3 h-3" />
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {tour && step ? (
+        <>
+          <p className="text-[11px] font-mono text-white truncate" title={tour.title}>{tour.title.toUpperCase()}</p>
+          <p className="text-[10px] font-mono text-cyan-500">
+            STEP {index + 1}/{tour.steps.length}{step.title ? ` · ${step.title.toUpperCase()}` : ''}
+          </p>
+          {step.narration && step.prompt && (
+            <p className="mt-1 text-[10px] font-mono text-cyan-300 max-h-16 overflow-y-auto">{step.narration}</p>
+          )}
+
+          <div className="flex items-center gap-3 mt-2">
+            <button onClick={onPrevious} disabled={index === 0} className="text-cyan-400 hover:text-white disabled:opacity-30" title="Previous step [PageUp / B]">
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button onClick={onTogglePlay} className="text-cyan-400 hover:text-white" title={playing ? 'Pause [P]' : 'Play [P]'}>
+              {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <button onClick={onNext} disabled={index >= tour.steps.length - 1} className="text-cyan-400 hover:text-white disabled:opacity-30" title="Next step [PageDown / N]">
+              <SkipForward className="w-4 h-4" />
+            </button>
+            <button onClick={onStop} className="text-cyan-400 hover:text-red-400" title="End tour [Esc]">
+              <Square className="w-4 h-4" />
+            </button>
+            <span className="ml-auto text-[10px] font-mono text-cyan-700">
+              {playing ? `AUTO ${Math.round(stepDuration(step) / 1000)}S` : 'PAUSED'}
+            </span>
+          </div>
+        </>
+      ) : (
+        <p className="text-[10px] font-mono text-cyan-700">Import a tour file or build one from your pins. Swipe an open palm to step through.</p>
+      )}
+
+      {error && <p className="mt-2 text-[10px] font-mono text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default TourPlayer;
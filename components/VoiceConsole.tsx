@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, Volume2, VolumeX } from 'lucide-react';
+import { VoiceCommand, describeVoiceCommand, parseVoiceCommand } from '../services/voiceCommands';
+import { SpeechRecognizer, createSpeechRecognizer, isRecognitionSupported, isSynthesisSupported, speak, stopSpeaking } from '../services/speech';
+
+interface VoiceConsoleProps {
+  // Dispatches a parsed command; may return feedback to show under the transcript
+  onCommand: (command: VoiceCommand) => string | void;
+  // InfoPanel content to narrate
+  narration: string;
+  loading: boolean;
+}
+
+const PUSH_TO_TALK_KEY = 'v';
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const VoiceConsole: React.FC<VoiceConsoleProps> = ({ onCommand, narration, loading }) => {
+  const [listening, setListening] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [speaking, setSpeaking] = useState(false);
+  const [autoNarrate, setAutoNarrate] = useState(false);
+
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const narrationRef = useRef(narration);
+  narrationRef.current = narration;
+
+  const narrate = (text: string) => {
+    setSpeaking(true);
+    speak(text, () => setSpeaking(false));
+  };
+
+  const silence = () => {
+    stopSpeaking();
+    setSpeaking(false);
+  };
+
+  const dispatch = (text: string) => {
+    const command = parseVoiceCommand(text);
+    if (!command) return;
+    if (command.type === 'narrate') {
+      narrate(narrationRef.current);
+      setFeedback(describeVoiceCommand(command));
+    } else if (command.type === 'silence') {
+      silence();
+      setFeedback(describeVoiceCommand(command));
+    } else {
+      setFeedback(onCommandRef.current(command) || describeVoiceCommand(command));
+    }
+  };
+
+  useEffect(() => {
+    recognizerRef.current = createSpeechRecognizer({
+      onTranscript: (text, final) => {
+        setTranscript(text);
+        if (final) dispatch(text);
+      },
+      onError: error => setFeedback(`MIC ERROR: ${error.toUpperCase()}`),
+      onEnd: () => setListening(false)
+    });
+    return () => {
+      recognizerRef.current?.abort();
+      stopSpeaking();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const startListening = () => {
+    if (!recognizerRef.current || listening) return;
+    // Don't transcribe our own narration
+    silence();
+    setTranscript('');
+    setFeedback(null);
+    setListening(true);
+    recognizerRef.current.start();
+  };
+
+  const stopListening = () => recognizerRef.current?.stop();
+
+  // Hold V anywhere (outside text fields) to talk; shortcuts such as Ctrl+V are left alone
+  const startRef = useRef(startListening);
+  startRef.current = startListening;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== PUSH_TO_TALK_KEY || e.repeat || isTyping(e.target)) return;
+      if (e.ctrlKey || e.altKey || e.metaKey) return;
+      startRef.current();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === PUSH_TO_TALK_KEY) recognizerRef.current?.stop();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
+
+  // Read each new report aloud once it finishes streaming
+  const wasLoading = useRef(loading);
+  useEffect(() => {
+    if (wasLoading.current && !loading && autoNarrate) narrate(narration);
+    wasLoading.current = loading;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading]);
+
+  const canListen = isRecognitionSupported();
+  const canSpeak = isSynthesisSupported();
+
+  return (
+    <div className="glass-panel p-3 rounded-tl-xl rounded-br-xl w-64">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Mic className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-holo text-cyan-300 tracking-widest">VOICE</span>
+        </div>
+        {canSpeak && (
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1 text-[10px] font-mono text-cyan-600 cursor-pointer">
+              <input type="checkbox" checked={autoNarrate} onChange={(e) => setAutoNarrate(e.target.checked)} className="accent-cyan-400" />
+              AUTO
+            </label>
+            <button
+              onClick={() => speaking ? silence() : narrate(narration)}
+              disabled={!speaking && (loading || !narration)}
+              className="text-cyan-400 hover:text-white disabled:opacity-30"
+              title={speaking ? 'Stop narration' : 'Read report aloud'}
+            >
+              {speaking ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {canListen ? (
+        <button
+          onPointerDown={startListening}
+          onPointerUp={stopListening}
+          onPointerLeave={() => listening && stopListening()}
+          className={`w-full flex items-center justify-center gap-2 px-2 py-1.5 text-[10px] font-holo tracking-widest rounded border select-none transition-colors ${listening ? 'border-red-500 text-red-300 bg-red-500/10 animate-pulse' : 'border-cyan-500 text-cyan-300 hover:bg-cyan-500/20'}`}
+        >
+          <Mic className="w-3 h-3" />
+          {listening ? 'LISTENING...' : `HOLD TO TALK [${PUSH_TO_TALK_KEY.toUpperCase()}]`}
+        </button>
+      ) : (
+        <p className="flex items-center gap-2 text-[10px] font-mono text-amber-400">
+          <MicOff className="w-3 h-3" /> SPEECH RECOGNITION UNAVAILABLE IN THIS BROWSER
+        </p>
+      )}
+
+      {transcript && <p className="mt-2 text-[11px] font-mono text-white break-words">"{transcript}"</p>}
+      {feedback && <p className="mt-1 text-[10px] font-mono text-cyan-500">&gt; {feedback}</p>}
+      {!transcript && !feedback && canListen && (
+        <p className="mt-2 text-[10px] font-mono text-cyan-700">"GO TO JAPAN" · "SHOW ATMOSPHERE" · "COMPARE THESE TWO PINS" · OR ASK A QUESTION</p>
+      )}
+    </div>
+  );
+};
+
+export default VoiceConsole;
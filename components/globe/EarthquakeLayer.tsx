@@ -0,0 +1,96 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Earthquake } from '../../types';
+import { quakeDepthColor, quakeMarkerSize } from '../../services/earthquakes';
+import { MARKER_RADIUS, latLonToVector } from './sceneMath';
+
+// Just above the GeoJSON overlay shells so quakes stay clickable over filled polygons
+const QUAKE_RADIUS = MARKER_RADIUS + 0.02;
+const PULSE_PERIOD = 2.4; // seconds
+const PULSE_SPREAD = 2.5; // halo grows to this multiple of the marker size
+const STILL_PROGRESS = 0.4; // fixed halo size when animation is off
+
+interface EarthquakeLayerProps {
+  quakes: Earthquake[];
+  selectedId: string | null;
+  onSelect: (quake: Earthquake) => void;
+  // False holds the halos still (reduced motion)
+  animate?: boolean;
+}
+
+const EarthquakeLayer = ({ quakes, selectedId, onSelect, animate = true }: EarthquakeLayerProps) => {
+  const coreRef = useRef<THREE.InstancedMesh>(null);
+  const haloRef = useRef<THREE.InstancedMesh>(null);
+
+  // Position, outward orientation (for the flat halos) and size per quake
+  const placements = useMemo(() => quakes.map((quake, i) => {
+    const position = latLonToVector(quake.location.lat, quake.location.lon, QUAKE_RADIUS);
+    return {
+      position,
+      orientation: new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), position.clone().normalize()),
+      size: quakeMarkerSize(quake.magnitude),
+      // Stagger the pulses so neighbouring events don't throb in unison
+      phase: (i * 0.618) % 1,
+    };
+  }), [quakes]);
+
+  useLayoutEffect(() => {
+    const core = coreRef.current;
+    const halo = haloRef.current;
+    if (!core || !halo) return;
+    const matrix = new THREE.Matrix4();
+    const color = new THREE.Color();
+    placements.forEach((p, i) => {
+      matrix.compose(p.position, p.orientation, new THREE.Vector3(p.size, p.size, p.size));
+      core.setMatrixAt(i, matrix);
+      color.set(quakes[i].id === selectedId ? '#ffffff' : quakeDepthColor(quakes[i].depthKm));
+      core.setColorAt(i, color);
+      halo.setColorAt(i, color);
+    });
+    core.instanceMatrix.needsUpdate = true;
+    if (core.instanceColor) core.instanceColor.needsUpdate = true;
+    if (halo.instanceColor) halo.instanceColor.needsUpdate = true;
+    core.computeBoundingSphere();
+  }, [placements, quakes, selectedId]);
+
+  // Halos expand outward from each marker and restart every period
+  useFrame(({ clock }) => {
+    const halo = haloRef.current;
+    if (!halo) return;
+    const matrix = new THREE.Matrix4();
+    const scale = new THREE.Vector3();
+    const t = clock.getElapsedTime() / PULSE_PERIOD;
+    placements.forEach((p, i) => {
+      const progress = animate ? (t + p.phase) % 1 : STILL_PROGRESS;
+      const s = p.size * (1 + (PULSE_SPREAD - 1) * progress);
+      matrix.compose(p.position, p.orientation, scale.set(s, s, s));
+      halo.setMatrixAt(i, matrix);
+    });
+    halo.instanceMatrix.needsUpdate = true;
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (e.instanceId === undefined || !quakes[e.instanceId]) return;
+    e.stopPropagation();
+    onSelect(quakes[e.instanceId]);
+  };
+
+  if (quakes.length === 0) return null;
+
+  // Keyed on count: instanced meshes can't grow after creation
+  return (
+    <group key={quakes.length}>
+      <instancedMesh ref={coreRef} args={[undefined, undefined, quakes.length]} onPointerDown={handlePointerDown} renderOrder={20}>
+        <sphereGeometry args={[1, 10, 10]} />
+        <meshBasicMaterial transparent opacity={0.9} />
+      </instancedMesh>
+      <instancedMesh ref={haloRef} args={[undefined, undefined, quakes.length]} raycast={() => null} frustumCulled={false} renderOrder={20}>
+        <ringGeometry args={[0.85, 1, 24]} />
+        <meshBasicMaterial transparent opacity={0.5} side={THREE.DoubleSide} depthWrite={false} blending={THREE.AdditiveBlending} />
+      </instancedMesh>
+    </group>
+  );
+};
+
+export default EarthquakeLayer;
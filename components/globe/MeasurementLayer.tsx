@@ -0,0 +1,56 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import { LocationData } from '../../types';
+import { greatCirclePoints, haversineKm } from '../../utils/geodesy';
+import { MARKER_RADIUS, latLonToVector } from './sceneMath';
+
+// Arcs float just above the marker shell so they never z-fight with the clouds
+const ARC_RADIUS = MARKER_RADIUS + 0.01;
+
+const MeasurementArc = ({ from, to }: { from: LocationData; to: LocationData }) => {
+  const lineRef = useRef<React.ElementRef<typeof Line>>(null);
+
+  const points = useMemo(() => {
+    // ~1 sample per 100 km keeps long arcs smooth without bloating short ones
+    const segments = Math.max(8, Math.ceil(haversineKm(from, to) / 100));
+    return greatCirclePoints(from, to, segments).map(p => latLonToVector(p.lat, p.lon, ARC_RADIUS));
+  }, [from, to]);
+
+  // Dashes crawl from start to end to show direction of travel
+  useFrame((_, delta) => {
+    if (lineRef.current) lineRef.current.material.dashOffset -= delta * 0.3;
+  });
+
+  return (
+    <Line
+      ref={lineRef}
+      points={points}
+      color="#7fffd4"
+      lineWidth={2}
+      dashed
+      dashSize={0.06}
+      gapSize={0.03}
+      transparent
+      opacity={0.9}
+    />
+  );
+};
+
+const MeasurementLayer = ({ points }: { points: LocationData[] }) => {
+  return (
+    <group>
+      {points.map((point, index) => (
+        <mesh key={`pt-${index}`} position={latLonToVector(point.lat, point.lon, ARC_RADIUS)}>
+          <sphereGeometry args={[index === 0 ? 0.03 : 0.022, 12, 12]} />
+          <meshBasicMaterial color={index === 0 ? '#ffffff' : '#7fffd4'} />
+        </mesh>
+      ))}
+      {points.slice(1).map((point, index) => (
+        <MeasurementArc key={`arc-${index}`} from={points[index]} to={point} />
+      ))}
+    </group>
+  );
+};
+
+export default MeasurementLayer;
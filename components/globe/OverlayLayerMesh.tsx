@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { OverlayFeature, OverlayLayer } from '../../types';
+import { MARKER_RADIUS, latLonToVector } from './sceneMath';
+import { buildPolygonFill, densify } from './overlayGeometry';
+
+// Overlays stack just above the marker shell; each layer in the order gets its own
+// sliver of altitude so later layers draw over earlier ones
+const OVERLAY_BASE_RADIUS = MARKER_RADIUS + 0.005;
+const LAYER_STEP = 0.002;
+const HIGHLIGHT_COLOR = '#ffffff';
+
+interface FeatureMeshProps {
+  layer: OverlayLayer;
+  feature: OverlayFeature;
+  radius: number;
+  renderOrder: number;
+  selected: boolean;
+  onSelect: (feature: OverlayFeature, e: ThreeEvent<PointerEvent>) => void;
+}
+
+const FeatureMesh = ({ layer, feature, radius, renderOrder, selected, onSelect }: FeatureMeshProps) => {
+  const { style } = layer;
+  const color = selected ? HIGHLIGHT_COLOR : style.color;
+
+  const lines = useMemo(() => [
+    ...feature.lines,
+    ...feature.polygons.flat(), // Rings are drawn as outlines too
+  ].map(path => densify(path).map(p => latLonToVector(p.lat, p.lon, radius))), [feature, radius]);
+
+  const fills = useMemo(
+    () => feature.polygons.map(polygon => buildPolygonFill(polygon, radius)).filter((g): g is THREE.BufferGeometry => g !== null),
+    [feature, radius]
+  );
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    onSelect(feature, e);
+  };
+
+  return (
+    <group onPointerDown={handlePointerDown}>
+      {feature.points.map((point, i) => (
+        <mesh key={`p${i}`} position={latLonToVector(point.lat, point.lon, radius)} renderOrder={renderOrder}>
+          <sphereGeometry args={[selected ? style.pointSize * 1.5 : style.pointSize, 10, 10]} />
+          <meshBasicMaterial color={color} transparent opacity={style.opacity} />
+        </mesh>
+      ))}
+      {lines.map((points, i) => points.length > 1 && (
+        <Line
+          key={`l${i}`}
+          points={points}
+          color={color}
+          lineWidth={selected ? style.lineWidth * 2 : style.lineWidth}
+          transparent
+          opacity={style.opacity}
+          renderOrder={renderOrder}
+        />
+      ))}
+      {style.fillOpacity > 0 && fills.map((geometry, i) => (
+        <mesh key={`f${i}`} geometry={geometry} renderOrder={renderOrder}>
+          <meshBasicMaterial
+            color={color}
+            transparent
+            opacity={selected ? Math.min(1, style.fillOpacity * 2) : style.fillOpacity}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+          />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+interface OverlayLayerMeshProps {
+  layer: OverlayLayer;
+  order: number;
+  selectedFeatureIndex: number | null;
+  onFeatureSelect: (layer: OverlayLayer, feature: OverlayFeature, worldPoint: THREE.Vector3) => void;
+}
+
+const OverlayLayerMesh = ({ layer, order, selectedFeatureIndex, onFeatureSelect }: OverlayLayerMeshProps) => {
+  const radius = OVERLAY_BASE_RADIUS + order * LAYER_STEP;
+  return (
+    <group>
+      {layer.features.map(feature => (
+        <FeatureMesh
+          key={feature.index}
+          layer={layer}
+          feature={feature}
+          radius={radius}
+          renderOrder={10 + order}
+          selected={feature.index === selectedFeatureIndex}
+          onSelect={(f, e) => onFeatureSelect(layer, f, e.point)}
+        />
+      ))}
+    </group>
+  );
+};
+
+export default OverlayLayerMesh;
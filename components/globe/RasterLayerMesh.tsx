@@ -0,0 +1,46 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { RasterLayer } from '../../types';
+import { paintGrid } from '../../services/raster';
+import { EARTH_RADIUS, MARKER_RADIUS } from './sceneMath';
+
+// Raster shells sit between the surface and the cloud layer, one sliver per layer
+const RASTER_BASE_RADIUS = EARTH_RADIUS + 0.004;
+const LAYER_STEP = 0.002;
+const MAX_RADIUS = MARKER_RADIUS - 0.002;
+
+// Temporal raster layers stack on the same shells, after the static grids
+export const rasterShellRadius = (order: number) => Math.min(MAX_RADIUS, RASTER_BASE_RADIUS + order * LAYER_STEP);
+
+// Colours the grid through the layer's ramp
+const buildTexture = ({ grid, ramp, range }: RasterLayer) => {
+  const data = paintGrid(grid.values, grid.width, grid.height, ramp, range);
+  const texture = new THREE.DataTexture(data, grid.width, grid.height, THREE.RGBAFormat);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+interface RasterLayerMeshProps {
+  layer: RasterLayer;
+  order: number;
+}
+
+const RasterLayerMesh = ({ layer, order }: RasterLayerMeshProps) => {
+  const radius = rasterShellRadius(order);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const texture = useMemo(() => buildTexture(layer), [layer.grid, layer.ramp, layer.range[0], layer.range[1]]);
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  // Not raycastable: clicks fall through to the surface underneath
+  return (
+    <mesh raycast={() => null} renderOrder={5 + order}>
+      <sphereGeometry args={[radius, 96, 64]} />
+      <meshBasicMaterial map={texture} transparent opacity={layer.opacity} depthWrite={false} />
+    </mesh>
+  );
+};
+
+export default RasterLayerMesh;
@@ -0,0 +1,123 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { Satellite, groundTrack, satelliteState } from '../../services/satellites';
+import { SimulationClock, clockTime } from '../../utils/simulationClock';
+import { EARTH_RADIUS_KM } from '../../utils/geodesy';
+import { EARTH_RADIUS, MARKER_RADIUS, latLonToVector } from './sceneMath';
+
+// Orbits are drawn to scale with the radius-2 globe
+const KM_TO_SCENE = EARTH_RADIUS / EARTH_RADIUS_KM;
+const TRACK_RADIUS = MARKER_RADIUS + 0.003;
+const SATELLITE_SIZE = 0.02;
+const SATELLITE_COLOR = '#7df9ff';
+const SELECTED_COLOR = '#ffffff';
+// Track spans the last half orbit and the next full one
+const TRACK_BEFORE = 0.5;
+const TRACK_AFTER = 1;
+// Beyond this many satellites only the selected one gets a track
+export const MAX_ALL_TRACKS = 50;
+
+// Earth-fixed km (+Z north) into the scene frame (+Y north, lon +90 towards -Z)
+const ecefToScene = ({ x, y, z }: { x: number; y: number; z: number }, target: THREE.Vector3) =>
+  target.set(x * KM_TO_SCENE, z * KM_TO_SCENE, -y * KM_TO_SCENE);
+
+// Recomputed once per simulated minute rather than every frame
+const GroundTrack = ({ satellite, clock, selected }: { satellite: Satellite; clock: SimulationClock; selected: boolean }) => {
+  const [minute, setMinute] = useState(() => Math.floor(clockTime(clock) / 60000));
+  useFrame(() => {
+    const now = Math.floor(clockTime(clock) / 60000);
+    if (now !== minute) setMinute(now);
+  });
+
+  const points = useMemo(() => {
+    const period = satellite.model.periodMinutes;
+    return groundTrack(satellite, minute * 60000, -Math.round(period * TRACK_BEFORE), Math.round(period * TRACK_AFTER))
+      .map(p => latLonToVector(p.lat, p.lon, TRACK_RADIUS));
+  }, [satellite, minute]);
+
+  if (points.length < 2) return null;
+  return (
+    <Line
+      points={points}
+      color={selected ? SELECTED_COLOR : SATELLITE_COLOR}
+      lineWidth={selected ? 1.5 : 1}
+      transparent
+      opacity={selected ? 0.8 : 0.35}
+      dashed={!selected}
+      dashSize={0.03}
+      gapSize={0.02}
+    />
+  );
+};
+
+interface SatelliteLayerProps {
+  satellites: Satellite[];
+  clock: SimulationClock;
+  selectedId: string | null;
+  showAllTracks: boolean;
+  onSelect: (satellite: Satellite) => void;
+}
+
+const SatelliteLayer = ({ satellites, clock, selectedId, showAllTracks, onSelect }: SatelliteLayerProps) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const labelRef = useRef<THREE.Group>(null);
+  const selected = satellites.find(s => s.id === selectedId) ?? null;
+
+  // Positions follow the simulation clock every frame; decayed objects collapse to nothing
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const time = clockTime(clock);
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const color = new THREE.Color();
+    satellites.forEach((satellite, i) => {
+      const state = satelliteState(satellite, time);
+      const size = state ? (satellite.id === selectedId ? SATELLITE_SIZE * 1.6 : SATELLITE_SIZE) : 0;
+      if (state) ecefToScene(state.ecef, position);
+      matrix.makeScale(size, size, size).setPosition(position);
+      mesh.setMatrixAt(i, matrix);
+      mesh.setColorAt(i, color.set(satellite.id === selectedId ? SELECTED_COLOR : SATELLITE_COLOR));
+      if (satellite.id === selectedId && labelRef.current) labelRef.current.position.copy(position);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (e.instanceId === undefined || !satellites[e.instanceId]) return;
+    e.stopPropagation();
+    onSelect(satellites[e.instanceId]);
+  };
+
+  const tracked = showAllTracks && satellites.length <= MAX_ALL_TRACKS ? satellites : selected ? [selected] : [];
+
+  return (
+    <group>
+      {/* Keyed on count: instanced meshes can't grow after creation */}
+      <instancedMesh key={satellites.length} ref={meshRef} args={[undefined, undefined, satellites.length]} onPointerDown={handlePointerDown}>
+        <octahedronGeometry args={[1, 0]} />
+        <meshBasicMaterial />
+      </instancedMesh>
+
+      {tracked.map(satellite => (
+        <GroundTrack key={satellite.id} satellite={satellite} clock={clock} selected={satellite.id === selectedId} />
+      ))}
+
+      {selected && (
+        <group ref={labelRef}>
+          <Html distanceFactor={8} center position={[0, 0.07, 0]} zIndexRange={[10, 0]}>
+            <div className="px-1.5 py-0.5 text-[10px] font-mono whitespace-nowrap text-cyan-100 bg-black/70 border border-cyan-400/50 rounded select-none pointer-events-none">
+              {selected.name}
+            </div>
+          </Html>
+        </group>
+      )}
+    </group>
+  );
+};
+
+export default SatelliteLayer;
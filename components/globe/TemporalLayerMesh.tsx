@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { OverlayFeature, OverlayLayer, TemporalLayer } from '../../types';
+import { paintGrid } from '../../services/raster';
+import { Timeline, frameAt, timelineTime } from '../../utils/timeline';
+import { rasterShellRadius } from './RasterLayerMesh';
+import OverlayLayerMesh from './OverlayLayerMesh';
+
+// Blend weights are rounded to this many steps so the texture is repainted at most
+// a few dozen times between frames rather than every render frame
+const BLEND_STEPS = 32;
+
+// Linear blend of two same-sized grids; where either cell is empty the nearer frame wins
+const blendValues = (a: Float32Array, b: Float32Array, weight: number, target: Float32Array) => {
+  for (let i = 0; i < target.length; i++) {
+    const [va, vb] = [a[i], b[i]];
+    if (Number.isNaN(va) || Number.isNaN(vb)) target[i] = weight < 0.5 ? va : vb;
+    else target[i] = va + (vb - va) * weight;
+  }
+  return target;
+};
+
+interface TemporalRasterProps {
+  layer: TemporalLayer;
+  timeline: Timeline;
+  order: number;
+}
+
+const TemporalRaster = ({ layer, timeline, order }: TemporalRasterProps) => {
+  // Sized for the largest frame. Frames of differing sizes are shown without blending.
+  const texture = useMemo(() => {
+    const width = Math.max(...layer.frames.map(f => f.grid?.width ?? 1));
+    const height = Math.max(...layer.frames.map(f => f.grid?.height ?? 1));
+    const created = new THREE.DataTexture(new Uint8Array(width * height * 4), width, height, THREE.RGBAFormat);
+    created.colorSpace = THREE.SRGBColorSpace;
+    created.magFilter = THREE.LinearFilter;
+    created.wrapS = THREE.RepeatWrapping;
+    return created;
+  }, [layer.frames]);
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  const scratch = useRef<Float32Array | null>(null);
+  const painted = useRef('');
+
+  useFrame(() => {
+    const position = frameAt(layer.frames.map(f => f.time), timelineTime(timeline));
+    if (!position) return;
+    const a = layer.frames[position.index].grid;
+    const b = layer.frames[position.next].grid;
+    if (!a || !b) return;
+    const blendable = a.width === b.width && a.height === b.height;
+    const weight = blendable ? Math.round(position.weight * BLEND_STEPS) / BLEND_STEPS : 0;
+
+    // Repaint only when the frame pair, blend step or styling changed
+    const key = `${position.index}:${position.next}:${weight}:${layer.ramp}:${layer.range.join()}`;
+    if (key === painted.current) return;
+    painted.current = key;
+
+    let values: Float32Array = a.values;
+    if (weight > 0) {
+      if (scratch.current?.length !== a.values.length) scratch.current = new Float32Array(a.values.length);
+      values = blendValues(a.values, b.values, weight, scratch.current);
+    }
+    const image = texture.image as { data: Uint8Array; width: number; height: number };
+    // A frame of another size gets a fresh buffer (and GPU texture) of its own
+    if (image.width !== a.width || image.height !== a.height) {
+      texture.image = { data: new Uint8Array(a.width * a.height * 4), width: a.width, height: a.height };
+      texture.dispose();
+    }
+    paintGrid(values, a.width, a.height, layer.ramp, layer.range, (texture.image as { data: Uint8Array }).data);
+    texture.needsUpdate = true;
+  });
+
+  // Not raycastable: clicks fall through to the surface underneath
+  return (
+    <mesh raycast={() => null} renderOrder={5 + order}>
+      <sphereGeometry args={[rasterShellRadius(order), 96, 64]} />
+      <meshBasicMaterial map={texture} transparent opacity={layer.opacity} depthWrite={false} />
+    </mesh>
+  );
+};
+
+interface TemporalOverlayProps {
+  layer: TemporalLayer;
+  timeline: Timeline;
+  order: number;
+  selectedFeatureIndex: number | null;
+  onFeatureSelect: (layer: OverlayLayer, feature: OverlayFeature, worldPoint: THREE.Vector3) => void;
+}
+
+// Vector frames can't be blended, so the latest frame at or before the timeline position is shown
+const TemporalOverlay = ({ layer, timeline, order, selectedFeatureIndex, onFeatureSelect }: TemporalOverlayProps) => {
+  const [frameIndex, setFrameIndex] = useState(0);
+  useFrame(() => {
+    const position = frameAt(layer.frames.map(f => f.time), timelineTime(timeline));
+    if (position && position.index !== frameIndex) setFrameIndex(position.index);
+  });
+
+  const frame = layer.frames[Math.min(frameIndex, layer.frames.length - 1)];
+  const overlay = useMemo<OverlayLayer>(() => ({
+    id: layer.id,
+    name: `${layer.name} (${frame.label})`,
+    source: layer.source,
+    visible: true,
+    style: layer.style,
+    features: frame.features ?? [],
+  }), [layer, frame]);
+
+  return <OverlayLayerMesh layer={overlay} order={order} selectedFeatureIndex={selectedFeatureIndex} onFeatureSelect={onFeatureSelect} />;
+};
+
+// `order` indexes the raster shells or the overlay shells, depending on the layer kind
+const TemporalLayerMesh = (props: TemporalOverlayProps) =>
+  props.layer.kind === 'raster'
+    ? <TemporalRaster layer={props.layer} timeline={props.timeline} order={props.order} />
+    : <TemporalOverlay {...props} />;
+
+export default TemporalLayerMesh;
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TileSource } from '../../services/imagery';
+import { TileId, tileChildren, tileKey, tileXToLon, tileYToLat } from '../../utils/tiles';
+import { toRad } from '../../utils/geodesy';
+import { EARTH_RADIUS, latLonToVector } from './sceneMath';
+import { DayNightUniforms, dayNightFragmentShader, dayNightVertexShader } from './dayNightShader';
+import { TileCache, createTileCache } from './tileCache';
+
+// Just above the base sphere, whose 64-segment facets sag ~0.0024 inside the true radius
+const TILE_RADIUS = EARTH_RADIUS + 0.001;
+// A tile is split once it would cover more screen pixels than this
+const TILE_PIXELS = 256;
+const REFINE_THRESHOLD = 1.5;
+const MAX_DRAWN_TILES = 80;
+const UPDATE_INTERVAL = 0.2; // seconds between tile selections
+// Coarse tiles are large enough that a few sample points can miss their visible part
+const ALWAYS_VISIBLE_ZOOM = 1;
+
+interface TileView {
+  // Camera position in the globe's local frame
+  camera: THREE.Vector3;
+  frustum: THREE.Frustum;
+  // Screen pixels per scene unit at distance 1
+  pixelsPerUnit: number;
+}
+
+// 3x3 sample grid over the tile, for horizon, frustum and distance checks
+const tileSamples = ({ z, x, y }: TileId) => {
+  const samples: THREE.Vector3[] = [];
+  for (let j = 0; j <= 2; j++) {
+    for (let i = 0; i <= 2; i++) {
+      samples.push(latLonToVector(tileYToLat(y + j / 2, z), tileXToLon(x + i / 2, z), TILE_RADIUS));
+    }
+  }
+  return samples;
+};
+
+const isVisible = (tile: TileId, samples: THREE.Vector3[], view: TileView) => {
+  const sphere = new THREE.Sphere().setFromPoints(samples);
+  sphere.radius *= 1.1;
+  if (!view.frustum.intersectsSphere(sphere)) return false;
+  // On the near side of the horizon when P · C > R²
+  const horizon = TILE_RADIUS * TILE_RADIUS;
+  return tile.z <= ALWAYS_VISIBLE_ZOOM || samples.some(p => p.dot(view.camera) > horizon);
+};
+
+const needsRefine = (tile: TileId, samples: THREE.Vector3[], view: TileView) => {
+  const distance = Math.min(...samples.map(p => p.distanceTo(view.camera)));
+  const lat = tileYToLat(tile.y + 0.5, tile.z);
+  const width = TILE_RADIUS * toRad(360 / 2 ** tile.z) * Math.cos(toRad(lat));
+  const height = TILE_RADIUS * toRad(tileYToLat(tile.y, tile.z) - tileYToLat(tile.y + 1, tile.z));
+  return Math.max(width, height) / distance * view.pixelsPerUnit > TILE_PIXELS * REFINE_THRESHOLD;
+};
+
+// Quadtree walk from zoom 0. A tile is replaced by its children only once all the
+// visible ones have loaded, so coarser imagery stays up while finer tiles stream in.
+const selectTiles = (cache: TileCache, view: TileView, maxZoom: number) => {
+  const drawn: TileId[] = [];
+  const wanted: TileId[] = [];
+
+  const visit = (tile: TileId) => {
+    const samples = tileSamples(tile);
+    if (!isVisible(tile, samples, view)) return;
+    wanted.push(tile);
+
+    if (tile.z < maxZoom && drawn.length < MAX_DRAWN_TILES && needsRefine(tile, samples, view)) {
+      const children = tileChildren(tile).filter(child => isVisible(child, tileSamples(child), view));
+      wanted.push(...children);
+      if (children.length > 0 && children.every(child => cache.status(child) === 'ready')) {
+        children.forEach(visit);
+        return;
+      }
+    }
+    if (cache.status(tile) === 'ready') drawn.push(tile);
+  };
+
+  visit({ z: 0, x: 0, y: 0 });
+  return { drawn, wanted };
+};
+
+// Curved patch for one tile. Rows are spaced evenly in Mercator y so the tile
+// image maps linearly onto `uv`; `baseUv` addresses the equirectangular textures.
+const buildTileGeometry = ({ z, x, y }: TileId) => {
+  const segments = Math.max(4, 128 >> z);
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const baseUvs: number[] = [];
+  const indices: number[] = [];
+
+  for (let j = 0; j <= segments; j++) {
+    const lat = tileYToLat(y + j / segments, z);
+    for (let i = 0; i <= segments; i++) {
+      const lon = tileXToLon(x + i / segments, z);
+      const p = latLonToVector(lat, lon, TILE_RADIUS);
+      positions.push(p.x, p.y, p.z);
+      uvs.push(i / segments, 1 - j / segments);
+      baseUvs.push((lon + 180) / 360, (lat + 90) / 180);
+    }
+  }
+  for (let j = 0; j < segments; j++) {
+    for (let i = 0; i < segments; i++) {
+      const a = j * (segments + 1) + i;
+      const b = a + segments + 1;
+      indices.push(a, b, a + 1, b, b + 1, a + 1);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setIndex(indices);
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(positions.map(v => v / TILE_RADIUS), 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.setAttribute('baseUv', new THREE.Float32BufferAttribute(baseUvs, 2));
+  return geometry;
+};
+
+const TileMesh = ({ tile, texture, uniforms }: { tile: TileId; texture: THREE.Texture; uniforms: DayNightUniforms }) => {
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const geometry = useMemo(() => buildTileGeometry(tile), [tileKey(tile)]);
+  // Shares the sun direction and base textures with the globe, swapping in the tile as day imagery
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: { ...uniforms, dayMap: { value: texture } },
+    vertexShader: dayNightVertexShader,
+    fragmentShader: dayNightFragmentShader,
+    defines: { TILED: '' },
+  }), [uniforms, texture]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Not raycastable: clicks land on the base sphere underneath
+  return <mesh geometry={geometry} material={material} raycast={() => null} />;
+};
+
+interface TiledSurfaceProps {
+  source: TileSource;
+  uniforms: DayNightUniforms;
+}
+
+// Streams higher-resolution day imagery over the base sphere where the camera is looking
+const TiledSurface = ({ source, uniforms }: TiledSurfaceProps) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const cache = useMemo(() => createTileCache(source), [source]);
+  useEffect(() => () => cache.dispose(), [cache]);
+  const [drawn, setDrawn] = useState<TileId[]>([]);
+  const sinceUpdate = useRef(UPDATE_INTERVAL);
+
+  useFrame(({ camera, size }, delta) => {
+    sinceUpdate.current += delta;
+    const group = groupRef.current;
+    if (sinceUpdate.current < UPDATE_INTERVAL || !group) return;
+    sinceUpdate.current = 0;
+
+    const fov = (camera as THREE.PerspectiveCamera).fov ?? 45;
+    const toLocal = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse).multiply(group.matrixWorld);
+    const view: TileView = {
+      camera: group.worldToLocal(camera.position.clone()),
+      frustum: new THREE.Frustum().setFromProjectionMatrix(toLocal),
+      pixelsPerUnit: size.height / (2 * Math.tan(toRad(fov) / 2)),
+    };
+
+    const next = selectTiles(cache, view, source.maxZoom);
+    // Textures from the previous selection stay until React has swapped the meshes
+    const keep = new Set([...drawn, ...next.wanted].map(tileKey));
+    cache.update(next.wanted, keep);
+    if (next.drawn.map(tileKey).join() !== drawn.map(tileKey).join()) setDrawn(next.drawn);
+  });
+
+  return (
+    <group ref={groupRef}>
+      {drawn.map(tile => {
+        const texture = cache.texture(tile);
+        return texture && <TileMesh key={tileKey(tile)} tile={tile} texture={texture} uniforms={uniforms} />;
+      })}
+    </group>
+  );
+};
+
+export default TiledSurface;
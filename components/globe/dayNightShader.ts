@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+
+// Surface shader for the Earth sphere: lit day imagery blended into city lights
+// across a soft terminator, plus a specular glint on oceans. `sunDirection` is
+// given in the Earth group's local frame, i.e. latLonToVector(subsolarPoint).
+//
+// With TILED defined the material draws one imagery tile: `dayMap` is the tile
+// (sampled with `uv`) while night lights and specular still come from the
+// whole-globe textures, sampled with the patch's `baseUv` attribute.
+
+export const createDayNightUniforms = (dayMap: THREE.Texture, nightMap: THREE.Texture, specularMap: THREE.Texture) => ({
+  dayMap: { value: dayMap },
+  nightMap: { value: nightMap },
+  specularMap: { value: specularMap },
+  sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+});
+
+export type DayNightUniforms = ReturnType<typeof createDayNightUniforms>;
+
+export const dayNightVertexShader = /* glsl */ `
+  uniform vec3 sunDirection;
+
+  #ifdef TILED
+  attribute vec2 baseUv;
+  #endif
+
+  varying vec2 vUv;
+  varying vec2 vBaseUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+  varying vec3 vSunWorld;
+
+  void main() {
+    vUv = uv;
+    #ifdef TILED
+    vBaseUv = baseUv;
+    #else
+    vBaseUv = uv;
+    #endif
+    vWorldNormal = normalize(mat3(modelMatrix) * normal);
+    vSunWorld = normalize(mat3(modelMatrix) * sunDirection);
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+  }
+`;
+
+export const dayNightFragmentShader = /* glsl */ `
+  uniform sampler2D dayMap;
+  uniform sampler2D nightMap;
+  uniform sampler2D specularMap;
+
+  varying vec2 vUv;
+  varying vec2 vBaseUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+  varying vec3 vSunWorld;
+
+  void main() {
+    vec3 normal = normalize(vWorldNormal);
+    vec3 sun = normalize(vSunWorld);
+    float cosSun = dot(normal, sun);
+
+    // Twilight band of roughly +-6 degrees around the terminator
+    float dayMix = smoothstep(-0.1, 0.1, cosSun);
+
+    vec3 day = texture2D(dayMap, vUv).rgb * (0.04 + max(cosSun, 0.0) * 1.8);
+    vec3 night = texture2D(nightMap, vBaseUv).rgb * 1.4;
+
+    vec3 viewDir = normalize(cameraPosition - vWorldPosition);
+    vec3 halfDir = normalize(sun + viewDir);
+    float specular = pow(max(dot(normal, halfDir), 0.0), 30.0) * texture2D(specularMap, vBaseUv).r * 0.6 * dayMix;
+
+    vec3 color = mix(night, day, dayMix) + vec3(specular);
+
+    // Warm tint along the terminator
+    float twilight = 1.0 - abs(dayMix * 2.0 - 1.0);
+    color += vec3(0.25, 0.1, 0.0) * twilight * 0.15;
+
+    gl_FragColor = vec4(color, 1.0);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
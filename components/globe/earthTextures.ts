@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+import { BASE_TEXTURE_FILES, BaseTextureName, baseTextureUrls } from '../../services/imagery';
+
+export type EarthTextures = Record<BaseTextureName, THREE.Texture>;
+
+// Flat stand-ins for whatever the bundled fallback doesn't cover (clouds), or if
+// even that fails to load: a dark ocean, no city lights, glossy everywhere
+const PLACEHOLDER_RGBA: Record<BaseTextureName, [number, number, number, number]> = {
+  map: [10, 38, 64, 255],
+  specular: [160, 160, 160, 255],
+  night: [0, 0, 0, 255],
+  clouds: [0, 0, 0, 0],
+};
+
+const placeholder = (rgba: [number, number, number, number]) => {
+  const texture = new THREE.DataTexture(new Uint8Array(rgba), 1, 1, THREE.RGBAFormat);
+  texture.needsUpdate = true;
+  return texture;
+};
+
+const loader = new THREE.TextureLoader();
+
+const loadFirst = async (name: BaseTextureName) => {
+  for (const url of baseTextureUrls(name)) {
+    try {
+      return await loader.loadAsync(url);
+    } catch (error) {
+      console.error(`Earth texture unavailable at ${url}:`, error);
+    }
+  }
+  return placeholder(PLACEHOLDER_RGBA[name]);
+};
+
+let pending: Promise<EarthTextures> | null = null;
+
+// Loaded once per session. Never rejects, so the globe can suspend on it safely.
+export const loadEarthTextures = () => {
+  pending ??= Promise.all(
+    (Object.keys(BASE_TEXTURE_FILES) as BaseTextureName[]).map(async name => [name, await loadFirst(name)] as const)
+  ).then(entries => Object.fromEntries(entries) as EarthTextures);
+  return pending;
+};
@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { LocationData } from '../../types';
+import { createHandData, eventsSince, lastEventSeq } from '../../services/gestureEngine';
+import { parseRecording, replayRecording } from '../../services/gestureRecording';
+import { DEFAULT_HAND_PROFILE } from '../../services/handProfiles';
+import { normalizeLon, toDeg } from '../../utils/geodesy';
+import { EARTH_RADIUS } from './sceneMath';
+import { DragAnchor, dragStep, pickLatLon } from './globeInput';
+
+const CAMERA_DISTANCE = 6;
+const FOV = 45;
+
+// The same camera and globe HoloEarth starts with, minus the renderer
+const createScene = () => {
+  const camera = new THREE.PerspectiveCamera(FOV, 1, 0.1, 1000);
+  camera.position.set(0, 0, CAMERA_DISTANCE);
+  camera.updateMatrixWorld();
+  const globe = new THREE.Group();
+  const surface = new THREE.Mesh(new THREE.SphereGeometry(EARTH_RADIUS, 128, 128));
+  globe.add(surface);
+  globe.updateMatrixWorld();
+  return { camera, globe, surface, raycaster: new THREE.Raycaster() };
+};
+
+// Plays a fixture through the engine and applies each frame the way HoloEarth's frame loop does
+const replayFixture = (name: string) => {
+  const recording = parseRecording(readFileSync(new URL(`../../fixtures/recordings/${name}.json`, import.meta.url), 'utf8'));
+  const { camera, globe, surface, raycaster } = createScene();
+  const selections: LocationData[] = [];
+  let anchor: DragAnchor = null;
+  let seq = 0;
+
+  replayRecording(recording).forEach(hand => {
+    eventsSince(hand, seq).forEach(event => {
+      if (event.type !== 'select') return;
+      const point = pickLatLon(event, camera, raycaster, globe, surface);
+      if (point) selections.push(point);
+    });
+    seq = lastEventSeq(hand);
+
+    const drag = dragStep(anchor, hand, DEFAULT_HAND_PROFILE.sensitivity);
+    anchor = drag.anchor;
+    globe.rotation.x += drag.rotateX;
+    globe.rotation.y += drag.rotateY;
+    globe.updateMatrixWorld();
+  });
+  return { rotation: globe.rotation, selections };
+};
+
+// Latitude where a ray from the camera through the given NDC height first meets the unrotated globe
+const latitudeAtNdcY = (ndcY: number) => {
+  const slope = ndcY * Math.tan(THREE.MathUtils.degToRad(FOV / 2));
+  // Points on the ray are (0, slope·t, D - t); solve |p| = R for the nearer t
+  const a = 1 + slope * slope;
+  const b = -2 * CAMERA_DISTANCE;
+  const c = CAMERA_DISTANCE * CAMERA_DISTANCE - EARTH_RADIUS * EARTH_RADIUS;
+  const t = (-b - Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+  return toDeg(Math.asin((slope * t) / EARTH_RADIUS));
+};
+
+describe('dragStep', () => {
+  const hand = (x: number, y: number, active = true) => ({ ...createHandData(), active, x, y });
+
+  it('only anchors on the first frame of a grab', () => {
+    expect(dragStep(null, hand(0.3, 0.4), 10)).toEqual({ anchor: { x: 0.3, y: 0.4 }, rotateX: 0, rotateY: 0 });
+  });
+
+  it('rotates by the hand movement times the sensitivity', () => {
+    const step = dragStep({ x: 0.3, y: 0.4 }, hand(0.35, 0.38), 10);
+    expect(step.rotateY).toBeCloseTo(0.5);
+    expect(step.rotateX).toBeCloseTo(-0.2);
+    expect(step.anchor).toEqual({ x: 0.35, y: 0.38 });
+  });
+
+  it('clears the anchor when the hand lets go', () => {
+    expect(dragStep({ x: 0.3, y: 0.4 }, hand(0.5, 0.5, false), 10)).toEqual({ anchor: null, rotateX: 0, rotateY: 0 });
+  });
+});
+
+// Coordinates are checked to within 0.05°: the picked surface is a tessellated sphere
+// and the fingertip filter is still settling by a fraction of a pixel when the dwell fires
+describe('recorded gestures', () => {
+  it('drag-east turns the globe by the pinched travel times the sensitivity', () => {
+    const { rotation, selections } = replayFixture('drag-east');
+    // The pinched hand moves a tenth of the screen to the right
+    expect(rotation.y).toBeCloseTo(0.1 * DEFAULT_HAND_PROFILE.sensitivity, 2);
+    expect(rotation.x).toBeCloseTo(0, 5);
+    expect(selections).toEqual([]);
+  });
+
+  it('point-select picks the point under the held finger', () => {
+    const { rotation, selections } = replayFixture('point-select');
+    expect(rotation.y).toBe(0);
+    expect(selections).toHaveLength(1);
+    // Centre column of an unrotated globe is lon -90; the finger is held above centre (NDC y 0.3)
+    expect(selections[0].lon).toBeCloseTo(-90, 1);
+    expect(selections[0].lat).toBeCloseTo(latitudeAtNdcY(0.3), 1);
+  });
+
+  it('drag-then-select picks the rotated point under the centre of the screen', () => {
+    const { rotation, selections } = replayFixture('drag-then-select');
+    expect(rotation.y).toBeGreaterThan(0.9);
+    expect(selections).toHaveLength(1);
+    expect(selections[0].lat).toBeCloseTo(0, 1);
+    expect(selections[0].lon).toBeCloseTo(normalizeLon(-90 - toDeg(rotation.y)), 1);
+  });
+});
@@ -0,0 +1,33 @@
+import * as THREE from 'three';
+import { HandData, LocationData } from '../../types';
+import { vectorToLatLon } from './sceneMath';
+
+// The globe's response to hand input, kept out of the frame loop so recordings
+// can be replayed against it without a renderer (see globeInput.test.ts)
+
+// Hand position at the previous frame of a grab; null while not grabbing
+export type DragAnchor = { x: number; y: number } | null;
+
+// Rotation a grab adds this frame, in radians about the globe's x and y axes,
+// and the anchor for the next frame. The first frame of a grab only sets the anchor.
+export const dragStep = (anchor: DragAnchor, hand: HandData, sensitivity: number) => {
+  if (!hand.active) return { anchor: null, rotateX: 0, rotateY: 0 };
+  const next = { x: hand.x, y: hand.y };
+  if (!anchor) return { anchor: next, rotateX: 0, rotateY: 0 };
+  // Moving the hand left (negative x) turns the globe left (negative y rotation)
+  return { anchor: next, rotateX: (hand.y - anchor.y) * sensitivity, rotateY: (hand.x - anchor.x) * sensitivity };
+};
+
+// Surface point under a normalized screen position (0..1, y down), or null off the globe.
+// `surface` is raycast in world space; the hit is converted into `globe`'s local frame.
+export const pickLatLon = (
+  screen: { x: number; y: number },
+  camera: THREE.Camera,
+  raycaster: THREE.Raycaster,
+  globe: THREE.Object3D,
+  surface: THREE.Object3D
+): LocationData | null => {
+  raycaster.setFromCamera(new THREE.Vector2(screen.x * 2 - 1, -(screen.y * 2 - 1)), camera);
+  const hit = raycaster.intersectObject(surface)[0];
+  return hit ? vectorToLatLon(globe.worldToLocal(hit.point.clone())) : null;
+};
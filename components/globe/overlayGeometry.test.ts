@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { LocationData } from '../../types';
+import { cartesianToLatLon, haversineKm } from '../../utils/geodesy';
+import { MARKER_RADIUS } from './sceneMath';
+import { MAX_SEGMENT_KM, buildPolygonFill, unwrapRing } from './overlayGeometry';
+
+const RADIUS = MARKER_RADIUS + 0.005;
+
+const ring = (coordinates: [number, number][]): LocationData[] => coordinates.map(([lon, lat]) => ({ lat, lon }));
+
+// Contiguous United States, roughly
+const USA = ring([[-124.7, 48.4], [-95, 49], [-82.5, 45.3], [-67, 44.8], [-70, 41.5], [-75.5, 35.2], [-81, 25.2], [-97.2, 26], [-106.5, 31.8], [-117.1, 32.5], [-124.4, 40.3], [-124.7, 48.4]]);
+// Fiji-sized box straddling the dateline
+const DATELINE = ring([[177, -16], [-178, -16], [-178, -20], [177, -20], [177, -16]]);
+
+const triangles = (geometry: THREE.BufferGeometry) => {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex()!.array;
+  const vertex = (i: number) => new THREE.Vector3().fromBufferAttribute(position, index[i]);
+  return Array.from({ length: index.length / 3 }, (_, t) => [vertex(t * 3), vertex(t * 3 + 1), vertex(t * 3 + 2)]);
+};
+
+const toLatLon = (v: THREE.Vector3) => cartesianToLatLon(v);
+const area = (triangle: THREE.Vector3[]) =>
+  new THREE.Triangle(triangle[0], triangle[1], triangle[2]).getArea();
+
+// How far inside the overlay shell the flat triangle dips, in scene units
+const sag = (triangle: THREE.Vector3[]) =>
+  RADIUS - new THREE.Vector3().add(triangle[0]).add(triangle[1]).add(triangle[2]).divideScalar(3).length();
+
+describe('unwrapRing', () => {
+  it('keeps longitudes continuous across ±180°', () => {
+    expect(unwrapRing(DATELINE).map(point => point.lon)).toEqual([177, 182, 182, 177, 177]);
+  });
+});
+
+describe('buildPolygonFill', () => {
+  it('subdivides a country-sized fill so it stays on the surface', () => {
+    const geometry = buildPolygonFill([USA], RADIUS)!;
+    const all = triangles(geometry);
+    expect(all.length).toBeGreaterThan(100);
+    all.forEach(triangle => {
+      [[0, 1], [1, 2], [2, 0]].forEach(([a, b]) => {
+        expect(haversineKm(toLatLon(triangle[a]), toLatLon(triangle[b]))).toBeLessThanOrEqual(MAX_SEGMENT_KM + 1e-6);
+      });
+      // Well within the gap between the overlay and the globe (radius 2)
+      expect(sag(triangle)).toBeLessThan(0.001);
+    });
+  });
+
+  it('covers the area of the polygon on the sphere', () => {
+    // Total flat area of the fill against the spherical area of a 10° x 10° box
+    const box = ring([[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]);
+    const total = triangles(buildPolygonFill([box], RADIUS)!).reduce((sum, t) => sum + area(t), 0);
+    const spherical = RADIUS * RADIUS * THREE.MathUtils.degToRad(10) * Math.sin(THREE.MathUtils.degToRad(10));
+    expect(total / spherical).toBeCloseTo(1, 2);
+  });
+
+  it('fills a ring crossing the dateline locally instead of around the globe', () => {
+    const all = triangles(buildPolygonFill([DATELINE], RADIUS)!);
+    all.forEach(triangle => triangle.forEach(v => {
+      const { lat, lon } = toLatLon(v);
+      // Edges are great circles, which bow slightly poleward of the box's parallels
+      expect(lat).toBeGreaterThanOrEqual(-20.1);
+      expect(lat).toBeLessThanOrEqual(-15.9);
+      expect(Math.abs(lon)).toBeGreaterThanOrEqual(176.999);
+    }));
+  });
+
+  it('keeps holes open', () => {
+    const outer = ring([[0, 0], [10, 0], [10, 10], [0, 10]]);
+    const hole = ring([[4, 4], [6, 4], [6, 6], [4, 6]]);
+    const all = triangles(buildPolygonFill([outer, hole], RADIUS)!);
+    const centre = all.some(triangle => {
+      const c = toLatLon(new THREE.Vector3().add(triangle[0]).add(triangle[1]).add(triangle[2]));
+      return c.lat > 4.2 && c.lat < 5.8 && c.lon > 4.2 && c.lon < 5.8;
+    });
+    expect(centre).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+import { LocationData } from '../../types';
+import { greatCirclePoints, haversineKm, interpolateGreatCircle, normalizeLon } from '../../utils/geodesy';
+import { latLonToVector } from './sceneMath';
+
+// Densify edges so lines and fills follow the curvature instead of cutting through the globe
+export const MAX_SEGMENT_KM = 200;
+
+export const densify = (path: LocationData[]) =>
+  path.flatMap((point, i) => {
+    if (i === 0) return [point];
+    const segments = Math.max(1, Math.ceil(haversineKm(path[i - 1], point) / MAX_SEGMENT_KM));
+    return greatCirclePoints(path[i - 1], point, segments).slice(1);
+  });
+
+const withoutClosingVertex = (ring: LocationData[]) => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first.lat === last.lat && first.lon === last.lon ? ring.slice(0, -1) : ring;
+};
+
+// Longitudes made continuous along the ring, starting within 180° of `reference`,
+// so a ring crossing ±180° stays in one piece in lon/lat space (values may leave [-180, 180))
+export const unwrapRing = (ring: LocationData[], reference = ring[0]?.lon ?? 0) => {
+  let lon = reference;
+  return ring.map(point => {
+    lon += normalizeLon(point.lon - lon);
+    return { lat: point.lat, lon };
+  });
+};
+
+// Splits every triangle edge longer than MAX_SEGMENT_KM at its great-circle midpoint
+// until none is left. Whether an edge splits depends only on the edge, and midpoints
+// are shared through `midpoints`, so neighbouring triangles stay stitched together.
+const subdivide = (vertices: LocationData[], triangles: number[][]) => {
+  const midpoints = new Map<string, number>();
+  const midpoint = (a: number, b: number) => {
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    let index = midpoints.get(key);
+    if (index === undefined) {
+      index = vertices.push(interpolateGreatCircle(vertices[a], vertices[b], 0.5)) - 1;
+      midpoints.set(key, index);
+    }
+    return index;
+  };
+  const long = (a: number, b: number) => haversineKm(vertices[a], vertices[b]) > MAX_SEGMENT_KM;
+
+  const result: number[][] = [];
+  const pending = [...triangles];
+  while (pending.length > 0) {
+    const [a, b, c] = pending.pop()!;
+    const split = [long(a, b), long(b, c), long(c, a)];
+    const count = split.filter(Boolean).length;
+    if (count === 0) {
+      result.push([a, b, c]);
+    } else if (count === 3) {
+      const ab = midpoint(a, b), bc = midpoint(b, c), ca = midpoint(c, a);
+      pending.push([a, ab, ca], [ab, b, bc], [ca, bc, c], [ab, bc, ca]);
+    } else {
+      // Rotate so the first long edge is p-q and, with two long edges, the other is q-r
+      const rotation = count === 1 ? split.indexOf(true) : split.indexOf(false) + 1;
+      const [p, q, r] = [[a, b, c], [b, c, a], [c, a, b]][rotation % 3];
+      const pq = midpoint(p, q);
+      if (count === 1) {
+        pending.push([p, pq, r], [pq, q, r]);
+      } else {
+        const qr = midpoint(q, r);
+        pending.push([pq, q, qr], [p, pq, qr], [p, qr, r]);
+      }
+    }
+  }
+  return result;
+};
+
+// Triangulates in (unwrapped) lon/lat space, subdivides so no edge is longer than
+// MAX_SEGMENT_KM, and lifts the vertices onto the sphere. Rings must not enclose a pole.
+export const buildPolygonFill = (polygon: LocationData[][], radius: number) => {
+  const rings = polygon.map(ring => {
+    const open = withoutClosingVertex(ring);
+    return densify([...open, open[0]]).slice(0, -1);
+  });
+  const [outer, ...holes] = rings;
+  if (!outer || outer.length < 3) return null;
+
+  const reference = outer[0].lon;
+  const [unwrappedOuter, ...unwrappedHoles] = rings.map(ring => unwrapRing(ring, reference));
+  const toVec2 = (l: LocationData) => new THREE.Vector2(l.lon, l.lat);
+  const triangles = THREE.ShapeUtils.triangulateShape(unwrappedOuter.map(toVec2), unwrappedHoles.map(h => h.map(toVec2)));
+  const vertices = [unwrappedOuter, ...unwrappedHoles].flat();
+  const indices = subdivide(vertices, triangles);
+
+  const positions = new Float32Array(vertices.length * 3);
+  vertices.forEach((v, i) => latLonToVector(v.lat, v.lon, radius).toArray(positions, i * 3));
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setIndex(indices.flat());
+  return geometry;
+};
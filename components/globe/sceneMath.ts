@@ -0,0 +1,21 @@
+import * as THREE from 'three';
+import { cartesianToLatLon, latLonToCartesian } from '../../utils/geodesy';
+
+export const EARTH_RADIUS = 2;
+// Radius used by surface markers (matches the cloud shell so pins sit on top of it)
+export const MARKER_RADIUS = 2.02;
+
+export const latLonToVector = (lat: number, lon: number, radius = MARKER_RADIUS) => {
+  const { x, y, z } = latLonToCartesian(lat, lon, radius);
+  return new THREE.Vector3(x, y, z);
+};
+
+// Point must be in the Earth group's local frame
+export const vectorToLatLon = (point: THREE.Vector3) => cartesianToLatLon(point);
+
+// Orientation that brings (lat, lon) to face +Z in the Earth group's local frame
+export const facingQuaternion = (lat: number, lon: number) => {
+  const { x, z } = latLonToCartesian(lat, lon);
+  const yaw = Math.atan2(x, z); // Angle around Y from +Z to the point's meridian
+  return new THREE.Quaternion().setFromEuler(new THREE.Euler(lat * Math.PI / 180, -yaw, 0));
+};
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+import { TileSource, tileUrl } from '../../services/imagery';
+import { TileId, tileKey } from '../../utils/tiles';
+
+// Tile textures kept on the GPU (~350 KB each at 256 px with mipmaps). Tiles in the
+// current selection are never evicted, so this is exceeded only while they need more.
+export const MAX_TILE_TEXTURES = 192;
+const MAX_CONCURRENT_LOADS = 6;
+
+type TileStatus = 'loading' | 'ready' | 'failed';
+
+interface TileEntry {
+  status: TileStatus;
+  texture?: THREE.Texture;
+  lastUsed: number;
+}
+
+// Streams tile textures for one source. Requests are re-prioritised on every
+// update; tiles that failed are not retried, so their parents stay in place.
+export const createTileCache = (source: TileSource, capacity = MAX_TILE_TEXTURES) => {
+  const loader = new THREE.TextureLoader();
+  const entries = new Map<string, TileEntry>();
+  let queue: TileId[] = [];
+  let inFlight = 0;
+  let disposed = false;
+  let clock = 0;
+
+  const pump = () => {
+    while (inFlight < MAX_CONCURRENT_LOADS && queue.length > 0) {
+      const tile = queue.shift()!;
+      const key = tileKey(tile);
+      if (entries.has(key)) continue;
+      const entry: TileEntry = { status: 'loading', lastUsed: clock };
+      entries.set(key, entry);
+      inFlight++;
+      loader.loadAsync(tileUrl(source, tile))
+        .then(texture => {
+          if (disposed || entries.get(key) !== entry) {
+            texture.dispose();
+            return;
+          }
+          texture.colorSpace = THREE.SRGBColorSpace;
+          texture.wrapS = texture.wrapT = THREE.ClampToEdgeWrapping;
+          entry.texture = texture;
+          entry.status = 'ready';
+        })
+        .catch(error => {
+          console.error(`Tile ${key} failed:`, error);
+          entry.status = 'failed';
+        })
+        .finally(() => {
+          inFlight--;
+          if (!disposed) pump();
+        });
+    }
+  };
+
+  // Drops the least recently used textures beyond capacity, never one in `keep`
+  const evict = (keep: Set<string>) => {
+    const ready = [...entries].filter(([, entry]) => entry.status === 'ready');
+    const evictable = ready.filter(([key]) => !keep.has(key));
+    let excess = ready.length - capacity;
+    evictable.sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [key, entry] of evictable) {
+      if (excess-- <= 0) break;
+      entry.texture?.dispose();
+      entries.delete(key);
+    }
+  };
+
+  return {
+    status: (tile: TileId): TileStatus | undefined => entries.get(tileKey(tile))?.status,
+    texture: (tile: TileId) => entries.get(tileKey(tile))?.texture,
+    // `wanted` in priority order (coarse first); `keep` is everything drawn or still wanted
+    update: (wanted: TileId[], keep: Set<string>) => {
+      clock++;
+      wanted.forEach(tile => {
+        const entry = entries.get(tileKey(tile));
+        if (entry) entry.lastUsed = clock;
+      });
+      queue = wanted.filter(tile => !entries.has(tileKey(tile)));
+      pump();
+      evict(keep);
+    },
+    dispose: () => {
+      disposed = true;
+      queue = [];
+      entries.forEach(entry => entry.texture?.dispose());
+      entries.clear();
+    },
+  };
+};
+
+export type TileCache = ReturnType<typeof createTileCache>;
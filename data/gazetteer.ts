@@ -0,0 +1,92 @@
+// Bundled offline gazetteer: sovereign-state centroids and major cities.
+// Coordinates are decimal degrees (WGS84), rounded to two places.
+
+export interface GazetteerEntry {
+  name: string;
+  country: string;
+  lat: number;
+  lon: number;
+  kind: 'country' | 'city';
+}
+
+type Row = [name: string, lat: number, lon: number];
+type CityRow = [name: string, country: string, lat: number, lon: number];
+
+const COUNTRIES: Row[] = [
+  ['Afghanistan', 33.94, 67.71], ['Algeria', 28.03, 1.66], ['Angola', -11.2, 17.87],
+  ['Argentina', -38.42, -63.62], ['Australia', -25.27, 133.78], ['Austria', 47.52, 14.55],
+  ['Bangladesh', 23.68, 90.36], ['Belgium', 50.5, 4.47], ['Bolivia', -16.29, -63.59],
+  ['Brazil', -14.24, -51.93], ['Bulgaria', 42.73, 25.49], ['Canada', 56.13, -106.35],
+  ['Chad', 15.45, 18.73], ['Chile', -35.68, -71.54], ['China', 35.86, 104.2],
+  ['Colombia', 4.57, -74.3], ['Democratic Republic of the Congo', -4.04, 21.76], ['Cuba', 21.52, -77.78],
+  ['Czechia', 49.82, 15.47], ['Denmark', 56.26, 9.5], ['Ecuador', -1.83, -78.18],
+  ['Egypt', 26.82, 30.8], ['Ethiopia', 9.15, 40.49], ['Finland', 61.92, 25.75],
+  ['France', 46.23, 2.21], ['Germany', 51.17, 10.45], ['Ghana', 7.95, -1.02],
+  ['Greece', 39.07, 21.82], ['Greenland', 71.71, -42.6], ['Hungary', 47.16, 19.5],
+  ['Iceland', 64.96, -19.02], ['India', 20.59, 78.96], ['Indonesia', -0.79, 113.92],
+  ['Iran', 32.43, 53.69], ['Iraq', 33.22, 43.68], ['Ireland', 53.41, -8.24],
+  ['Israel', 31.05, 34.85], ['Italy', 41.87, 12.57], ['Japan', 36.2, 138.25],
+  ['Kazakhstan', 48.02, 66.92], ['Kenya', -0.02, 37.91], ['Libya', 26.34, 17.23],
+  ['Madagascar', -18.77, 46.87], ['Malaysia', 4.21, 101.98], ['Mali', 17.57, -4.0],
+  ['Mexico', 23.63, -102.55], ['Mongolia', 46.86, 103.85], ['Morocco', 31.79, -7.09],
+  ['Mozambique', -18.67, 35.53], ['Myanmar', 21.91, 95.96], ['Namibia', -22.96, 18.49],
+  ['Nepal', 28.39, 84.12], ['Netherlands', 52.13, 5.29], ['New Zealand', -40.9, 174.89],
+  ['Niger', 17.61, 8.08], ['Nigeria', 9.08, 8.68], ['North Korea', 40.34, 127.51],
+  ['Norway', 60.47, 8.47], ['Pakistan', 30.38, 69.35], ['Papua New Guinea', -6.31, 143.96],
+  ['Peru', -9.19, -75.02], ['Philippines', 12.88, 121.77], ['Poland', 51.92, 19.15],
+  ['Portugal', 39.4, -8.22], ['Romania', 45.94, 24.97], ['Russia', 61.52, 105.32],
+  ['Saudi Arabia', 23.89, 45.08], ['South Africa', -30.56, 22.94], ['South Korea', 35.91, 127.77],
+  ['Spain', 40.46, -3.75], ['Sudan', 12.86, 30.22], ['Sweden', 60.13, 18.64],
+  ['Switzerland', 46.82, 8.23], ['Tanzania', -6.37, 34.89], ['Thailand', 15.87, 100.99],
+  ['Turkey', 38.96, 35.24], ['Ukraine', 48.38, 31.17], ['United Kingdom', 55.38, -3.44],
+  ['United States', 37.09, -95.71], ['Venezuela', 6.42, -66.59], ['Vietnam', 14.06, 108.28],
+  ['Zambia', -13.13, 27.85], ['Zimbabwe', -19.02, 29.15], ['Antarctica', -82.86, 135.0],
+];
+
+const CITIES: CityRow[] = [
+  ['Tokyo', 'Japan', 35.68, 139.69], ['Osaka', 'Japan', 34.69, 135.5], ['Delhi', 'India', 28.7, 77.1],
+  ['Mumbai', 'India', 19.08, 72.88], ['Kolkata', 'India', 22.57, 88.36], ['Bangalore', 'India', 12.97, 77.59],
+  ['Shanghai', 'China', 31.23, 121.47], ['Beijing', 'China', 39.9, 116.41], ['Guangzhou', 'China', 23.13, 113.26],
+  ['Hong Kong', 'China', 22.32, 114.17], ['Chengdu', 'China', 30.57, 104.07], ['Seoul', 'South Korea', 37.57, 126.98],
+  ['Pyongyang', 'North Korea', 39.04, 125.76], ['Taipei', 'Taiwan', 25.03, 121.57], ['Manila', 'Philippines', 14.6, 120.98],
+  ['Jakarta', 'Indonesia', -6.21, 106.85], ['Singapore', 'Singapore', 1.35, 103.82], ['Kuala Lumpur', 'Malaysia', 3.14, 101.69],
+  ['Bangkok', 'Thailand', 13.76, 100.5], ['Hanoi', 'Vietnam', 21.03, 105.85], ['Ho Chi Minh City', 'Vietnam', 10.82, 106.63],
+  ['Yangon', 'Myanmar', 16.87, 96.2], ['Dhaka', 'Bangladesh', 23.81, 90.41], ['Kathmandu', 'Nepal', 27.72, 85.32],
+  ['Karachi', 'Pakistan', 24.86, 67.01], ['Lahore', 'Pakistan', 31.55, 74.34], ['Kabul', 'Afghanistan', 34.56, 69.21],
+  ['Tehran', 'Iran', 35.69, 51.39], ['Baghdad', 'Iraq', 33.32, 44.36], ['Riyadh', 'Saudi Arabia', 24.71, 46.68],
+  ['Dubai', 'United Arab Emirates', 25.2, 55.27], ['Doha', 'Qatar', 25.29, 51.53], ['Jerusalem', 'Israel', 31.77, 35.21],
+  ['Istanbul', 'Turkey', 41.01, 28.98], ['Ankara', 'Turkey', 39.93, 32.86], ['Almaty', 'Kazakhstan', 43.24, 76.95],
+  ['Ulaanbaatar', 'Mongolia', 47.89, 106.91], ['Moscow', 'Russia', 55.76, 37.62], ['Saint Petersburg', 'Russia', 59.93, 30.34],
+  ['Novosibirsk', 'Russia', 55.01, 82.93], ['Vladivostok', 'Russia', 43.12, 131.89], ['Kyiv', 'Ukraine', 50.45, 30.52],
+  ['Warsaw', 'Poland', 52.23, 21.01], ['Berlin', 'Germany', 52.52, 13.4], ['Munich', 'Germany', 48.14, 11.58],
+  ['Hamburg', 'Germany', 53.55, 9.99], ['Prague', 'Czechia', 50.08, 14.44], ['Vienna', 'Austria', 48.21, 16.37],
+  ['Budapest', 'Hungary', 47.5, 19.04], ['Bucharest', 'Romania', 44.43, 26.1], ['Athens', 'Greece', 37.98, 23.73],
+  ['Rome', 'Italy', 41.9, 12.5], ['Milan', 'Italy', 45.46, 9.19], ['Zurich', 'Switzerland', 47.38, 8.54],
+  ['Paris', 'France', 48.86, 2.35], ['Marseille', 'France', 43.3, 5.37], ['Brussels', 'Belgium', 50.85, 4.35],
+  ['Amsterdam', 'Netherlands', 52.37, 4.9], ['London', 'United Kingdom', 51.51, -0.13], ['Edinburgh', 'United Kingdom', 55.95, -3.19],
+  ['Dublin', 'Ireland', 53.35, -6.26], ['Madrid', 'Spain', 40.42, -3.7], ['Barcelona', 'Spain', 41.39, 2.17],
+  ['Lisbon', 'Portugal', 38.72, -9.14], ['Copenhagen', 'Denmark', 55.68, 12.57], ['Oslo', 'Norway', 59.91, 10.75],
+  ['Stockholm', 'Sweden', 59.33, 18.07], ['Helsinki', 'Finland', 60.17, 24.94], ['Reykjavik', 'Iceland', 64.15, -21.94],
+  ['Nuuk', 'Greenland', 64.18, -51.69], ['Cairo', 'Egypt', 30.04, 31.24], ['Casablanca', 'Morocco', 33.57, -7.59],
+  ['Algiers', 'Algeria', 36.75, 3.06], ['Tunis', 'Tunisia', 36.81, 10.18], ['Lagos', 'Nigeria', 6.52, 3.38],
+  ['Accra', 'Ghana', 5.6, -0.19], ['Dakar', 'Senegal', 14.72, -17.47], ['Kinshasa', 'Democratic Republic of the Congo', -4.44, 15.27],
+  ['Luanda', 'Angola', -8.84, 13.29], ['Nairobi', 'Kenya', -1.29, 36.82], ['Addis Ababa', 'Ethiopia', 9.03, 38.74],
+  ['Khartoum', 'Sudan', 15.5, 32.56], ['Dar es Salaam', 'Tanzania', -6.79, 39.21], ['Johannesburg', 'South Africa', -26.2, 28.05],
+  ['Cape Town', 'South Africa', -33.92, 18.42], ['Antananarivo', 'Madagascar', -18.88, 47.51], ['New York', 'United States', 40.71, -74.01],
+  ['Los Angeles', 'United States', 34.05, -118.24], ['Chicago', 'United States', 41.88, -87.63], ['Houston', 'United States', 29.76, -95.37],
+  ['Miami', 'United States', 25.76, -80.19], ['San Francisco', 'United States', 37.77, -122.42], ['Seattle', 'United States', 47.61, -122.33],
+  ['Washington', 'United States', 38.91, -77.04], ['Anchorage', 'United States', 61.22, -149.9], ['Honolulu', 'United States', 21.31, -157.86],
+  ['Toronto', 'Canada', 43.65, -79.38], ['Montreal', 'Canada', 45.5, -73.57], ['Vancouver', 'Canada', 49.28, -123.12],
+  ['Mexico City', 'Mexico', 19.43, -99.13], ['Havana', 'Cuba', 23.11, -82.37], ['Bogota', 'Colombia', 4.71, -74.07],
+  ['Caracas', 'Venezuela', 10.48, -66.9], ['Quito', 'Ecuador', -0.18, -78.47], ['Lima', 'Peru', -12.05, -77.04],
+  ['La Paz', 'Bolivia', -16.5, -68.15], ['Santiago', 'Chile', -33.45, -70.67], ['Buenos Aires', 'Argentina', -34.6, -58.38],
+  ['Sao Paulo', 'Brazil', -23.55, -46.63], ['Rio de Janeiro', 'Brazil', -22.91, -43.17], ['Brasilia', 'Brazil', -15.79, -47.88],
+  ['Manaus', 'Brazil', -3.12, -60.02], ['Sydney', 'Australia', -33.87, 151.21], ['Melbourne', 'Australia', -37.81, 144.96],
+  ['Perth', 'Australia', -31.95, 115.86], ['Darwin', 'Australia', -12.46, 130.84], ['Auckland', 'New Zealand', -36.85, 174.76],
+  ['Wellington', 'New Zealand', -41.29, 174.78], ['Port Moresby', 'Papua New Guinea', -9.44, 147.18], ['McMurdo Station', 'Antarctica', -77.85, 166.67],
+];
+
+export const GAZETTEER: GazetteerEntry[] = [
+  ...COUNTRIES.map(([name, lat, lon]): GazetteerEntry => ({ name, country: name, lat, lon, kind: 'country' })),
+  ...CITIES.map(([name, country, lat, lon]): GazetteerEntry => ({ name, country, lat, lon, kind: 'city' })),
+];
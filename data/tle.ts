@@ -0,0 +1,34 @@
+// Bundled sample element sets so the orbital layer works offline.
+// These are illustrative: each matches its satellite's real inclination and altitude,
+// but the node and phase are not a current ephemeris and drift further from reality
+// the further the clock is from the 2026-10-17 epoch. Load a fresh file from
+// CelesTrak (https://celestrak.org) for true positions.
+
+export const SAMPLE_TLE_SOURCE = 'Bundled sample';
+
+export const SAMPLE_TLE = `
+ISS (ZARYA)
+1 25544U 98067A   26290.50000000  .00016717  00000-0  30000-3 0  9992
+2 25544  51.6393 123.4567 0004421  45.1234 315.0021 15.50012345100006
+CSS (TIANHE)
+1 48274U 21035A   26290.50000000  .00021567  00000-0  26000-3 0  9992
+2 48274  41.4662 201.3344 0005210 310.5512  49.5121 15.61045678100008
+HST
+1 20580U 90037B   26290.50000000  .00001234  00000-0  52000-4 0  9999
+2 20580  28.4695  78.9021 0002512 101.2233 258.8901 15.28912345100004
+NOAA 19
+1 33591U 09005A   26290.50000000  .00000456  00000-0  11000-3 0  9999
+2 33591  99.1921 310.1122 0013501 170.4455 189.7012 14.12987654100006
+TERRA
+1 25994U 99068A   26290.50000000  .00000321  00000-0  22000-4 0  9999
+2 25994  98.0512   5.6789 0001890  75.3311 284.8012 14.59123456100005
+AQUA
+1 27424U 02022A   26290.50000000  .00000345  00000-0  24000-4 0  9991
+2 27424  98.2834 240.5566 0001102  88.1234 272.0198 14.58765432100008
+SENTINEL-2A
+1 40697U 15028A   26290.50000000  .00000098  00000-0  15000-4 0  9993
+2 40697  98.5671 356.7788 0001001  95.4321 264.7012 14.30812345100008
+LANDSAT 9
+1 49260U 21088A   26290.50000000  .00000112  00000-0  16000-4 0  9999
+2 49260  98.2210   2.3456 0001203  93.2210 266.9100 14.57112233100002
+`;
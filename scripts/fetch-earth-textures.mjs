@@ -0,0 +1,29 @@
+// Downloads the base globe textures into public/textures/earth. vite.config.ts
+// picks that directory up automatically, so the globe keeps its imagery offline
+// (streamed tiles still need EARTH_TILE_URL pointing at a local directory).
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Keep in sync with BASE_TEXTURE_FILES in services/imagery.ts
+const FILES = ['earth_atmos_2048.jpg', 'earth_specular_2048.jpg', 'earth_lights_2048.png', 'earth_clouds_1024.png'];
+const SOURCE = 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'textures', 'earth');
+mkdirSync(target, { recursive: true });
+
+for (const file of FILES) {
+  const path = join(target, file);
+  if (existsSync(path)) {
+    console.log(`Already present: ${path}`);
+    continue;
+  }
+  const response = await fetch(`${SOURCE}/${file}`);
+  if (!response.ok) {
+    console.error(`Download of ${file} failed: ${response.status} ${response.statusText}`);
+    process.exit(1);
+  }
+  writeFileSync(path, Buffer.from(await response.arrayBuffer()));
+  console.log(`Downloaded ${path}`);
+}
@@ -0,0 +1,30 @@
+// Copies the MediaPipe wasm fileset from node_modules and downloads the gesture
+// model into public/mediapipe, so the app can run with MEDIAPIPE_ASSET_BASE=/mediapipe
+// on machines without internet access.
+import { cpSync, existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'mediapipe');
+const wasmSource = join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+
+if (!existsSync(wasmSource)) {
+  console.error('@mediapipe/tasks-vision is not installed; run `npm install` first.');
+  process.exit(1);
+}
+
+mkdirSync(target, { recursive: true });
+cpSync(wasmSource, join(target, 'wasm'), { recursive: true });
+console.log(`Copied wasm fileset to ${join(target, 'wasm')}`);
+
+const modelPath = join(target, 'gesture_recognizer.task');
+const response = await fetch(MODEL_URL);
+if (!response.ok) {
+  console.error(`Model download failed: ${response.status} ${response.statusText}`);
+  process.exit(1);
+}
+writeFileSync(modelPath, Buffer.from(await response.arrayBuffer()));
+console.log(`Downloaded model to ${modelPath}`);
@@ -0,0 +1,245 @@
+// Generates the low-resolution base textures committed in public/textures/fallback.
+// They are the last imagery the globe tries (after EARTH_TEXTURE_BASE and the
+// three.js copies on GitHub), so it still shows recognisable continents with no
+// network. Coastlines are coarse hand-traced outlines rather than survey data;
+// city lights come from the bundled gazetteer.
+//
+//   node scripts/make-fallback-textures.mjs
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { deflateSync } from 'node:zlib';
+
+const WIDTH = 512;
+const HEIGHT = 256;
+// Coastlines are rasterized at this many samples per pixel along each axis, then averaged
+const SUPERSAMPLE = 4;
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'textures', 'fallback');
+
+// --- Outlines: [lon, lat] rings, traced at roughly 2° ---
+
+const LAND = {
+  northAmerica: [[-168, 65.5], [-165, 68.5], [-156, 71.3], [-141, 69.7], [-128, 70.2], [-117, 68.8], [-108, 68.3], [-97, 67.8], [-88, 68.5], [-85, 66.5], [-87, 64.5], [-90.5, 63.5], [-94, 61], [-93, 58.5], [-87, 55.5], [-82, 52.5], [-79.5, 54.5], [-77.5, 58.5], [-78, 62.3], [-73, 62], [-69, 59], [-65, 60.2], [-61.5, 56.5], [-56, 52], [-60, 50], [-65, 49], [-64, 46], [-66, 44.5], [-70, 43.5], [-70, 41.7], [-74, 40.5], [-76, 38], [-76, 35], [-79, 33], [-81, 31], [-80, 27], [-80, 25.3], [-81.5, 25.5], [-82.8, 28], [-84, 30], [-89, 30.2], [-91, 29.2], [-94, 29.6], [-97, 27.8], [-97.5, 24], [-97.7, 21.5], [-96, 19], [-94, 18.3], [-91, 19], [-90.5, 21], [-87, 21.5], [-88, 18], [-88.5, 16], [-84, 15.8], [-83.3, 12], [-83.7, 10.5], [-81.5, 9], [-79, 9.5], [-77.4, 8.6], [-78, 7.5], [-80, 7.3], [-83, 8.3], [-85.7, 10], [-87.5, 13], [-91.5, 14], [-94, 16], [-97, 15.8], [-101, 17.2], [-105.5, 20], [-106, 23], [-109, 26], [-112, 29], [-114.7, 31.8], [-117, 32.5], [-118.5, 34], [-120.6, 34.6], [-122.5, 37.5], [-124, 40.5], [-124.5, 43], [-124, 46.5], [-124.7, 48.4], [-123, 49], [-127, 50.5], [-130, 54], [-133, 57], [-137, 58.5], [-140, 59.8], [-146, 60.5], [-150, 59.5], [-154, 57.5], [-158, 56.5], [-162, 55], [-164.5, 54.6], [-158, 58.5], [-162, 59.9], [-164.8, 62.5], [-166, 64.5]],
+  baffin: [[-88, 70], [-80, 73.7], [-72, 71.8], [-68, 70.3], [-62, 66.8], [-65, 64], [-66, 62], [-71, 63.2], [-74, 65], [-76, 67], [-82, 69.5]],
+  victoria: [[-119, 71.5], [-112, 73], [-103, 72.8], [-101, 70], [-106, 68.8], [-115, 68.8], [-118, 69.5]],
+  ellesmere: [[-92, 76.5], [-80, 76.3], [-75, 78.5], [-64, 82], [-80, 83], [-95, 81], [-90, 79]],
+  cuba: [[-85, 21.9], [-82, 23.1], [-80, 23.1], [-77, 21.5], [-74.2, 20.2], [-77.5, 19.8], [-78, 20.7], [-81, 21.6]],
+  hispaniola: [[-74.4, 18.4], [-72.8, 19.9], [-70, 19.7], [-68.4, 18.6], [-71, 18.1]],
+  southAmerica: [[-77.4, 8.6], [-75.5, 10.7], [-72, 12], [-68, 10.6], [-63, 10.7], [-60, 8.5], [-57, 6], [-52, 5], [-50, 1.8], [-48.5, -1], [-44, -2.5], [-40, -2.8], [-35, -5.5], [-35, -9], [-38.5, -13], [-39, -17.5], [-40.5, -21], [-43, -23], [-48, -25.5], [-48.5, -28.5], [-51, -31], [-53.5, -34], [-57, -35], [-57.5, -38], [-62, -39], [-65, -41], [-64.5, -42.5], [-67.5, -46], [-66, -48], [-69, -51], [-68.5, -52.5], [-70, -54.5], [-74, -53], [-75.5, -48], [-74, -44], [-73.5, -41], [-73.5, -37], [-71.5, -32], [-71.3, -28], [-70.5, -23], [-70.3, -18.5], [-75, -15], [-77, -12], [-79.5, -7.5], [-81.2, -5], [-80, -2], [-80.5, 0.5], [-79, 1.5], [-77.3, 4], [-77.4, 7]],
+  greatBritain: [[-5.7, 50], [-3, 50.6], [1.4, 51.2], [1.7, 52.7], [0.3, 53.4], [-0.2, 54.2], [-1.5, 55.4], [-2.1, 57.2], [-1.8, 57.6], [-4, 57.6], [-3, 58.6], [-5, 58.6], [-6.2, 57.5], [-5.6, 56], [-4.9, 55], [-3, 54.9], [-3.5, 54], [-3, 53.3], [-4.6, 53.3], [-4.2, 52.2], [-5.2, 51.8], [-3.2, 51.4]],
+  ireland: [[-6.3, 52.2], [-6, 53.9], [-5.5, 54.5], [-7.2, 55.3], [-8.5, 55], [-10, 54.2], [-9.8, 53.3], [-10.3, 52], [-9.5, 51.5], [-8, 51.7]],
+  iceland: [[-22, 63.8], [-22.5, 64], [-24, 65.5], [-22, 66.4], [-16, 66.5], [-14.5, 65.8], [-13.6, 65], [-15, 64.3], [-18.5, 63.4]],
+  eurasia: [[-9, 43], [-9.3, 39], [-8.9, 37], [-6, 36.2], [-5.4, 36], [-2, 36.7], [0, 38.7], [0.5, 40.5], [3.2, 42], [3, 43.3], [6, 43.1], [8.5, 44.3], [10.5, 43.5], [12.5, 41.5], [15.6, 40], [16, 38], [17, 39], [18.5, 40.2], [16, 41.5], [13.5, 43.6], [12.3, 45.3], [13.8, 45.6], [15.5, 43.8], [19, 42], [19.5, 40], [21, 38], [22.5, 36.5], [23, 38], [24, 40.5], [26, 40.8], [29, 41.2], [26.3, 39], [27.3, 37], [29.5, 36.2], [32.5, 36.1], [36, 36.8], [35.8, 34.5], [35, 33], [34.3, 31.3], [34.9, 29.5], [36.7, 26], [39, 21.5], [41.5, 16], [43.3, 12.7], [45, 12.8], [49, 14], [52.2, 15.6], [55.5, 17.8], [57.8, 19], [59.8, 22.5], [58.5, 23.7], [56.4, 24.9], [56.3, 26.4], [54, 24.2], [51.6, 24.3], [51.5, 26], [50, 26.5], [48, 29.5], [50, 30], [51.5, 27.9], [54.5, 26.6], [57, 25.8], [61.5, 25.2], [66.5, 25.4], [67.5, 23.8], [70, 21], [72.8, 21], [72.8, 19], [73.5, 16], [74.8, 12.8], [76.3, 9.5], [77.5, 8], [78.2, 8.9], [79.9, 10.3], [80.3, 13.5], [80.2, 15.8], [82.3, 17], [84.9, 19.3], [86.9, 21.5], [88.5, 21.7], [90, 22], [91.8, 22.4], [92.3, 20.7], [94.3, 18.5], [94.5, 16], [97.7, 16.5], [98.5, 13], [98.6, 10], [98.3, 8], [100.3, 5.5], [101, 3], [103.5, 1.3], [104.3, 1.5], [103.4, 4], [102.3, 6.2], [100.4, 7.3], [100, 9.3], [99.2, 10.4], [100, 13.4], [100.9, 12.7], [102.5, 12], [104.8, 8.6], [106.7, 10.4], [109.2, 11.6], [109.3, 13.5], [108.7, 15.3], [106.5, 17.5], [105.7, 18.9], [106.7, 20.7], [108, 21.5], [111, 21.5], [113.5, 22.2], [116.5, 22.9], [119.5, 25.3], [121.5, 28.5], [122, 30.3], [121, 32], [120.5, 33.5], [119.2, 35], [120.8, 36.6], [122.5, 37], [121, 37.7], [118.9, 37.5], [118, 38.5], [117.6, 39], [119.5, 39.9], [121, 40.9], [124.4, 39.9], [125.2, 37.8], [126.5, 37.5], [126.3, 34.5], [127.5, 34.6], [129.3, 35.3], [129.4, 36.8], [128.3, 38.6], [127.5, 39.7], [129.7, 40.9], [130.7, 42.3], [132, 43.2], [133.2, 42.8], [135.5, 43.9], [138.5, 47], [140.5, 48.5], [141.4, 52.2], [140.5, 53.5], [137, 54], [135.2, 54.7], [137.7, 56.5], [142, 59.2], [146, 59.3], [151, 59], [155, 59.5], [156.5, 57.7], [156, 51], [158.3, 52.5], [160, 54], [162, 56], [163.2, 57.8], [162.5, 59], [164, 60], [170, 60], [174, 61.8], [180, 62.5], [180, 68.9], [178, 69.5], [172, 69.9], [168, 70], [161, 69.6], [160, 70.8], [152, 70.9], [146, 72.3], [140, 72.5], [130, 71], [128, 72.8], [123, 73.5], [113, 73.7], [110, 76.8], [104, 77.7], [98, 76], [88, 75.5], [80, 72.5], [76, 72], [72.5, 72.8], [69, 72.9], [66, 69.5], [60, 69], [55, 68.3], [44, 68.4], [41, 66.5], [38, 66], [33, 66.8], [36, 69], [30, 70.1], [25, 71.1], [18, 70], [14.5, 68.2], [12.5, 65.5], [8.8, 63.5], [5, 62], [5.5, 59], [7, 58], [10.5, 59.2], [11.5, 58.5], [12.6, 56.2], [14.3, 55.5], [16.5, 56.5], [18.5, 59.5], [17.2, 61.5], [17.8, 62.7], [21, 64.5], [25.3, 65.5], [22.5, 63.5], [21.3, 61.5], [22.5, 60.2], [27, 60.5], [30, 59.9], [28.2, 59.5], [24, 59.4], [23.5, 58], [24.3, 57.2], [21.5, 57], [21, 56], [19.9, 54.5], [14.2, 53.9], [11, 54.1], [10.3, 55.5], [10.5, 57.5], [9.9, 57.6], [8.1, 56.7], [8.6, 55.2], [8.7, 53.9], [7, 53.5], [4.8, 52.9], [3.5, 51.4], [1.6, 50.9], [0, 49.6], [-1.3, 49.6], [-1.9, 48.6], [-4.7, 48.5], [-4.2, 47.8], [-2.1, 47.2], [-1.2, 46], [-1.4, 44.5], [-1.8, 43.4], [-4, 43.5], [-8, 43.7]],
+  chukotka: [[-180, 64.5], [-172.5, 64.3], [-170, 66], [-174, 67], [-180, 68.9]],
+  svalbard: [[11, 78.5], [16.5, 80], [23, 80.3], [27, 78.8], [21, 77.4], [16.5, 76.5], [13, 78]],
+  novayaZemlya: [[52, 71.5], [56, 73.5], [60, 76.2], [68, 76.9], [65.5, 75.5], [58, 72], [57, 70.5], [53, 70.8]],
+  africa: [[-5.9, 35.8], [-2, 35.1], [3, 36.8], [10, 37.3], [11, 35.5], [10, 34], [11.5, 33.2], [15.2, 32.3], [19, 30.3], [20, 31], [20, 32.5], [23, 32.6], [25, 31.7], [29, 30.9], [32.3, 31.3], [34.2, 31.3], [34.9, 29.5], [33.8, 27.5], [35.5, 24], [37.2, 21], [38.5, 18], [39.7, 15.2], [41.5, 13.5], [43.3, 11.6], [44.5, 10.4], [51, 11.9], [51.2, 10.4], [49.8, 7], [47.9, 4.5], [45, 1.7], [42, -1], [40.3, -2.6], [39, -5], [39.3, -8], [40.5, -10.5], [40.6, -15], [37, -17.8], [35.3, -22], [35.5, -24], [32.9, -26.2], [32.4, -29], [30, -31.5], [27.5, -33.5], [25.6, -34], [22, -34.2], [20, -34.8], [18.4, -34], [18.2, -32], [17.2, -29], [15.2, -27], [14.5, -23], [13, -20], [11.8, -17.2], [12.2, -14], [13.7, -11], [13, -8.5], [12.2, -6], [11.8, -4], [9, -1], [9.4, 1.5], [9.7, 3.5], [8.5, 4.5], [6, 4.3], [4.5, 6.3], [2, 6.3], [-1, 5], [-3, 5.1], [-7.5, 4.4], [-10, 6], [-13, 8], [-15.5, 11], [-16.8, 13], [-17.2, 14.8], [-16.5, 16.5], [-16, 19.5], [-17, 21], [-15, 24], [-13, 27.3], [-10, 29], [-9.7, 30.8], [-9.3, 32.5], [-6.8, 34]],
+  madagascar: [[49.3, -12], [50.5, -15.5], [49.5, -17.5], [48, -22], [47, -25], [45.2, -25.5], [43.7, -23.5], [44.5, -20], [44, -17], [46.5, -15.7], [48, -14]],
+  sriLanka: [[79.8, 8], [80.1, 9.8], [81.9, 7.4], [81.1, 6.2], [80, 6.1]],
+  japan: [[130.2, 31.2], [131.3, 31.4], [132, 33.8], [134.7, 33.8], [135.7, 33.5], [136.9, 34.3], [138.8, 34.6], [140, 35.1], [140.9, 36.5], [141, 38.3], [142, 39.6], [141.5, 41.4], [140, 40.8], [139.9, 39.5], [139.3, 38], [137.2, 37], [136.5, 37.2], [135.8, 35.6], [133, 35.5], [131, 34.3], [129.8, 33.3]],
+  hokkaido: [[140, 41.5], [141.2, 41.8], [143.3, 42], [145.5, 43.3], [145, 44.2], [141.9, 45.5], [141.6, 44], [140.4, 43.3]],
+  sakhalin: [[142, 46], [143.5, 46.7], [143, 49.5], [144.5, 49], [143, 51.8], [143, 54], [142.5, 54.3], [142, 51.8], [141.8, 48]],
+  taiwan: [[120.1, 23], [120.8, 21.9], [121.9, 24.8], [121.5, 25.3], [120.2, 23.8]],
+  hainan: [[108.6, 19.2], [110, 18.3], [111, 19.6], [110.2, 20.1], [108.7, 19.9]],
+  luzon: [[119.8, 16], [120.6, 18.5], [122.2, 18.5], [122.5, 16.5], [121.6, 15.8], [124, 13], [123.3, 12.9], [120.6, 14.3]],
+  mindanao: [[122, 7], [123.5, 7.7], [124.3, 8.5], [125.5, 9.8], [126.6, 7.3], [125.5, 5.6], [124, 6.3]],
+  borneo: [[109, 1.5], [109.6, 2], [111.5, 2.5], [113, 3.2], [115.5, 5.2], [117, 7], [119.2, 5.2], [118, 4.3], [118, 1], [117.5, 0], [116.5, -2], [116, -3.8], [114.5, -4], [111.5, -3.4], [110.2, -2.9], [109.3, -0.5]],
+  sumatra: [[95.3, 5.6], [97.5, 5.2], [100.5, 2], [103.8, -1], [106, -3], [105.8, -5.8], [104.5, -5.9], [101.5, -3], [99.3, 0], [97.7, 2]],
+  java: [[105.2, -6.8], [106.5, -6], [108.5, -6.7], [111, -6.5], [112.7, -6.9], [114.5, -7.8], [114.5, -8.7], [111, -8.2], [108, -7.8], [105.5, -6.9]],
+  sulawesi: [[119.4, -5.6], [119.4, -1], [120.8, 1.3], [124.8, 1.5], [121, 0.6], [121, -1], [123, -1], [121.5, -2], [122.6, -4.6], [121, -4.5], [120.5, -5.6]],
+  newGuinea: [[131, -1.3], [134, -0.8], [136, -2.2], [138, -1.6], [141, -2.6], [144.5, -3.8], [146, -5.5], [147.8, -6.2], [147.5, -8], [150, -10.3], [147, -10.1], [145, -7.8], [143.5, -9], [141, -9.1], [139, -8.1], [138, -8.4], [137.8, -5.3], [135, -4.4], [132.8, -4], [132, -2.8]],
+  australia: [[113.8, -22], [114, -26.5], [115, -30], [115, -33.7], [117.5, -35], [123, -33.9], [126, -32.3], [131, -31.5], [134, -32.7], [135.9, -34.8], [138, -33], [138.5, -35.6], [140, -37.5], [141.5, -38.4], [144.5, -38.2], [146.3, -39], [150, -37.5], [151, -34], [153, -31.5], [153.5, -28], [153, -25], [150.8, -22.5], [149, -20.5], [146.3, -18.5], [145.3, -15], [143.5, -14], [142.5, -10.7], [141.5, -13], [141.6, -17], [140, -17.7], [137, -16], [135.5, -15], [136.8, -12.3], [132.5, -11.3], [130.3, -12.3], [129.5, -14.9], [127.8, -14.2], [125.2, -14.7], [123, -16.5], [122, -18.2], [121, -19.5], [117, -20.7]],
+  tasmania: [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146.8, -43.6], [145.2, -42.2]],
+  newZealandNorth: [[172.7, -34.4], [174.5, -36], [176, -37.6], [178.5, -37.7], [178, -39.4], [176.8, -40], [175.2, -41.6], [174.6, -39.9], [173.8, -39.2], [174.7, -37.5]],
+  newZealandSouth: [[172.7, -40.5], [174.3, -41.7], [173.3, -43], [172.8, -43.8], [171.2, -44.3], [170.6, -45.9], [169, -46.6], [166.5, -46], [166.8, -45], [168.3, -44], [170.5, -42.9], [171.5, -41.7]],
+};
+
+// Drawn white instead of by latitude
+const ICE = {
+  greenland: [[-73, 78], [-67, 80.5], [-60, 82], [-40, 83.5], [-22, 82.5], [-18, 80], [-19, 76], [-22, 72], [-22, 70], [-26, 68.5], [-32, 68], [-38, 65.5], [-42, 61.5], [-44, 60], [-48, 61], [-51, 64], [-53, 66.5], [-54, 70], [-55, 72.5], [-58, 75.5], [-66, 76.5]],
+  antarctica: [[-180, -90], [180, -90], [180, -77.5], [170, -71.5], [160, -69.5], [140, -66.5], [120, -66.5], [100, -66], [80, -67.5], [70, -69], [60, -67], [40, -69], [20, -70], [0, -70], [-20, -73], [-35, -77.8], [-50, -77], [-60, -74], [-58, -64], [-57, -63.3], [-62, -64.5], [-66, -68], [-68, -72], [-75, -73], [-90, -72.5], [-100, -74], [-120, -74], [-140, -75.5], [-150, -77], [-160, -78.5], [-180, -77.5]],
+};
+
+// Inland seas cut back out of the land
+const WATER = {
+  blackSea: [[28, 41.5], [28.6, 43.5], [30, 45.8], [33, 46.2], [32.5, 45.3], [33.5, 44.4], [36.5, 45.3], [38, 47.1], [39.5, 47], [38, 44.8], [40, 43.4], [41.6, 41.6], [38, 40.9], [35, 42], [33, 41.9], [31, 41.1], [29, 41.2]],
+  caspian: [[47, 44.8], [47.5, 45.6], [49.5, 46.4], [51.5, 47], [53.5, 46.5], [53, 45], [51.3, 44.5], [52.8, 42], [53.9, 40.7], [54, 38], [53.9, 37], [51, 36.7], [49, 37.6], [49.5, 40.3], [48.5, 41.8], [47.5, 43]],
+};
+
+// --- Rasterizing ---
+
+// Coverage (0..1) of each pixel by the union of `rings`, scanline-filled with the even-odd rule
+const coverage = (rings) => {
+  const columns = WIDTH * SUPERSAMPLE;
+  const result = new Float32Array(WIDTH * HEIGHT);
+  const row = new Uint8Array(columns);
+  for (let sy = 0; sy < HEIGHT * SUPERSAMPLE; sy++) {
+    const lat = 90 - ((sy + 0.5) / (HEIGHT * SUPERSAMPLE)) * 180;
+    row.fill(0);
+    for (const ring of rings) {
+      const crossings = [];
+      ring.forEach(([lon1, lat1], i) => {
+        const [lon2, lat2] = ring[(i + 1) % ring.length];
+        if ((lat1 <= lat) !== (lat2 <= lat)) crossings.push(lon1 + ((lat - lat1) / (lat2 - lat1)) * (lon2 - lon1));
+      });
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const from = Math.max(0, Math.ceil(((crossings[i] + 180) / 360) * columns - 0.5));
+        const to = Math.min(columns - 1, Math.floor(((crossings[i + 1] + 180) / 360) * columns - 0.5));
+        for (let x = from; x <= to; x++) row[x] = 1;
+      }
+    }
+    const y = Math.floor(sy / SUPERSAMPLE);
+    for (let x = 0; x < columns; x++) result[y * WIDTH + Math.floor(x / SUPERSAMPLE)] += row[x];
+  }
+  return result.map(count => count / (SUPERSAMPLE * SUPERSAMPLE));
+};
+
+// Box blur that wraps around in longitude
+const blur = (values, radius) => {
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= HEIGHT) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          sum += values[yy * WIDTH + ((x + dx + WIDTH) % WIDTH)];
+          count++;
+        }
+      }
+      out[y * WIDTH + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+const mix = (a, b, t) => a.map((value, i) => value + (b[i] - value) * t);
+const smoothstep = (edge0, edge1, x) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+// 1 inside the box, fading to 0 over `soft` degrees
+const region = (lat, lon, [west, south, east, north], soft = 8) =>
+  smoothstep(west - soft, west + soft, lon) * (1 - smoothstep(east - soft, east + soft, lon)) *
+  smoothstep(south - soft, south + soft, lat) * (1 - smoothstep(north - soft, north + soft, lat));
+
+// Vegetation bands by latitude, [|lat|, rgb]
+const BANDS = [[0, [34, 78, 34]], [12, [62, 92, 42]], [22, [118, 116, 72]], [35, [78, 98, 52]], [55, [56, 76, 50]], [66, [112, 110, 96]], [75, [200, 200, 200]]];
+// [west, south, east, north]
+const DESERTS = [[-12, 17, 52, 29], [44, 17, 56, 28], [58, 38, 108, 44], [122, -29, 138, -22], [-114, 30, -106, 35]];
+const SAND = [196, 170, 120];
+
+const landColor = (lat, lon) => {
+  const a = Math.abs(lat);
+  const next = BANDS.findIndex(([edge]) => edge > a);
+  const [edge0, color0] = BANDS[next === -1 ? BANDS.length - 1 : next - 1];
+  const [edge1, color1] = BANDS[next === -1 ? BANDS.length - 1 : next];
+  const base = mix(color0, color1, edge1 > edge0 ? smoothstep(edge0, edge1, a) : 0);
+  const desert = Math.max(...DESERTS.map(box => region(lat, lon, box)));
+  return mix(base, SAND, desert * 0.85);
+};
+
+const DEEP_OCEAN = [8, 26, 58];
+const SHELF = [22, 66, 104];
+const ICE_COLOR = [236, 240, 245];
+const CITY_LIGHT = [255, 204, 130];
+
+// --- PNG encoding (8-bit RGB, no interlace) ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes) => {
+  let c = 0xffffffff;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const encodePng = (rgb) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(WIDTH, 0);
+  header.writeUInt32BE(HEIGHT, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour
+  const raw = Buffer.alloc(HEIGHT * (WIDTH * 3 + 1));
+  for (let y = 0; y < HEIGHT; y++) {
+    raw[y * (WIDTH * 3 + 1)] = 0; // no filter
+    for (let i = 0; i < WIDTH * 3; i++) raw[y * (WIDTH * 3 + 1) + 1 + i] = Math.round(Math.max(0, Math.min(255, rgb[y * WIDTH * 3 + i])));
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw, { level: 9 })),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+// --- Textures ---
+
+const water = coverage(Object.values(WATER));
+const ice = coverage(Object.values(ICE)).map((value, i) => value * (1 - water[i]));
+const land = coverage(Object.values(LAND)).map((value, i) => Math.min(1 - ice[i], value * (1 - water[i])));
+const solid = land.map((value, i) => value + ice[i]);
+const nearLand = blur(solid, 3);
+
+const pixelLatLon = (i) => ({
+  lat: 90 - ((Math.floor(i / WIDTH) + 0.5) / HEIGHT) * 180,
+  lon: ((i % WIDTH + 0.5) / WIDTH) * 360 - 180,
+});
+
+const albedo = new Float32Array(WIDTH * HEIGHT * 3);
+const specular = new Float32Array(WIDTH * HEIGHT * 3);
+for (let i = 0; i < WIDTH * HEIGHT; i++) {
+  const { lat, lon } = pixelLatLon(i);
+  const ocean = mix(DEEP_OCEAN, SHELF, smoothstep(0, 0.6, nearLand[i]));
+  const color = mix(mix(ocean, landColor(lat, lon), land[i] / Math.max(solid[i], 1e-6)), ICE_COLOR, ice[i] / Math.max(solid[i], 1e-6));
+  mix(ocean, color, solid[i]).forEach((value, c) => { albedo[i * 3 + c] = value; });
+  // Open water glints; land and ice are matte
+  specular.fill(255 * (1 - solid[i]), i * 3, i * 3 + 3);
+}
+
+// City rows in data/gazetteer.ts: ['Name', 'Country', lat, lon]
+const cities = [...readFileSync(join(root, 'data', 'gazetteer.ts'), 'utf8').matchAll(/\['[^']+', '[^']+', (-?[\d.]+), (-?[\d.]+)\]/g)]
+  .map(([, lat, lon]) => ({ lat: Number(lat), lon: Number(lon) }));
+const lights = new Float32Array(WIDTH * HEIGHT);
+// Faint glow over all land so the continents read at night, brighter around each city
+land.forEach((value, i) => { lights[i] = value * 0.04; });
+for (const { lat, lon } of cities) {
+  const cx = ((lon + 180) / 360) * WIDTH;
+  const cy = ((90 - lat) / 180) * HEIGHT;
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const x = Math.floor(cx) + dx;
+      const y = Math.floor(cy) + dy;
+      if (y < 0 || y >= HEIGHT) continue;
+      const d2 = (x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2;
+      lights[y * WIDTH + ((x + WIDTH) % WIDTH)] += Math.exp(-d2 / 2);
+    }
+  }
+}
+const night = new Float32Array(WIDTH * HEIGHT * 3);
+lights.forEach((value, i) => CITY_LIGHT.forEach((channel, c) => { night[i * 3 + c] = channel * Math.min(1, value); }));
+
+mkdirSync(target, { recursive: true });
+for (const [file, rgb] of [['earth_atmos_512.png', albedo], ['earth_specular_512.png', specular], ['earth_lights_512.png', night]]) {
+  writeFileSync(join(target, file), encodePng(rgb));
+  console.log(`Wrote ${join(target, file)}`);
+}
+console.log(`${cities.length} city lights`);
@@ -0,0 +1,210 @@
+// Local relay for presenter/audience sessions (see services/sessionSync.ts).
+// Dependency-free: a minimal WebSocket server (RFC 6455, text frames only) on
+// node:http. Clients join a named room; the controller's view and snapshot
+// messages are forwarded to everyone else in the room, and the latest of each
+// is replayed to late joiners.
+//
+//   node scripts/session-relay.mjs [port]     (default 8787, or SESSION_RELAY_PORT)
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.argv[2] ?? process.env.SESSION_RELAY_PORT ?? 8787);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+// --- WebSocket framing ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Passes each complete frame in `buffer` to `onFrame`, returning the unconsumed remainder
+const readFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Frame too large');
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = buffer.subarray(cursor, cursor + maskLength);
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(fin, opcode, payload);
+    offset = cursor + maskLength + length;
+  }
+  return buffer.subarray(offset);
+};
+
+// --- Rooms ---
+
+// room name -> { name, peers: Map<id, peer>, controllerId, presenterId, lastView, lastSnapshot }
+const rooms = new Map();
+let nextId = 1;
+
+const send = (peer, message) => {
+  if (!peer.socket.destroyed) peer.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+};
+
+const broadcastRoster = (room) => {
+  const roster = {
+    peers: [...room.peers.values()].map(({ id, name, raised }) => ({ id, name, raised })),
+    controllerId: room.controllerId,
+    presenterId: room.presenterId,
+  };
+  room.peers.forEach(peer => send(peer, { type: 'roster', roster }));
+};
+
+const handleMessage = (peer, message) => {
+  if (message.type === 'join') {
+    if (peer.room) return;
+    const name = String(message.room ?? '').trim().slice(0, 64) || 'default';
+    if (!rooms.has(name)) rooms.set(name, { name, peers: new Map(), controllerId: null, presenterId: null, lastView: null, lastSnapshot: null });
+    const room = rooms.get(name);
+    peer.room = room;
+    peer.name = String(message.name ?? '').trim().slice(0, 32) || `Display ${peer.id}`;
+    room.peers.set(peer.id, peer);
+    send(peer, { type: 'welcome', id: peer.id });
+    if (room.lastSnapshot) send(peer, room.lastSnapshot);
+    if (room.lastView) send(peer, room.lastView);
+    broadcastRoster(room);
+    console.log(`${peer.name} joined "${name}" (${room.peers.size} connected)`);
+    return;
+  }
+
+  const room = peer.room;
+  if (!room) return;
+  const isController = room.controllerId === peer.id;
+
+  switch (message.type) {
+    case 'claim':
+      // Free control goes to whoever asks first, who becomes the presenter; the presenter can always take it back
+      if (room.controllerId && room.presenterId !== peer.id) return send(peer, { type: 'error', message: 'Another display has control' });
+      room.controllerId = peer.id;
+      room.presenterId ??= peer.id;
+      peer.raised = false;
+      break;
+    case 'handoff': {
+      const target = room.peers.get(message.to);
+      if (!isController || !target) return;
+      room.controllerId = target.id;
+      target.raised = false;
+      break;
+    }
+    case 'release':
+      if (!isController) return;
+      room.controllerId = null;
+      break;
+    case 'raise':
+      peer.raised = !!message.raised && !isController;
+      break;
+    case 'view':
+    case 'snapshot':
+      if (!isController) return;
+      if (message.type === 'view') room.lastView = message;
+      else room.lastSnapshot = message;
+      room.peers.forEach(other => other !== peer && send(other, message));
+      return;
+    default:
+      return;
+  }
+  broadcastRoster(room);
+};
+
+const leave = (peer) => {
+  const room = peer.room;
+  if (!room || !room.peers.delete(peer.id)) return;
+  console.log(`${peer.name} left (${room.peers.size} connected)`);
+  if (room.peers.size === 0) {
+    rooms.delete(room.name);
+    return;
+  }
+  if (room.presenterId === peer.id) room.presenterId = null;
+  // Control falls back to the presenter rather than going to an arbitrary display
+  if (room.controllerId === peer.id) room.controllerId = room.presenterId;
+  broadcastRoster(room);
+};
+
+// --- Server ---
+
+const server = createServer((_, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end(`HoloEarth session relay: ${rooms.size} room(s) open\n`);
+});
+
+server.on('upgrade', (request, socket, head) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+  socket.setNoDelay(true);
+
+  const peer = { id: String(nextId++), name: '', raised: false, room: null, socket };
+  let pending = Buffer.alloc(0);
+  // Text message being reassembled from continuation frames, and its size so far
+  let fragments = [];
+  let fragmentBytes = 0;
+
+  const onData = (chunk) => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), (fin, opcode, payload) => {
+        if (opcode === 0x8) return socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+        if (opcode === 0x9) return socket.write(encodeFrame(0xa, payload));
+        if (opcode !== 0x1 && opcode !== 0x0) return;
+        if (opcode === 0x0 && fragments.length === 0) throw new Error('Continuation frame without a message');
+        if (opcode === 0x1 && fragments.length > 0) throw new Error('New message inside a fragmented one');
+        fragmentBytes += payload.length;
+        if (fragmentBytes > MAX_MESSAGE_BYTES) throw new Error('Message too large');
+        fragments.push(payload);
+        if (!fin) return;
+        const text = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+        fragmentBytes = 0;
+        let message;
+        try {
+          message = JSON.parse(text);
+        } catch {
+          return;
+        }
+        if (message && typeof message.type === 'string') handleMessage(peer, message);
+      });
+    } catch (error) {
+      console.error(`Dropping ${peer.name || 'client'}: ${error.message}`);
+      socket.destroy();
+    }
+  };
+  // Frames sent right behind the handshake arrive with the request rather than as data
+  if (head.length > 0) onData(head);
+  socket.on('data', onData);
+  socket.on('close', () => leave(peer));
+  socket.on('error', () => leave(peer));
+});
+
+server.listen(PORT, () => console.log(`Session relay listening on ws://localhost:${PORT}`));
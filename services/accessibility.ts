@@ -0,0 +1,20 @@
+const REDUCED_MOTION_KEY = 'holoearth-reduced-motion';
+
+// The saved choice wins; otherwise follow the OS "reduce motion" setting
+export const loadReducedMotion = (): boolean => {
+  try {
+    const stored = localStorage.getItem(REDUCED_MOTION_KEY);
+    if (stored !== null) return stored === 'true';
+  } catch (error) {
+    console.error("Motion preference load failed:", error);
+  }
+  return window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+};
+
+export const saveReducedMotion = (reduced: boolean) => {
+  try {
+    localStorage.setItem(REDUCED_MOTION_KEY, String(reduced));
+  } catch (error) {
+    console.error("Motion preference save failed:", error);
+  }
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { filterQuakes, parseQuakeFeed } from './earthquakes';
+
+const HOUR = 3600 * 1000;
+const NOW = Date.UTC(2024, 0, 15);
+
+const quake = (id: string, coordinates: unknown, properties: object) => ({
+  type: 'Feature',
+  id,
+  geometry: { type: 'Point', coordinates },
+  properties: { type: 'earthquake', time: NOW - HOUR, ...properties },
+});
+
+const feed = (...features: unknown[]) => ({ type: 'FeatureCollection', features });
+
+describe('parseQuakeFeed', () => {
+  it('reads USGS point features', () => {
+    const [parsed] = parseQuakeFeed(feed(
+      quake('us7000abcd', [142.37, 38.3, 29], { mag: 6.1, place: 'off the east coast of Honshu', url: 'https://earthquake.usgs.gov/x', tsunami: 1 })
+    ));
+    expect(parsed).toEqual({
+      id: 'us7000abcd',
+      location: { lat: 38.3, lon: 142.37 },
+      magnitude: 6.1,
+      depthKm: 29,
+      time: NOW - HOUR,
+      place: 'off the east coast of Honshu',
+      url: 'https://earthquake.usgs.gov/x',
+      tsunami: true,
+    });
+  });
+
+  it('fills in what a feature leaves out', () => {
+    const [parsed] = parseQuakeFeed(feed({ geometry: { type: 'Point', coordinates: [0, 0] }, properties: { mag: 3, time: '2024-01-14T23:00:00Z' } }));
+    expect(parsed).toMatchObject({ id: 'quake-0', depthKm: 0, place: 'Unnamed location', url: undefined, tsunami: false, time: NOW - HOUR });
+  });
+
+  it('skips features that are not usable earthquakes', () => {
+    const parsed = parseQuakeFeed(feed(
+      null,
+      quake('blast', [10, 10], { mag: 2, type: 'quarry blast' }),
+      quake('no-mag', [10, 10], {}),
+      { id: 'line', geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] }, properties: { mag: 4 } },
+      quake('ok', [10, 10], { mag: 4 })
+    ));
+    expect(parsed.map(q => q.id)).toEqual(['ok']);
+  });
+
+  it('rejects anything but a feed with earthquakes in it', () => {
+    expect(() => parseQuakeFeed(null)).toThrow('Not a USGS earthquake feed');
+    expect(() => parseQuakeFeed({ type: 'Feature' })).toThrow('Not a USGS earthquake feed');
+    expect(() => parseQuakeFeed(feed(quake('no-mag', [0, 0], {})))).toThrow('Feed contains no earthquakes');
+  });
+});
+
+describe('filterQuakes', () => {
+  it('keeps quakes above the magnitude inside the window ending at the clock', () => {
+    const quakes = parseQuakeFeed(feed(
+      quake('recent', [0, 0], { mag: 5, time: NOW - HOUR }),
+      quake('small', [0, 0], { mag: 1, time: NOW - HOUR }),
+      quake('old', [0, 0], { mag: 5, time: NOW - 48 * HOUR }),
+      quake('future', [0, 0], { mag: 5, time: NOW + HOUR })
+    ));
+    expect(filterQuakes(quakes, { minMagnitude: 2.5, windowHours: 24 }, NOW).map(q => q.id)).toEqual(['recent']);
+    expect(filterQuakes(quakes, { minMagnitude: 2.5, windowHours: null }, NOW).map(q => q.id)).toEqual(['recent', 'old', 'future']);
+  });
+});
@@ -0,0 +1,95 @@
+import { Earthquake, LocationContext, SeismicFeed, SeismicFilter } from "../types";
+import { isRecord, parseJson } from "../utils/json";
+
+// Any USGS summary feed works, e.g. .../summary/all_day.geojson; a local copy keeps it offline
+export const DEFAULT_QUAKE_FEED = process.env.QUAKE_FEED_URL || 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_week.geojson';
+
+export const DEFAULT_SEISMIC_FILTER: SeismicFilter = { minMagnitude: 2.5, windowHours: 24 * 7 };
+
+export const QUAKE_WINDOWS: { label: string; hours: number | null }[] = [
+  { label: '1H', hours: 1 },
+  { label: '24H', hours: 24 },
+  { label: '7D', hours: 24 * 7 },
+  { label: '30D', hours: 24 * 30 },
+  { label: 'ALL', hours: null },
+];
+
+const HOUR_MS = 3600 * 1000;
+
+// Features that aren't earthquakes with a usable point and magnitude are skipped
+export const parseQuakeFeed = (json: unknown): Earthquake[] => {
+  if (!isRecord(json) || json.type !== 'FeatureCollection' || !Array.isArray(json.features)) {
+    throw new Error("Not a USGS earthquake feed (expected a GeoJSON FeatureCollection)");
+  }
+  const quakes: Earthquake[] = [];
+  json.features.forEach((feature: unknown, index: number) => {
+    if (!isRecord(feature)) return;
+    const geometry = isRecord(feature.geometry) ? feature.geometry : {};
+    const [lon, lat, depth]: unknown[] = geometry.type === 'Point' && Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+    const p = isRecord(feature.properties) ? feature.properties : {};
+    if (typeof lat !== 'number' || typeof lon !== 'number' || typeof p.mag !== 'number') return;
+    if (p.type && p.type !== 'earthquake') return;
+    quakes.push({
+      id: String(feature.id ?? `quake-${index}`),
+      location: { lat, lon },
+      magnitude: p.mag,
+      depthKm: typeof depth === 'number' ? depth : 0,
+      time: typeof p.time === 'number' ? p.time : Date.parse(String(p.time)),
+      place: typeof p.place === 'string' && p.place ? p.place : 'Unnamed location',
+      url: typeof p.url === 'string' ? p.url : undefined,
+      tsunami: p.tsunami === 1,
+    });
+  });
+  if (quakes.length === 0) throw new Error("Feed contains no earthquakes");
+  return quakes;
+};
+
+export const loadQuakesFromUrl = async (url: string): Promise<SeismicFeed> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${url}`);
+  return { source: url, fetchedAt: Date.now(), quakes: parseQuakeFeed(await response.json()) };
+};
+
+export const loadQuakesFromFile = async (file: File): Promise<SeismicFeed> =>
+  ({ source: file.name, fetchedAt: Date.now(), quakes: parseQuakeFeed(parseJson(await file.text())) });
+
+// The window ends at the simulation time, so rewinding the clock hides later events
+export const filterQuakes = (quakes: Earthquake[], filter: SeismicFilter, nowMs: number) =>
+  quakes.filter(quake =>
+    quake.magnitude >= filter.minMagnitude &&
+    (filter.windowHours === null || (quake.time <= nowMs && quake.time >= nowMs - filter.windowHours * HOUR_MS))
+  );
+
+// Marker radius in scene units; grows with energy rather than linearly with magnitude
+export const quakeMarkerSize = (magnitude: number) => 0.012 + 0.006 * Math.pow(1.5, Math.max(0, magnitude - 2));
+
+// USGS-style depth colouring: shallow quakes are hot, deep ones cool
+export const quakeDepthColor = (depthKm: number) => {
+  if (depthKm < 33) return '#ff3b30';
+  if (depthKm < 70) return '#ff9500';
+  if (depthKm < 150) return '#ffcc00';
+  if (depthKm < 300) return '#34c759';
+  if (depthKm < 500) return '#0a84ff';
+  return '#bf5af2';
+};
+
+export const QUAKE_DEPTH_LEGEND = [
+  { label: '0-33', color: quakeDepthColor(0) },
+  { label: '33-70', color: quakeDepthColor(33) },
+  { label: '70-150', color: quakeDepthColor(70) },
+  { label: '150-300', color: quakeDepthColor(150) },
+  { label: '300-500', color: quakeDepthColor(300) },
+  { label: '500+', color: quakeDepthColor(500) },
+];
+
+// Event attributes handed to the location analysis so the report explains this quake
+export const quakeContext = (quake: Earthquake): LocationContext => ({
+  title: `M${quake.magnitude.toFixed(1)} earthquake, ${quake.place}`,
+  properties: {
+    magnitude: quake.magnitude,
+    depthKm: Number(quake.depthKm.toFixed(1)),
+    time: new Date(quake.time).toISOString(),
+    tsunamiFlag: quake.tsunami,
+    source: quake.url ?? null,
+  },
+});
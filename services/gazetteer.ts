@@ -0,0 +1,53 @@
+import { GAZETTEER, GazetteerEntry } from "../data/gazetteer";
+import { LocationData } from "../types";
+import { haversineKm } from "../utils/geodesy";
+
+export type { GazetteerEntry };
+
+export interface NearestPlace {
+  place: GazetteerEntry;
+  distanceKm: number;
+}
+
+// Beyond this a city is no longer a useful label, so we report the country instead
+const CITY_RADIUS_KM = 250;
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const nearestOfKind = (location: LocationData, kind: GazetteerEntry['kind']): NearestPlace | null => {
+  let best: NearestPlace | null = null;
+  for (const place of GAZETTEER) {
+    if (place.kind !== kind) continue;
+    const d = haversineKm(location, place);
+    if (!best || d < best.distanceKm) best = { place, distanceKm: d };
+  }
+  return best;
+};
+
+// Reverse geocode: nearest major city if one is close, otherwise nearest country centroid
+export const nearestPlace = (location: LocationData): NearestPlace | null => {
+  const city = nearestOfKind(location, 'city');
+  if (city && city.distanceKm <= CITY_RADIUS_KM) return city;
+  return nearestOfKind(location, 'country') ?? city;
+};
+
+// Prefix matches rank above substring matches; cities above countries on ties
+export const searchPlaces = (query: string, limit = 8): GazetteerEntry[] => {
+  const q = normalize(query);
+  if (!q) return [];
+
+  return GAZETTEER
+    .map(place => {
+      const name = normalize(place.name);
+      const score = name === q ? 0 : name.startsWith(q) ? 1 : name.includes(q) ? 2 : normalize(place.country).startsWith(q) ? 3 : -1;
+      return { place, score };
+    })
+    .filter(match => match.score >= 0)
+    .sort((a, b) => a.score - b.score || (a.place.kind === b.place.kind ? a.place.name.localeCompare(b.place.name) : a.place.kind === 'city' ? -1 : 1))
+    .slice(0, limit)
+    .map(match => match.place);
+};
+
+export const describePlace = (place: GazetteerEntry) =>
+  place.kind === 'city' ? `${place.name}, ${place.country}` : place.name;
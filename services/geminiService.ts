@@ -1,68 +1,226 @@
-import { GoogleGenAI } from "@google/genai";
-import { EarthCategory, GeminiResponse } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const fetchEarthData = async (category: EarthCategory, query?: string): Promise<GeminiResponse> => {
-  try {
-    const prompt = `
-      You are a futuristic planetary database interface (JARVIS style).
-      Generate a concise, scientific, yet engaging summary about Earth's ${category}.
-      ${query ? `Specific focus: ${query}` : ''}
-      
-      Keep it under 100 words. 
-      Format the response as raw text, no markdown bolding, just clean text for a HUD display.
-      Tone: Analytical, sophisticated, educational.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 0 } 
-      }
-    });
+import { Content, GoogleGenAI, GenerateContentConfig, GenerateContentResponse } from "@google/genai";
+import { ChatTurn, ComparisonTarget, EarthCategory, FollowUpContext, GeminiResponse, KnowledgeProvider, LocationContext, StreamOptions } from "../types";
+import { fallbackReportText, formatLocationReport, parseLocationReport } from "./locationReport";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+interface PromptRequest {
+  contents: string;
+  config: GenerateContentConfig;
+}
+
+// --- Prompts ---
+const earthDataRequest = (category: EarthCategory, query?: string): PromptRequest => ({
+  contents: `
+    You are a futuristic planetary database interface (JARVIS style).
+    Generate a concise, scientific, yet engaging summary about Earth's ${category}.
+    ${query ? `Specific focus: ${query}` : ''}
 
-    return { text: response.text || "Database unreachable." };
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return { text: "Error establishing uplink with Knowledge Core." };
+    Keep it under 100 words.
+    Format the response as raw text, no markdown bolding, just clean text for a HUD display.
+    Tone: Analytical, sophisticated, educational.
+  `,
+  config: {
+    thinkingConfig: { thinkingBudget: 0 }
   }
+});
+
+// Shape of the location report. Structured output can't be combined with the search
+// tool, so this is spelled out in the prompt and the reply is validated afterwards.
+const LOCATION_REPORT_FIELDS: Record<string, string> = {
+  regionName: 'string: name of the region, city or body of water',
+  country: 'string or null: country, null over open ocean / Antarctica',
+  climateZone: "string: Koppen-style climate zone, e.g. 'Temperate Oceanic'",
+  temperatureC: 'number: current air temperature in Celsius, from search results',
+  conditions: "string: current weather conditions, e.g. 'light rain, 20 km/h W wind'",
+  populationEstimate: 'integer or null: estimated population, null if uninhabited',
+  fact: 'string: one brief historical or scientific fact, under 40 words',
+  confidence: 'number: confidence in the identification from 0 to 1',
 };
 
-export const analyzeLocation = async (lat: number, lon: number): Promise<GeminiResponse> => {
-  try {
-    const prompt = `
-      Identify the geographical region at Latitude ${lat.toFixed(2)}, Longitude ${lon.toFixed(2)}.
-      Provide a real-time status report including:
-      1. Current Weather conditions (use the search tool).
-      2. Estimated Population (if applicable to the region).
-      3. One brief historical or scientific fact.
-
-      Keep the total response under 100 words.
-      Style: HUD Data Stream.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }] // Enable Google Search for real-time weather
-      }
-    });
-
-    // Extract grounding sources if available
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    const sources = groundingChunks
-      ?.map(chunk => chunk.web ? { uri: chunk.web.uri, title: chunk.web.title } : null)
-      .filter(source => source !== null) as { uri: string; title: string }[];
-
-    return { 
-      text: response.text || "Signal lost. Unable to scan coordinates.",
-      sources: sources
-    };
-  } catch (error) {
-    console.error("Gemini Location Error:", error);
-    return { text: "Telemetry link failed." };
+// Search-grounded so the weather is current and the panel can cite sources
+const locationRequest = (lat: number, lon: number, context?: LocationContext): PromptRequest => ({
+  contents: `
+    Identify the geographical region at Latitude ${lat.toFixed(2)}, Longitude ${lon.toFixed(2)}.
+    ${context ? `The operator selected "${context.title}" with these attributes: ${JSON.stringify(context.properties)}.
+    Use them to identify the subject and make the fact about it.` : ''}
+    Provide a real-time status report for a HUD display: current weather conditions
+    (use the search tool), estimated population (if applicable) and one brief fact.
+
+    Reply with a single JSON object and nothing else, with exactly these keys:
+    ${Object.entries(LOCATION_REPORT_FIELDS).map(([key, description]) => `"${key}": ${description}`).join('\n    ')}
+  `,
+  config: {
+    tools: [{ googleSearch: {} }]
+  }
+});
+
+// Validates the JSON report; invalid or partial output degrades to plain text
+const toLocationResponse = (raw: GeminiResponse): GeminiResponse => {
+  const report = parseLocationReport(raw.text);
+  return report
+    ? { ...raw, text: formatLocationReport(report), report }
+    : { ...raw, text: fallbackReportText(raw.text) };
+};
+
+const comparisonRequest = (targets: ComparisonTarget[], focus?: string): PromptRequest => ({
+  contents: `
+    You are a futuristic planetary database interface (JARVIS style).
+    Compare the following locations side by side${focus ? `, focusing on ${focus}` : ''}:
+    ${targets.map((t, i) => `${i + 1}. ${t.label} (Latitude ${t.lat.toFixed(2)}, Longitude ${t.lon.toFixed(2)})`).join('\n    ')}
+
+    For each location give one short line of key figures, then a 2-3 sentence
+    synthesis of the most important contrasts. Use current data where relevant (use the search tool).
+    Keep it under ${60 + targets.length * 30} words. Raw text only, no markdown.
+  `,
+  config: {
+    tools: [{ googleSearch: {} }]
   }
-};
\ No newline at end of file
+});
+
+const followUpInstruction = (context: FollowUpContext) => {
+  const subject = context.location
+    ? `the region at Latitude ${context.location.lat.toFixed(2)}, Longitude ${context.location.lon.toFixed(2)}`
+    : `Earth's ${context.category ?? 'systems'}`;
+
+  return `
+    You are a futuristic planetary database interface (JARVIS style).
+    The operator is investigating ${subject}.
+    ${context.previousAnswer ? `Your initial report was: "${context.previousAnswer}"` : ''}
+
+    Answer follow-up questions in under 100 words. Raw text only, no markdown.
+  `;
+};
+
+const toContents = (history: ChatTurn[]): Content[] =>
+  history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+
+// Extract grounding sources if available
+const extractSources = (response: GenerateContentResponse) => {
+  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+  return groundingChunks
+    ?.map(chunk => chunk.web ? { uri: chunk.web.uri, title: chunk.web.title } : null)
+    .filter(source => source !== null) as { uri: string; title: string }[] | undefined;
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): KnowledgeProvider => {
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+
+  // Client is created on first use so selecting another provider never touches the SDK
+  let ai: GoogleGenAI | null = null;
+  const client = () => {
+    if (!ai) ai = new GoogleGenAI({ apiKey: options.apiKey });
+    return ai;
+  };
+
+  // Accumulates a streamed response, reporting the text so far on every chunk.
+  // Errors are rethrown only for aborted requests; callers get the failure text otherwise.
+  const consume = async (
+    open: () => Promise<AsyncGenerator<GenerateContentResponse>>,
+    { signal, onText }: StreamOptions,
+    fallback: string,
+    failure: string
+  ): Promise<GeminiResponse> => {
+    try {
+      const chunks = await open();
+
+      let text = '';
+      let sources: { uri: string; title: string }[] | undefined;
+      for await (const chunk of chunks) {
+        if (signal?.aborted) break;
+        text += chunk.text ?? '';
+        // Grounding metadata usually arrives with the final chunk
+        sources = extractSources(chunk) ?? sources;
+        onText?.(text);
+      }
+      signal?.throwIfAborted();
+
+      return text ? { text, sources } : { text: fallback, failed: true };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Gemini Stream Error:", error);
+      return { text: failure, failed: true };
+    }
+  };
+
+  const stream = (request: PromptRequest, streamOptions: StreamOptions, fallback: string, failure: string) =>
+    consume(
+      () => client().models.generateContentStream({
+        model,
+        contents: request.contents,
+        config: { ...request.config, abortSignal: streamOptions.signal }
+      }),
+      streamOptions,
+      fallback,
+      failure
+    );
+
+  const fetchEarthData = async (category: EarthCategory, query?: string): Promise<GeminiResponse> => {
+    try {
+      const response = await client().models.generateContent({ model, ...earthDataRequest(category, query) });
+      return response.text ? { text: response.text } : { text: "Database unreachable.", failed: true };
+    } catch (error) {
+      console.error("Gemini Error:", error);
+      return { text: "Error establishing uplink with Knowledge Core.", failed: true };
+    }
+  };
+
+  const analyzeLocation = async (lat: number, lon: number): Promise<GeminiResponse> => {
+    try {
+      const response = await client().models.generateContent({ model, ...locationRequest(lat, lon) });
+      if (!response.text) return { text: "Signal lost. Unable to scan coordinates.", failed: true };
+      return toLocationResponse({ text: response.text, sources: extractSources(response) });
+    } catch (error) {
+      console.error("Gemini Location Error:", error);
+      return { text: "Telemetry link failed.", failed: true };
+    }
+  };
+
+  // Each call rebuilds a chat session from the caller's thread, so threads can be
+  // switched or restored freely without the provider holding on to them
+  const askFollowUp = (question: string, context: FollowUpContext, streamOptions: StreamOptions = {}) =>
+    consume(
+      () => client().chats
+        .create({
+          model,
+          history: toContents(context.history),
+          config: {
+            systemInstruction: followUpInstruction(context),
+            tools: [{ googleSearch: {} }]
+          }
+        })
+        .sendMessageStream({ message: question, config: { abortSignal: streamOptions.signal } }),
+      streamOptions,
+      "No response from Knowledge Core.",
+      "Query transmission failed."
+    );
+
+  const streamEarthData = (category: EarthCategory, query: string | undefined, streamOptions: StreamOptions) =>
+    stream(earthDataRequest(category, query), streamOptions, "Database unreachable.", "Error establishing uplink with Knowledge Core.");
+
+  // Partial JSON is meaningless to the operator, so the report is only surfaced
+  // once the stream completes and validates
+  const streamLocationAnalysis = async (lat: number, lon: number, { signal }: StreamOptions, context?: LocationContext) => {
+    const raw = await stream(locationRequest(lat, lon, context), { signal }, "Signal lost. Unable to scan coordinates.", "Telemetry link failed.");
+    return raw.failed ? raw : toLocationResponse(raw);
+  };
+
+  const compareLocations = (targets: ComparisonTarget[], focus: string | undefined, streamOptions: StreamOptions) =>
+    stream(comparisonRequest(targets, focus), streamOptions, "Comparison unavailable.", "Comparison uplink failed.");
+
+  return {
+    id: 'gemini',
+    label: `GEMINI_CORE · ${model.toUpperCase()}`,
+    fetchEarthData,
+    analyzeLocation,
+    askFollowUp,
+    streamEarthData,
+    streamLocationAnalysis,
+    compareLocations,
+  };
+};
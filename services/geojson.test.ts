@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeoJson } from './geojson';
+
+const polygon = (coordinates: [number, number][]) => ({ type: 'Polygon', coordinates: [coordinates] });
+
+describe('parseGeoJson', () => {
+  it('anchors a polygon at its middle', () => {
+    const [feature] = parseGeoJson(polygon([[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]));
+    expect(feature.anchor.lat).toBeCloseTo(4.1, 0);
+    expect(feature.anchor.lon).toBeCloseTo(4, 0);
+  });
+
+  it('anchors a polygon crossing the dateline next to it, not on the far side of the globe', () => {
+    const [feature] = parseGeoJson(polygon([[177, -16], [-178, -16], [-178, -20], [177, -20], [177, -16]]));
+    expect(feature.anchor.lat).toBeCloseTo(-17.6, 0);
+    expect(Math.abs(feature.anchor.lon)).toBeGreaterThan(178);
+  });
+
+  it('anchors points at the first point', () => {
+    const [feature] = parseGeoJson({ type: 'MultiPoint', coordinates: [[10, 20], [30, 40]] });
+    expect(feature.anchor).toEqual({ lat: 20, lon: 10 });
+  });
+});
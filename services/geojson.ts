@@ -0,0 +1,154 @@
+import {
+  GeoJsonFeature,
+  GeoJsonGeometry,
+  LocationContext,
+  LocationData,
+  OverlayFeature,
+  OverlayLayer,
+  OverlayStyle,
+  Position,
+} from "../types";
+import { cartesianToLatLon, latLonToCartesian } from "../utils/geodesy";
+import { isRecord, parseJson } from "../utils/json";
+
+const LAYER_COLORS = ['#ffcc00', '#ff66cc', '#66ff99', '#66ccff', '#ff9966', '#cc99ff'];
+
+const toLocation = (position: Position): LocationData => {
+  if (!Array.isArray(position) || typeof position[0] !== 'number' || typeof position[1] !== 'number') {
+    throw new Error("Invalid GeoJSON position");
+  }
+  return { lat: position[1], lon: position[0] };
+};
+
+// Mean direction of all vertices; good enough to aim the camera at a feature,
+// and unlike a mean of degrees it stays put for features that cross ±180°
+const centroid = (locations: LocationData[]): LocationData => {
+  const sum = locations.reduce((acc, l) => {
+    const v = latLonToCartesian(l.lat, l.lon);
+    return { x: acc.x + v.x, y: acc.y + v.y, z: acc.z + v.z };
+  }, { x: 0, y: 0, z: 0 });
+  return cartesianToLatLon(sum);
+};
+
+const flattenGeometry = (geometry: GeoJsonGeometry, target: Pick<OverlayFeature, 'points' | 'lines' | 'polygons'>) => {
+  switch (geometry.type) {
+    case 'Point':
+      target.points.push(toLocation(geometry.coordinates));
+      break;
+    case 'MultiPoint':
+      target.points.push(...geometry.coordinates.map(toLocation));
+      break;
+    case 'LineString':
+      target.lines.push(geometry.coordinates.map(toLocation));
+      break;
+    case 'MultiLineString':
+      target.lines.push(...geometry.coordinates.map(line => line.map(toLocation)));
+      break;
+    case 'Polygon':
+      target.polygons.push(geometry.coordinates.map(ring => ring.map(toLocation)));
+      break;
+    case 'MultiPolygon':
+      target.polygons.push(...geometry.coordinates.map(polygon => polygon.map(ring => ring.map(toLocation))));
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach(g => flattenGeometry(g, target));
+      break;
+    default:
+      throw new Error(`Unsupported GeoJSON geometry "${(geometry as { type: string }).type}"`);
+  }
+};
+
+// Only the outer shape is checked here: flattenGeometry rejects unknown geometry
+// types and toLocation malformed positions
+const isGeometry = (value: unknown): value is GeoJsonGeometry => isRecord(value) && typeof value.type === 'string';
+
+// Anything that isn't a feature comes back without geometry and is skipped
+const toFeature = (value: unknown): GeoJsonFeature => {
+  if (!isRecord(value)) return { type: 'Feature', geometry: null, properties: null };
+  const { geometry, properties, id } = value;
+  return {
+    type: 'Feature',
+    geometry: isGeometry(geometry) ? geometry : null,
+    properties: isRecord(properties) ? properties : null,
+    ...(typeof id === 'string' || typeof id === 'number' ? { id } : {}),
+  };
+};
+
+const toFeatures = (json: unknown): GeoJsonFeature[] => {
+  if (!isRecord(json)) throw new Error("Not a GeoJSON object");
+  switch (json.type) {
+    case 'FeatureCollection':
+      if (!Array.isArray(json.features)) throw new Error("FeatureCollection has no features array");
+      return json.features.map(toFeature);
+    case 'Feature':
+      return [toFeature(json)];
+    default:
+      // Bare geometry
+      return [{ type: 'Feature', geometry: isGeometry(json) ? json : null, properties: {} }];
+  }
+};
+
+// Parses any GeoJSON object into flattened overlay features.
+// Features without geometry are skipped; malformed coordinates throw.
+export const parseGeoJson = (json: unknown): OverlayFeature[] => {
+  const features: OverlayFeature[] = [];
+  toFeatures(json).forEach((feature, index) => {
+    if (!feature?.geometry) return;
+    const flat = { points: [] as LocationData[], lines: [] as LocationData[][], polygons: [] as LocationData[][][] };
+    flattenGeometry(feature.geometry, flat);
+
+    const vertices = [...flat.points, ...flat.lines.flat(), ...flat.polygons.map(p => p[0] ?? []).flat()];
+    if (vertices.length === 0) return;
+
+    features.push({
+      index,
+      properties: { ...(feature.properties ?? {}), ...(feature.id !== undefined ? { id: feature.id } : {}) },
+      ...flat,
+      anchor: flat.points[0] ?? centroid(vertices),
+    });
+  });
+  return features;
+};
+
+export const defaultOverlayStyle = (layerIndex: number): OverlayStyle => ({
+  color: LAYER_COLORS[layerIndex % LAYER_COLORS.length],
+  opacity: 0.9,
+  fillOpacity: 0.25,
+  lineWidth: 1.5,
+  pointSize: 0.025,
+});
+
+export const createOverlayLayer = (name: string, source: string, json: unknown, layerIndex: number): OverlayLayer => {
+  const features = parseGeoJson(json);
+  if (features.length === 0) throw new Error("GeoJSON contains no drawable features");
+  return {
+    id: `layer-${Date.now()}-${layerIndex}`,
+    name,
+    source,
+    visible: true,
+    style: defaultOverlayStyle(layerIndex),
+    features,
+  };
+};
+
+export const loadOverlayFromUrl = async (url: string, layerIndex: number): Promise<OverlayLayer> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${url}`);
+  const name = decodeURIComponent(url.split('/').pop()?.split('?')[0] || 'Remote layer');
+  return createOverlayLayer(name, url, await response.json(), layerIndex);
+};
+
+export const loadOverlayFromFile = async (file: File, layerIndex: number): Promise<OverlayLayer> =>
+  createOverlayLayer(file.name, file.name, parseJson(await file.text()), layerIndex);
+
+// Scalar feature properties as analysis context (nested values are dropped)
+export const featureContext = (layer: OverlayLayer, feature: OverlayFeature): LocationContext => {
+  const properties: LocationContext['properties'] = {};
+  Object.entries(feature.properties).forEach(([key, value]) => {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      properties[key] = value as string | number | boolean | null;
+    }
+  });
+  const name = properties.name ?? properties.NAME ?? properties.title;
+  return { title: name ? `${name} (${layer.name})` : `Feature ${feature.index + 1} of ${layer.name}`, properties };
+};
@@ -0,0 +1,171 @@
+import { GestureData, GestureEvent, HandData, HandLandmark, HandProfile } from "../types";
+import { DEFAULT_HAND_PROFILE } from "./handProfiles";
+import { createOneEuroFilter } from "../utils/oneEuroFilter";
+
+// --- Tuning ---
+// Pinch thresholds and cursor smoothing come from the active HandProfile
+const SWIPE_DISTANCE = 0.25; // Fraction of frame width an open palm must travel
+const SWIPE_WINDOW_MS = 400;
+const SWIPE_COOLDOWN_MS = 800;
+const DWELL_RADIUS = 0.03; // Pointer may wander this far and still count as holding
+const DWELL_MS = 1200;
+const FIST_HOLD_MS = 600;
+const FIST_COOLDOWN_MS = 1500;
+const EVENT_BUFFER = 16;
+
+// MediaPipe hand landmark indices
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9; // Palm centre
+
+type Point = { x: number; y: number };
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const pinchDistance = (hand: HandLandmark[]) => distance(hand[THUMB_TIP], hand[INDEX_TIP]);
+
+export const createHandData = (): HandData => ({
+  x: 0.5,
+  y: 0.5,
+  active: false,
+  zooming: false,
+  zoom: 0,
+  pointer: null,
+  events: []
+});
+
+// Gestures newer than `seq`, for consumers that poll the shared HandData (or NavInput)
+export const eventsSince = (data: Pick<HandData, 'events'>, seq: number) => data.events.filter(event => event.seq > seq);
+
+export const lastEventSeq = (data: Pick<HandData, 'events'>) => data.events[data.events.length - 1]?.seq ?? 0;
+
+// Turns raw recognizer frames into HandData. Stateful: swipes, dwells and holds
+// are recognised across frames, so feed every frame of a stream in order.
+export const createGestureEngine = (initialProfile: HandProfile = DEFAULT_HAND_PROFILE) => {
+  let profile = initialProfile;
+  let state = createHandData();
+  let seq = 0;
+
+  let filterX = createOneEuroFilter(profile.filter);
+  let filterY = createOneEuroFilter(profile.filter);
+  // Per-hand pinch state, for hysteresis between pinchOn and pinchOff
+  let pinchStates: boolean[] = [];
+
+  let spread: number | null = null;
+  let palmTrail: { x: number; t: number }[] = [];
+  let lastSwipe = -Infinity;
+  let dwell: { x: number; y: number; since: number; fired: boolean } | null = null;
+  let fistSince: number | null = null;
+  let lastReset = -Infinity;
+
+  const emit = (events: GestureEvent[], event: GestureEvent) => [...events, event].slice(-EVENT_BUFFER);
+
+  const updatePinches = (hands: HandLandmark[][]) => {
+    pinchStates = hands.map((hand, i) => {
+      const d = pinchDistance(hand);
+      return pinchStates[i] ? d < profile.pinchOff : d < profile.pinchOn;
+    });
+  };
+
+  const setProfile = (next: HandProfile) => {
+    profile = next;
+    filterX = createOneEuroFilter(profile.filter);
+    filterY = createOneEuroFilter(profile.filter);
+  };
+
+  const process = (frame: GestureData, now: number = frame.timestamp ?? Date.now()): HandData => {
+    const hands = frame.landmarks;
+    let events = state.events;
+
+    updatePinches(hands);
+
+    if (hands.length === 0) {
+      filterX.reset();
+      filterY.reset();
+      spread = null;
+      palmTrail = [];
+      dwell = null;
+      fistSince = null;
+      state = { ...state, active: false, zooming: false, pointer: null };
+      return state;
+    }
+
+    // --- TWO-HAND ZOOM ---
+    // Both hands pinching: the distance between the pinches drives the camera distance
+    if (hands.length >= 2 && pinchStates[0] && pinchStates[1]) {
+      const [a, b] = hands.map(hand => ({
+        x: (hand[THUMB_TIP].x + hand[INDEX_TIP].x) / 2,
+        y: (hand[THUMB_TIP].y + hand[INDEX_TIP].y) / 2
+      }));
+      const current = distance(a, b);
+      const zoom = spread && current > 0 ? state.zoom + Math.log(current / spread) : state.zoom;
+      spread = current;
+      palmTrail = [];
+      dwell = null;
+      fistSince = null;
+      state = { ...state, active: false, zooming: true, zoom, pointer: null };
+      return state;
+    }
+    spread = null;
+
+    // Single-hand gestures follow the first detected hand
+    const hand = hands[0];
+    const gesture = frame.gestures?.[0] ?? 'None';
+    // A fist closes thumb and index together too; it must not grab the globe
+    const pinching = pinchStates[0] && gesture !== 'Closed_Fist';
+
+    const indexTip = hand[INDEX_TIP];
+    const x = filterX.filter(1 - indexTip.x, now); // Mirror X
+    const y = filterY.filter(indexTip.y, now);
+
+    // --- POINT & DWELL ---
+    let pointer: HandData['pointer'] = null;
+    if (gesture === 'Pointing_Up' && !pinching) {
+      if (!dwell || distance(dwell, { x, y }) > DWELL_RADIUS) {
+        dwell = { x, y, since: now, fired: false };
+      }
+      const progress = Math.min(1, (now - dwell.since) / DWELL_MS);
+      if (progress >= 1 && !dwell.fired) {
+        dwell.fired = true;
+        events = emit(events, { seq: ++seq, type: 'select', x: dwell.x, y: dwell.y });
+      }
+      pointer = { x, y, dwell: progress };
+    } else {
+      dwell = null;
+    }
+
+    // --- OPEN-PALM SWIPE ---
+    if (gesture === 'Open_Palm') {
+      palmTrail = [...palmTrail, { x: 1 - hand[MIDDLE_MCP].x, t: now }].filter(p => now - p.t <= SWIPE_WINDOW_MS);
+      const travel = palmTrail[palmTrail.length - 1].x - palmTrail[0].x;
+      if (Math.abs(travel) > SWIPE_DISTANCE && now - lastSwipe > SWIPE_COOLDOWN_MS) {
+        lastSwipe = now;
+        palmTrail = [];
+        events = emit(events, { seq: ++seq, type: 'swipe', direction: travel > 0 ? 'right' : 'left' });
+      }
+    } else {
+      palmTrail = [];
+    }
+
+    // --- CLOSED FIST (HOLD) ---
+    if (gesture === 'Closed_Fist') {
+      fistSince ??= now;
+      if (now - fistSince >= FIST_HOLD_MS && now - lastReset > FIST_COOLDOWN_MS) {
+        lastReset = now;
+        events = emit(events, { seq: ++seq, type: 'reset' });
+      }
+    } else {
+      fistSince = null;
+    }
+
+    state = { x, y, active: pinching, zooming: false, zoom: state.zoom, pointer, events };
+    return state;
+  };
+
+  // Which of the frame's hands are currently pinching, for drawing
+  const pinching = () => [...pinchStates];
+
+  return { process, setProfile, pinching };
+};
+
+export type GestureEngine = ReturnType<typeof createGestureEngine>;
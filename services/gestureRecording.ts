@@ -0,0 +1,110 @@
+import { GestureData, GestureRecording, HandData, HandProfile } from "../types";
+import { createGestureEngine } from "./gestureEngine";
+import { DEFAULT_HAND_PROFILE } from "./handProfiles";
+import { downloadFile, fileTimestamp } from "../utils/download";
+import { isRecord, parseJson } from "../utils/json";
+
+// --- Recording ---
+export const createGestureRecorder = () => {
+  const frames: GestureData[] = [];
+  const startedAt = new Date();
+
+  const push = (frame: GestureData) => {
+    // Copy, so later mutation by the recognizer can't alter the capture
+    frames.push({
+      landmarks: frame.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+      handedness: frame.handedness,
+      gestures: frame.gestures,
+      timestamp: frame.timestamp ?? Date.now()
+    });
+  };
+
+  const finish = (): GestureRecording => ({ version: 1, recordedAt: startedAt.toISOString(), frames: [...frames] });
+
+  return { push, finish, frameCount: () => frames.length };
+};
+
+export type GestureRecorder = ReturnType<typeof createGestureRecorder>;
+
+export const downloadRecording = (recording: GestureRecording) =>
+  downloadFile(JSON.stringify(recording), `gesture-recording-${fileTimestamp(new Date(recording.recordedAt))}.json`);
+
+// Landmark contents aren't checked point by point; the engine reads what it finds
+const isFrame = (frame: unknown): frame is GestureData =>
+  isRecord(frame) && Array.isArray(frame.landmarks) && typeof frame.timestamp === 'number';
+
+// Throws with a readable message when the file isn't a gesture recording
+export const parseRecording = (text: string): GestureRecording => {
+  let data: unknown;
+  try {
+    data = parseJson(text);
+  } catch {
+    throw new Error("Recording is not valid JSON.");
+  }
+  if (!isRecord(data) || data.version !== 1 || !Array.isArray(data.frames)) {
+    throw new Error("Not a gesture recording (expected version 1 with a frames array).");
+  }
+  const frames = data.frames.map((frame: unknown, i: number) => {
+    if (!isFrame(frame)) throw new Error(`Frame ${i} is missing landmarks or a timestamp.`);
+    return frame;
+  });
+  return { version: 1, recordedAt: String(data.recordedAt ?? ''), frames };
+};
+
+// --- Playback ---
+interface PlaybackOptions {
+  loop?: boolean;
+  onEnd?: () => void;
+}
+
+// Re-emits recorded frames with their original spacing, re-stamped against the
+// current clock so they can be fed into a live engine
+export const createPlaybackSource = (recording: GestureRecording, onFrame: (frame: GestureData) => void, options: PlaybackOptions = {}) => {
+  const frames = recording.frames;
+  const origin = frames[0]?.timestamp ?? 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let index = 0;
+  let startedAt = 0;
+
+  const schedule = () => {
+    if (index >= frames.length) {
+      if (options.loop && frames.length > 0) {
+        index = 0;
+        startedAt = Date.now();
+      } else {
+        timer = null;
+        options.onEnd?.();
+        return;
+      }
+    }
+    const due = startedAt + (frames[index].timestamp! - origin);
+    timer = setTimeout(() => {
+      onFrame({ ...frames[index], timestamp: due });
+      index++;
+      schedule();
+    }, Math.max(0, due - Date.now()));
+  };
+
+  const start = () => {
+    if (timer) return;
+    index = 0;
+    startedAt = Date.now();
+    schedule();
+  };
+
+  const stop = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return { start, stop };
+};
+
+export type PlaybackSource = ReturnType<typeof createPlaybackSource>;
+
+// Runs a whole recording through a fresh engine synchronously and returns the
+// HandData after every frame, so outcomes can be checked without a camera or a clock
+export const replayRecording = (recording: GestureRecording, profile: HandProfile = DEFAULT_HAND_PROFILE): HandData[] => {
+  const engine = createGestureEngine(profile);
+  return recording.frames.map(frame => engine.process(frame));
+};
@@ -0,0 +1,102 @@
+import { HandProfile } from "../types";
+import { isRecord, parseJson } from "../utils/json";
+
+const STORAGE_KEY = 'holoearth-hand-profiles';
+
+// Matches the original hard-coded tuning: 0.15 pinch threshold, lerp 0.2 at ~30 fps, x10 rotation
+export const DEFAULT_HAND_PROFILE: HandProfile = {
+  name: 'Default',
+  pinchOn: 0.15,
+  pinchOff: 0.18,
+  sensitivity: 10,
+  filter: { minCutoff: 1.2, beta: 2, dCutoff: 1 }
+};
+
+// Raw measurements gathered by the calibration wizard
+export interface CalibrationSamples {
+  // Thumb-index distances while holding the hand open, then while pinching
+  open: number[];
+  pinched: number[];
+  // Index fingertip positions while holding the open hand still
+  positions: { x: number; y: number }[];
+}
+
+export interface StoredHandProfiles {
+  profiles: HandProfile[];
+  active: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Standard deviation of the fingertip around its mean position
+export const measureJitter = (positions: { x: number; y: number }[]) => {
+  if (positions.length < 2) return 0;
+  const mean = positions.reduce((acc, p) => ({ x: acc.x + p.x / positions.length, y: acc.y + p.y / positions.length }), { x: 0, y: 0 });
+  const variance = positions.reduce((acc, p) => acc + (p.x - mean.x) ** 2 + (p.y - mean.y) ** 2, 0) / positions.length;
+  return Math.sqrt(variance);
+};
+
+// Turns calibration measurements into a profile. Returns null when the open and
+// pinched distances overlap too much to tell apart.
+export const deriveProfile = (name: string, samples: CalibrationSamples, base: HandProfile = DEFAULT_HAND_PROFILE): HandProfile | null => {
+  if (samples.open.length === 0 || samples.pinched.length === 0) return null;
+  const open = median(samples.open);
+  const pinched = median(samples.pinched);
+  const gap = open - pinched;
+  if (gap < 0.03) return null;
+
+  // Engage a third of the way up from a full pinch, release past the halfway point,
+  // so noise around either threshold can't make the grip flicker
+  const pinchOn = pinched + gap * 0.35;
+  const pinchOff = pinched + gap * 0.55;
+
+  // Noisier hands/cameras get a lower still-hand cutoff (more smoothing)
+  const jitter = measureJitter(samples.positions);
+  const minCutoff = jitter > 0 ? clamp(base.filter.minCutoff * (0.003 / jitter), 0.3, 3) : base.filter.minCutoff;
+
+  return {
+    ...base,
+    name,
+    pinchOn,
+    pinchOff,
+    filter: { ...base.filter, minCutoff }
+  };
+};
+
+const isProfile = (value: unknown): value is HandProfile =>
+  isRecord(value) && typeof value.name === 'string'
+  && typeof value.pinchOn === 'number'
+  && typeof value.pinchOff === 'number'
+  && typeof value.sensitivity === 'number'
+  && isRecord(value.filter) && typeof value.filter.minCutoff === 'number'
+  && typeof value.filter.beta === 'number'
+  && typeof value.filter.dCutoff === 'number';
+
+// A default profile is always present (the HUD doesn't allow deleting it)
+export const loadHandProfiles = (): StoredHandProfiles => {
+  try {
+    const stored = parseJson(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    const { profiles: saved, active: savedActive } = isRecord(stored) ? stored : {};
+    const profiles: HandProfile[] = Array.isArray(saved) ? saved.filter(isProfile) : [];
+    const all = profiles.some(p => p.name === DEFAULT_HAND_PROFILE.name) ? profiles : [DEFAULT_HAND_PROFILE, ...profiles];
+    const active = typeof savedActive === 'string' && all.some(p => p.name === savedActive) ? savedActive : DEFAULT_HAND_PROFILE.name;
+    return { profiles: all, active };
+  } catch (error) {
+    console.error("Hand profile load failed:", error);
+    return { profiles: [DEFAULT_HAND_PROFILE], active: DEFAULT_HAND_PROFILE.name };
+  }
+};
+
+export const saveHandProfiles = (stored: StoredHandProfiles) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error("Hand profile save failed:", error);
+  }
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { resolveTileSource, tileUrl } from './imagery';
+
+describe('resolveTileSource', () => {
+  it('defaults to GIBS Blue Marble', () => {
+    expect(resolveTileSource('', '')).toMatchObject({ maxZoom: 8, label: 'gibs.earthdata.nasa.gov' });
+  });
+
+  it('turns streaming off with "none"', () => {
+    expect(resolveTileSource(' None ', '')).toBeNull();
+  });
+
+  it('takes a template and zoom limit from the environment', () => {
+    expect(resolveTileSource(' https://tiles.example.com/{z}/{x}/{y}.png ', '12')).toEqual({
+      template: 'https://tiles.example.com/{z}/{x}/{y}.png',
+      maxZoom: 12,
+      label: 'tiles.example.com',
+    });
+    expect(resolveTileSource('/tiles/{z}/{x}/{-y}.jpg', 'deep')).toMatchObject({ maxZoom: 8, label: 'LOCAL' });
+    expect(resolveTileSource('', '-1')!.maxZoom).toBe(8);
+  });
+});
+
+describe('tileUrl', () => {
+  it('fills in XYZ and TMS rows', () => {
+    const tile = { z: 3, x: 5, y: 2 };
+    expect(tileUrl(resolveTileSource('/t/{z}/{x}/{y}.png', '')!, tile)).toBe('/t/3/5/2.png');
+    expect(tileUrl(resolveTileSource('/t/{z}/{x}/{-y}.png', '')!, tile)).toBe('/t/3/5/5.png');
+    expect(tileUrl(resolveTileSource('', '')!, tile)).toMatch(/\/3\/2\/5\.jpeg$/);
+  });
+});
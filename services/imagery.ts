@@ -0,0 +1,78 @@
+import { TileId, tmsRow } from "../utils/tiles";
+
+// Where the globe's imagery comes from. Two tiers:
+//  - base textures: one equirectangular image each for day, night, ocean
+//    specular and clouds, always loaded and used when zoomed out or offline;
+//  - streamed tiles: XYZ/TMS day imagery swapped in as the camera gets closer.
+// Both are configured at build time through vite.config.ts.
+
+export type BaseTextureName = 'map' | 'specular' | 'night' | 'clouds';
+
+export const BASE_TEXTURE_FILES: Record<BaseTextureName, string> = {
+  map: 'earth_atmos_2048.jpg',
+  specular: 'earth_specular_2048.jpg',
+  night: 'earth_lights_2048.png',
+  clouds: 'earth_clouds_1024.png',
+};
+
+// Low-resolution copies committed under public/ (scripts/make-fallback-textures.mjs).
+// There is none for clouds: a globe without clouds beats a fake cloud layer.
+export const FALLBACK_TEXTURE_FILES: Partial<Record<BaseTextureName, string>> = {
+  map: 'earth_atmos_512.png',
+  specular: 'earth_specular_512.png',
+  night: 'earth_lights_512.png',
+};
+
+const THREE_EXAMPLES_BASE = 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets';
+const FALLBACK_TEXTURE_BASE = '/textures/fallback';
+
+// Candidate URLs in the order they are tried: the local copy (EARTH_TEXTURE_BASE,
+// populated by `npm run earth-textures`), the three.js examples on GitHub, then
+// the bundled low-resolution fallback
+export const baseTextureUrls = (name: BaseTextureName, base: string = process.env.EARTH_TEXTURE_BASE || '') => {
+  const file = BASE_TEXTURE_FILES[name];
+  const fallback = FALLBACK_TEXTURE_FILES[name];
+  return [
+    ...(base ? [`${base.replace(/\/+$/, '')}/${file}`] : []),
+    `${THREE_EXAMPLES_BASE}/${file}`,
+    ...(fallback ? [`${FALLBACK_TEXTURE_BASE}/${fallback}`] : []),
+  ];
+};
+
+export interface TileSource {
+  // URL with {z}, {x} and {y} placeholders; {-y} counts rows from the south (TMS)
+  template: string;
+  maxZoom: number;
+  // Host name, or 'LOCAL' for same-origin paths
+  label: string;
+}
+
+// NASA GIBS Blue Marble: public domain, CORS-enabled, levels 0-8
+const DEFAULT_TILE_SOURCE: TileSource = {
+  template: 'https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/BlueMarble_ShadedRelief_Bathymetry/default/GoogleMapsCompatible_Level8/{z}/{y}/{x}.jpeg',
+  maxZoom: 8,
+  label: 'gibs.earthdata.nasa.gov',
+};
+
+// EARTH_TILE_URL: empty for the default source, 'none' for base textures only,
+// or a template such as '/tiles/{z}/{x}/{y}.jpg' for a directory under public/
+export const resolveTileSource = (
+  template: string = process.env.EARTH_TILE_URL || '',
+  maxZoom: string = process.env.EARTH_TILE_MAX_ZOOM || ''
+): TileSource | null => {
+  if (template.trim().toLowerCase() === 'none') return null;
+  const source = template.trim() ? { ...DEFAULT_TILE_SOURCE, template: template.trim() } : DEFAULT_TILE_SOURCE;
+  const zoom = parseInt(maxZoom, 10);
+  return {
+    ...source,
+    maxZoom: Number.isFinite(zoom) && zoom >= 0 ? zoom : source.maxZoom,
+    label: source.template.match(/^https?:\/\/([^/]+)/)?.[1] ?? 'LOCAL',
+  };
+};
+
+export const tileUrl = (source: TileSource, tile: TileId) =>
+  source.template
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{-y}', String(tmsRow(tile)))
+    .replace('{y}', String(tile.y));
@@ -0,0 +1,21 @@
+import { KnowledgeProvider } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockKnowledgeProvider";
+import { withResponseCache } from "./responseCache";
+
+// Provider id is injected at build time by vite.config.ts (KNOWLEDGE_PROVIDER env var)
+export const createKnowledgeProvider = (id: string = process.env.KNOWLEDGE_PROVIDER || 'gemini'): KnowledgeProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      return createGeminiProvider({ apiKey: process.env.API_KEY, model: process.env.GEMINI_MODEL });
+    default:
+      console.warn(`Unknown knowledge provider "${id}", falling back to gemini.`);
+      return createGeminiProvider({ apiKey: process.env.API_KEY, model: process.env.GEMINI_MODEL });
+  }
+};
+
+export const knowledgeProvider = withResponseCache(createKnowledgeProvider(), {
+  gridDegrees: Number(process.env.KNOWLEDGE_CACHE_GRID) || undefined
+});
@@ -0,0 +1,83 @@
+import { LocationReport } from "../types";
+import { isRecord, parseJson } from "../utils/json";
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringOrNull = (value: unknown): value is string | null => value === null || isString(value);
+const isNumberOrNull = (value: unknown): value is number | null => value === null || isNumber(value);
+
+// Grounded replies can't be forced into JSON mode, so the object may come wrapped
+// in a code fence or a sentence; this keeps just the outermost {...}
+const extractJson = (raw: string) => {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  return start >= 0 && end > start ? raw.slice(start, end + 1) : raw;
+};
+
+// Validates model output against the LocationReport shape.
+// Returns null for anything malformed or incomplete so callers can fall back to text.
+export const parseLocationReport = (raw: string): LocationReport | null => {
+  let data: unknown;
+  try {
+    data = parseJson(extractJson(raw));
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+
+  const { regionName, country, climateZone, temperatureC, conditions, populationEstimate, fact, confidence } = data;
+  if (
+    !isString(regionName) ||
+    !isStringOrNull(country) ||
+    !isString(climateZone) ||
+    !isNumber(temperatureC) ||
+    !isString(conditions) ||
+    !isNumberOrNull(populationEstimate) ||
+    !isString(fact) ||
+    !isNumber(confidence)
+  ) return null;
+
+  return {
+    regionName,
+    country,
+    climateZone,
+    temperatureC,
+    conditions,
+    populationEstimate: populationEstimate === null ? null : Math.max(0, Math.round(populationEstimate)),
+    fact,
+    confidence: Math.min(1, Math.max(0, confidence)),
+  };
+};
+
+export const formatPopulation = (population: number | null) => {
+  if (population === null) return 'N/A';
+  if (population >= 1e9) return `${(population / 1e9).toFixed(2)}B`;
+  if (population >= 1e6) return `${(population / 1e6).toFixed(1)}M`;
+  if (population >= 1e3) return `${(population / 1e3).toFixed(1)}K`;
+  return population.toString();
+};
+
+// Plain-text rendering of a report, used as the panel text and as chat context
+export const formatLocationReport = (report: LocationReport) => [
+  `${report.regionName}${report.country ? `, ${report.country}` : ''} // ${report.climateZone.toUpperCase()}`,
+  `WEATHER: ${report.temperatureC.toFixed(0)}°C, ${report.conditions}.`,
+  `POPULATION: ${formatPopulation(report.populationEstimate)}`,
+  `FACT: ${report.fact}`,
+].join('\n');
+
+// Best-effort text for responses that failed validation: lists whatever fields
+// did parse, or returns the raw output when it isn't JSON at all
+export const fallbackReportText = (raw: string) => {
+  try {
+    const data = parseJson(extractJson(raw));
+    if (isRecord(data)) {
+      const lines = Object.entries(data)
+        .filter(([, value]) => value !== null && value !== '' && typeof value !== 'object')
+        .map(([key, value]) => `${key.replace(/([A-Z])/g, ' $1').toUpperCase()}: ${value}`);
+      if (lines.length > 0) return lines.join('\n');
+    }
+  } catch {
+    // Not JSON (or truncated): show it as-is
+  }
+  return raw;
+};
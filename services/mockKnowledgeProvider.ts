@@ -0,0 +1,148 @@
+import { ComparisonTarget, EarthCategory, FollowUpContext, GeminiResponse, KnowledgeProvider, LocationContext, LocationReport, StreamOptions } from "../types";
+import { formatLocationReport } from "./locationReport";
+import { formatLatLon } from "../utils/geodesy";
+
+// --- Fixtures ---
+// Canned responses so the interface can run in CI or offline demos.
+// Everything here is deterministic: the same input always yields the same output.
+const CATEGORY_FIXTURES: Record<EarthCategory, GeminiResponse> = {
+  [EarthCategory.ATMOSPHERE]: {
+    text: "Atmospheric shell nominal. Composition: 78% nitrogen, 21% oxygen, trace argon and CO2. The troposphere holds roughly 75% of atmospheric mass and nearly all weather. Stratospheric ozone absorbs 97-99% of incoming UV-B radiation.",
+    sources: [{ uri: "https://example.com/fixtures/atmosphere", title: "Offline Fixture: Atmosphere" }]
+  },
+  [EarthCategory.GEOLOGY]: {
+    text: "Lithosphere segmented into 15 major tectonic plates drifting 2-10 cm per year. Continental crust averages 35 km thick; oceanic crust about 7 km. The oldest dated minerals, Jack Hills zircons, are approximately 4.4 billion years old.",
+    sources: [{ uri: "https://example.com/fixtures/geology", title: "Offline Fixture: Geology" }]
+  },
+  [EarthCategory.OCEANOGRAPHY]: {
+    text: "Hydrosphere covers 71% of the planetary surface with a mean depth of 3,688 m. The global thermohaline circulation cycles deep water over roughly 1,000 years. Oceans have absorbed about 90% of excess heat since 1970.",
+    sources: [{ uri: "https://example.com/fixtures/oceans", title: "Offline Fixture: Oceans" }]
+  },
+  [EarthCategory.ECOLOGY]: {
+    text: "Biosphere census: an estimated 8.7 million eukaryotic species, of which fewer than 20% are catalogued. Tropical rainforests cover 6% of land yet host over half of terrestrial species. Phytoplankton supply roughly half of atmospheric oxygen.",
+    sources: [{ uri: "https://example.com/fixtures/ecology", title: "Offline Fixture: Ecology" }]
+  },
+  [EarthCategory.HUMAN_IMPACT]: {
+    text: "Anthroposphere footprint: 8 billion inhabitants, with urban areas housing 56% of the population. Atmospheric CO2 exceeds 420 ppm, up from 280 ppm pre-industrial. Roughly 75% of ice-free land has been significantly altered by human activity.",
+    sources: [{ uri: "https://example.com/fixtures/human-impact", title: "Offline Fixture: Human Impact" }]
+  }
+};
+
+const CLIMATE_BANDS = [
+  { maxLat: 23.5, zone: "Tropical", temp: 27, conditions: "humid, scattered convective cloud" },
+  { maxLat: 35, zone: "Subtropical", temp: 21, conditions: "clear skies, light winds" },
+  { maxLat: 55, zone: "Temperate", temp: 12, conditions: "overcast, intermittent drizzle" },
+  { maxLat: 66.5, zone: "Subpolar", temp: 2, conditions: "low stratus, gusty winds" },
+  { maxLat: 90, zone: "Polar", temp: -22, conditions: "ice crystals, katabatic winds" },
+];
+
+interface MockProviderOptions {
+  // Simulated round-trip so loading states remain visible; 0 resolves on the next tick
+  latencyMs?: number;
+  // Delay between streamed words
+  chunkIntervalMs?: number;
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const createMockProvider = (options: MockProviderOptions = {}): KnowledgeProvider => {
+  const latencyMs = options.latencyMs ?? 400;
+  const chunkIntervalMs = options.chunkIntervalMs ?? 30;
+  const respond = (response: GeminiResponse) =>
+    new Promise<GeminiResponse>(resolve => setTimeout(() => resolve(response), latencyMs));
+
+  // Replays a fixture word by word, mimicking generateContentStream
+  const streamResponse = (response: GeminiResponse, { signal, onText }: StreamOptions) =>
+    new Promise<GeminiResponse>((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      const words = response.text.split(/(?<=\s)/);
+      let index = 0;
+      let timer: ReturnType<typeof setTimeout>;
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const tick = () => {
+        index++;
+        onText?.(words.slice(0, index).join(''));
+        if (index < words.length) {
+          timer = setTimeout(tick, chunkIntervalMs);
+        } else {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        }
+      };
+      timer = setTimeout(tick, latencyMs);
+    });
+
+  const categoryFixture = (category: EarthCategory, query?: string): GeminiResponse => {
+    const fixture = CATEGORY_FIXTURES[category] ?? { text: "No fixture recorded for this sector." };
+    return query ? { ...fixture, text: `${fixture.text} Focus: ${query}.` } : fixture;
+  };
+
+  const bandFor = (lat: number) =>
+    CLIMATE_BANDS.find(b => Math.abs(lat) <= b.maxLat) ?? CLIMATE_BANDS[CLIMATE_BANDS.length - 1];
+
+  const locationFixture = (lat: number, lon: number, context?: LocationContext): GeminiResponse => {
+    const band = bandFor(lat);
+    const report: LocationReport = {
+      regionName: context?.title ?? `Sector ${formatLatLon({ lat, lon })}`,
+      country: null,
+      climateZone: `${band.zone} band`,
+      temperatureC: band.temp,
+      conditions: band.conditions,
+      populationEstimate: null,
+      fact: "Climate bands are set primarily by latitude through the angle of incoming sunlight.",
+      confidence: 0.25,
+    };
+    return {
+      text: formatLocationReport(report),
+      report,
+      sources: [{ uri: "https://example.com/fixtures/location", title: "Offline Fixture: Coordinate Scan" }]
+    };
+  };
+
+  const fetchEarthData = (category: EarthCategory, query?: string) => respond(categoryFixture(category, query));
+
+  const analyzeLocation = (lat: number, lon: number) => respond(locationFixture(lat, lon));
+
+  const comparisonFixture = (targets: ComparisonTarget[], focus?: string): GeminiResponse => {
+    const rows = targets.map(t => {
+      const band = bandFor(t.lat);
+      return { label: t.label, band, line: `${t.label}: ${band.zone}, ${band.temp}°C, ${band.conditions}.` };
+    });
+    const warmest = rows.reduce((a, b) => (b.band.temp > a.band.temp ? b : a));
+    const coldest = rows.reduce((a, b) => (b.band.temp < a.band.temp ? b : a));
+    return {
+      text: [
+        `COMPARISON${focus ? ` // ${focus.toUpperCase()}` : ''}`,
+        ...rows.map(r => r.line),
+        `SYNTHESIS: ${warmest.label} is the warmest sector and ${coldest.label} the coldest, a spread of ${warmest.band.temp - coldest.band.temp}°C driven by latitude.`,
+      ].join('\n'),
+    };
+  };
+
+  const askFollowUp = (question: string, context: FollowUpContext, streamOptions: StreamOptions = {}) => {
+    const subject = context.location
+      ? `sector ${formatLatLon(context.location)}`
+      : context.category ?? 'the current sector';
+    const turn = Math.floor(context.history.length / 2) + 1;
+    return streamResponse({
+      text: `Offline mode, query ${turn}: "${question}" regarding ${subject} logged. Live analysis requires a network knowledge provider.`
+    }, streamOptions);
+  };
+
+  return {
+    id: 'mock',
+    label: 'LOCAL_FIXTURES',
+    fetchEarthData,
+    analyzeLocation,
+    askFollowUp,
+    streamEarthData: (category, query, streamOptions) => streamResponse(categoryFixture(category, query), streamOptions),
+    streamLocationAnalysis: (lat, lon, streamOptions, context) => streamResponse(locationFixture(lat, lon, context), streamOptions),
+    compareLocations: (targets, focus, streamOptions) => streamResponse(comparisonFixture(targets, focus), streamOptions),
+  };
+};
@@ -0,0 +1,167 @@
+import { GestureEvent, NavInput } from "../types";
+
+// Keyboard and gamepad navigation. Held keys and sticks become rotate/zoom rates on
+// a shared NavInput; discrete actions become events, like the gesture engine's.
+//
+// Keys (ignored while typing or with Ctrl/Alt/Meta held):
+//   Arrows / WASD  rotate        Q / E, - / +  zoom out / in
+//   Enter / Space  scan under the crosshair
+//   1-9            sector shortcuts            0 / Home  reset view
+// N, B, P, V and Escape are left to the tour player and voice console.
+//
+// Gamepad (standard mapping): left stick / d-pad rotate, right stick zooms,
+// A scans, Y resets, LB / RB step through sectors.
+
+const EVENT_BUFFER = 16;
+const STICK_DEADZONE = 0.15;
+
+const ROTATE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0], a: [-1, 0],
+  ArrowRight: [1, 0], d: [1, 0],
+  ArrowUp: [0, 1], w: [0, 1],
+  ArrowDown: [0, -1], s: [0, -1],
+};
+const ZOOM_KEYS: Record<string, number> = { e: 1, '+': 1, '=': 1, q: -1, '-': -1 };
+
+const BUTTON_A = 0;
+const BUTTON_Y = 3;
+const BUTTON_LB = 4;
+const BUTTON_RB = 5;
+const DPAD = { up: 12, down: 13, left: 14, right: 15 };
+
+export interface NavHandlers {
+  // Digit shortcut, 0-based
+  onCategory: (index: number) => void;
+  // Shoulder buttons step through sectors
+  onCategoryStep: (direction: 1 | -1) => void;
+}
+
+export const createNavInput = (): NavInput => ({
+  rotate: { x: 0, y: 0 },
+  zoom: 0,
+  crosshair: false,
+  events: [],
+});
+
+const isInteractive = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'A'].includes(target.tagName));
+
+const deadzone = (value: number) => Math.abs(value) < STICK_DEADZONE ? 0 : value;
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+// Registers the listeners and gamepad poll; returns the detach function
+export const attachNavControls = (nav: NavInput, handlers: NavHandlers) => {
+  const heldKeys = new Set<string>();
+  let seq = 0;
+  let keyRotate = { x: 0, y: 0 };
+  let keyZoom = 0;
+  let previousButtons: boolean[] = [];
+
+  const emit = (event: GestureEvent) => {
+    nav.events = [...nav.events, event].slice(-EVENT_BUFFER);
+  };
+
+  const updateKeyRates = () => {
+    keyRotate = { x: 0, y: 0 };
+    keyZoom = 0;
+    heldKeys.forEach(key => {
+      const rotate = ROTATE_KEYS[key];
+      if (rotate) {
+        keyRotate.x += rotate[0];
+        keyRotate.y += rotate[1];
+      }
+      keyZoom += ZOOM_KEYS[key] ?? 0;
+    });
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.altKey || e.metaKey) return;
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+
+    if (ROTATE_KEYS[key] || ZOOM_KEYS[key] !== undefined) {
+      // Arrow keys still scroll lists and move sliders when those have focus
+      if (isInteractive(e.target)) return;
+      heldKeys.add(key);
+      updateKeyRates();
+      nav.crosshair = true;
+      e.preventDefault();
+      return;
+    }
+    if (isInteractive(e.target) || e.repeat) return;
+
+    if (key === 'Enter' || key === ' ') {
+      // The first press only reveals the crosshair so nothing is scanned blind
+      if (nav.crosshair) emit({ seq: ++seq, type: 'select', x: 0.5, y: 0.5 });
+      nav.crosshair = true;
+    } else if (key === '0' || key === 'Home') {
+      emit({ seq: ++seq, type: 'reset' });
+    } else if (/^[1-9]$/.test(key)) {
+      handlers.onCategory(Number(key) - 1);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  const onKeyUp = (e: KeyboardEvent) => {
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    if (heldKeys.delete(key)) updateKeyRates();
+  };
+
+  // Releasing everything on blur stops the globe spinning after an alt-tab
+  const onBlur = () => {
+    heldKeys.clear();
+    updateKeyRates();
+  };
+
+  // Going back to the mouse hides the crosshair
+  const onPointerMove = (e: PointerEvent) => {
+    if (e.pointerType === 'mouse' && (e.movementX || e.movementY)) nav.crosshair = false;
+  };
+
+  let frame: number;
+  const poll = () => {
+    frame = requestAnimationFrame(poll);
+    let padRotate = { x: 0, y: 0 };
+    let padZoom = 0;
+    const pad = Array.from(navigator.getGamepads?.() ?? []).find(p => p?.connected);
+
+    if (pad) {
+      const pressed = pad.buttons.map(b => b.pressed);
+      const down = (i: number) => pressed[i] && !previousButtons[i];
+      padRotate = {
+        x: deadzone(pad.axes[0] ?? 0) + (pressed[DPAD.right] ? 1 : 0) - (pressed[DPAD.left] ? 1 : 0),
+        y: -deadzone(pad.axes[1] ?? 0) + (pressed[DPAD.up] ? 1 : 0) - (pressed[DPAD.down] ? 1 : 0),
+      };
+      padZoom = -deadzone(pad.axes[3] ?? 0);
+
+      if (padRotate.x || padRotate.y || padZoom) nav.crosshair = true;
+      if (down(BUTTON_A)) {
+        if (nav.crosshair) emit({ seq: ++seq, type: 'select', x: 0.5, y: 0.5 });
+        nav.crosshair = true;
+      }
+      if (down(BUTTON_Y)) emit({ seq: ++seq, type: 'reset' });
+      if (down(BUTTON_LB)) handlers.onCategoryStep(-1);
+      if (down(BUTTON_RB)) handlers.onCategoryStep(1);
+      previousButtons = pressed;
+    }
+
+    nav.rotate = { x: clampUnit(keyRotate.x + padRotate.x), y: clampUnit(keyRotate.y + padRotate.y) };
+    nav.zoom = clampUnit(keyZoom + padZoom);
+  };
+  poll();
+
+  window.addEventListener('keydown', onKeyDown);
+  window.addEventListener('keyup', onKeyUp);
+  window.addEventListener('blur', onBlur);
+  window.addEventListener('pointermove', onPointerMove);
+  return () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener('keydown', onKeyDown);
+    window.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('blur', onBlur);
+    window.removeEventListener('pointermove', onPointerMove);
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { paintGrid, parseCsvGrid, parseJsonGrid, rampColor } from './raster';
+
+describe('parseJsonGrid', () => {
+  it('reads values row by row with null as no data', () => {
+    const { grid, units } = parseJsonGrid({ width: 3, height: 2, values: [1, 2, null, 4, 5, 6], units: 'mm' });
+    expect(grid.width).toBe(3);
+    expect(grid.height).toBe(2);
+    expect(Array.from(grid.values)).toEqual([1, 2, NaN, 4, 5, 6]);
+    expect([grid.min, grid.max]).toEqual([1, 6]);
+    expect(units).toBe('mm');
+  });
+
+  it('rejects files that are not grids', () => {
+    expect(() => parseJsonGrid(null)).toThrow('Not a grid file');
+    expect(() => parseJsonGrid([1, 2, 3])).toThrow('Not a grid file');
+    expect(() => parseJsonGrid({ width: 1.5, height: 2, values: [] })).toThrow('Not a grid file');
+    expect(() => parseJsonGrid({ width: 0, height: 2, values: [] })).toThrow('Not a grid file');
+    expect(() => parseJsonGrid({ width: 2, height: 2, values: [1, 2, 3] })).toThrow('Grid has 3 values, expected 4');
+    expect(() => parseJsonGrid({ width: 4000, height: 1, values: [] })).toThrow('Grid larger than');
+    expect(() => parseJsonGrid({ width: 1, height: 2, values: [null, null] })).toThrow('Grid contains no values');
+  });
+});
+
+describe('parseCsvGrid', () => {
+  it('sizes the grid from the point spacing and places rows north to south', () => {
+    // 90° spacing: a 4 x 2 grid with two cells set in the north and one in the south
+    const { grid, units } = parseCsvGrid('lat,lon,temp\n45,-135,10\n45,-45,20\n-45,-135,30\n');
+    expect(units).toBe('temp');
+    expect([grid.width, grid.height]).toEqual([4, 2]);
+    expect(Array.from(grid.values)).toEqual([10, 20, NaN, NaN, 30, NaN, NaN, NaN]);
+  });
+
+  it('finds columns by header name in any order', () => {
+    const { grid } = parseCsvGrid('value;longitude;latitude\n7;90;0\n8;-90;0');
+    expect([grid.min, grid.max]).toEqual([7, 8]);
+  });
+
+  it('reads headerless files as lat, lon, value', () => {
+    const { grid, units } = parseCsvGrid('10\t20\t1.5\n10\t21\t2.5');
+    expect(units).toBe('');
+    expect([grid.min, grid.max]).toEqual([1.5, 2.5]);
+  });
+
+  it('reports unusable files', () => {
+    expect(() => parseCsvGrid('  \n')).toThrow('CSV is empty');
+    expect(() => parseCsvGrid('x,y,z\n1,2,3')).toThrow('CSV header needs lat and lon columns');
+    expect(() => parseCsvGrid('lat,lon\n1,2')).toThrow('CSV has no value column');
+    expect(() => parseCsvGrid('95,0,1\nabc')).toThrow('CSV has no valid lat/lon rows');
+  });
+});
+
+describe('ramps', () => {
+  it('clamps to the end stops and paints missing cells transparent', () => {
+    expect(rampColor('greys', -1)).toEqual([0, 0, 0]);
+    expect(rampColor('greys', 2)).toEqual([255, 255, 255]);
+    expect(rampColor('greys', 0.5)).toEqual([127.5, 127.5, 127.5]);
+    // One column, top row first in the grid but last in the texture
+    const pixels = paintGrid([0, NaN], 1, 2, 'greys', [0, 1]);
+    expect(Array.from(pixels)).toEqual([0, 0, 0, 0, 0, 0, 0, 255]);
+  });
+});
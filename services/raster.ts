@@ -0,0 +1,198 @@
+import { ColorRampName, LocationData, RasterGrid, RasterLayer } from "../types";
+import { isRecord, parseJson } from "../utils/json";
+
+// Keeps decoded grids and their textures within a few tens of MB
+const MAX_WIDTH = 3600;
+const MAX_HEIGHT = 1800;
+
+export const COLOR_RAMPS: Record<ColorRampName, string[]> = {
+  viridis: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+  inferno: ['#000004', '#57106e', '#bc3754', '#f98e09', '#fcffa4'],
+  thermal: ['#313695', '#74add1', '#f7f7f7', '#f46d43', '#a50026'],
+  greys: ['#000000', '#ffffff'],
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const RAMP_RGB = Object.fromEntries(
+  Object.entries(COLOR_RAMPS).map(([name, stops]) => [name, stops.map(hexToRgb)])
+) as Record<ColorRampName, [number, number, number][]>;
+
+// t in [0, 1] (clamped); linear interpolation between the ramp's stops
+export const rampColor = (ramp: ColorRampName, t: number): [number, number, number] => {
+  const stops = RAMP_RGB[ramp];
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(x));
+  const f = x - i;
+  const [a, b] = [stops[i], stops[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+// RGBA pixels for grid values through a ramp, rows flipped for a bottom-up texture.
+// Cells without data stay transparent.
+export const paintGrid = (
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  ramp: ColorRampName,
+  range: [number, number],
+  target = new Uint8Array(width * height * 4)
+) => {
+  const span = range[1] - range[0] || 1;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const value = values[row * width + col];
+      const p = ((height - 1 - row) * width + col) * 4;
+      if (Number.isNaN(value)) {
+        target[p + 3] = 0;
+        continue;
+      }
+      const [r, g, b] = rampColor(ramp, (value - range[0]) / span);
+      target[p] = r;
+      target[p + 1] = g;
+      target[p + 2] = b;
+      target[p + 3] = 255;
+    }
+  }
+  return target;
+};
+
+export const rampGradient = (ramp: ColorRampName) => `linear-gradient(to right, ${COLOR_RAMPS[ramp].join(', ')})`;
+
+const createGrid = (width: number, height: number, values: Float32Array): RasterGrid => {
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(v => {
+    if (Number.isNaN(v)) return;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  });
+  if (min === Infinity) throw new Error("Grid contains no values");
+  return { width, height, values, min, max };
+};
+
+// Smallest spacing between distinct coordinates, i.e. the grid resolution
+const gridStep = (coords: number[], fallback: number) => {
+  const sorted = [...new Set(coords)].sort((a, b) => a - b);
+  let step = Infinity;
+  for (let i = 1; i < sorted.length; i++) step = Math.min(step, sorted[i] - sorted[i - 1]);
+  return Number.isFinite(step) && step > 0 ? step : fallback;
+};
+
+// CSV of lat,lon,value rows (cell centres). A header row may name the columns in any order.
+export const parseCsvGrid = (text: string): { grid: RasterGrid; units: string } => {
+  const rows = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => line.split(/[,;\t]/).map(cell => cell.trim()));
+  if (rows.length === 0) throw new Error("CSV is empty");
+
+  let [latCol, lonCol, valueCol] = [0, 1, 2];
+  let units = '';
+  if (rows[0].some(cell => cell !== '' && Number.isNaN(Number(cell)))) {
+    const header = rows.shift()!.map(cell => cell.toLowerCase());
+    latCol = header.findIndex(h => h === 'lat' || h === 'latitude');
+    lonCol = header.findIndex(h => ['lon', 'lng', 'long', 'longitude'].includes(h));
+    if (latCol < 0 || lonCol < 0) throw new Error("CSV header needs lat and lon columns");
+    valueCol = header.findIndex((h, i) => i !== latCol && i !== lonCol);
+    if (valueCol < 0) throw new Error("CSV has no value column");
+    units = header[valueCol];
+  }
+
+  const points = rows
+    .map(row => ({ lat: Number(row[latCol]), lon: Number(row[lonCol]), value: row[valueCol] === '' ? NaN : Number(row[valueCol]) }))
+    .filter(p => Number.isFinite(p.lat) && Number.isFinite(p.lon) && Math.abs(p.lat) <= 90);
+  if (points.length === 0) throw new Error("CSV has no valid lat/lon rows");
+
+  const width = Math.min(MAX_WIDTH, Math.round(360 / gridStep(points.map(p => p.lon), 1)));
+  const height = Math.min(MAX_HEIGHT, Math.round(180 / gridStep(points.map(p => p.lat), 1)));
+  const values = new Float32Array(width * height).fill(NaN);
+  points.forEach(({ lat, lon, value }) => {
+    const col = Math.min(width - 1, Math.floor(((lon + 180) % 360 + 360) % 360 / 360 * width));
+    const row = Math.min(height - 1, Math.floor((90 - lat) / 180 * height));
+    values[row * width + col] = value;
+  });
+  return { grid: createGrid(width, height, values), units };
+};
+
+const isPositiveInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// JSON float grid: { width, height, values: (number | null)[], units? }, rows north to south
+export const parseJsonGrid = (json: unknown): { grid: RasterGrid; units: string } => {
+  const { width, height, values, units } = isRecord(json) ? json : {};
+  if (!isPositiveInteger(width) || !isPositiveInteger(height) || !Array.isArray(values)) {
+    throw new Error("Not a grid file (expected width, height and a values array)");
+  }
+  if (width > MAX_WIDTH || height > MAX_HEIGHT) throw new Error(`Grid larger than ${MAX_WIDTH}x${MAX_HEIGHT}`);
+  if (values.length !== width * height) throw new Error(`Grid has ${values.length} values, expected ${width * height}`);
+  const data = Float32Array.from(values, (v: unknown) => typeof v === 'number' ? v : NaN);
+  return { grid: createGrid(width, height, data), units: typeof units === 'string' ? units : '' };
+};
+
+// Greyscale PNG: luminance 0-255 is the value, transparent pixels have no data.
+// Large images are downsampled to the grid size limit.
+export const decodeImageGrid = async (blob: Blob): Promise<RasterGrid> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, MAX_WIDTH / bitmap.width, MAX_HEIGHT / bitmap.height);
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    const p = i * 4;
+    values[i] = pixels[p + 3] === 0 ? NaN : 0.2126 * pixels[p] + 0.7152 * pixels[p + 1] + 0.0722 * pixels[p + 2];
+  }
+  return createGrid(width, height, values);
+};
+
+export const createRasterLayer = (name: string, source: string, grid: RasterGrid, units: string, layerIndex: number): RasterLayer => ({
+  id: `raster-${Date.now()}-${layerIndex}`,
+  name,
+  source,
+  visible: true,
+  grid,
+  ramp: 'viridis',
+  opacity: 0.7,
+  // Float32 storage leaves long tails on the extremes; round them for the legend inputs
+  range: [Number(grid.min.toPrecision(4)), Number(grid.max.toPrecision(4))],
+  units,
+});
+
+// Picks the parser from the file name or MIME type: PNG, CSV, else a JSON grid
+export const parseRasterBlob = async (name: string, blob: Blob): Promise<{ grid: RasterGrid; units: string }> => {
+  if (/\.png$/i.test(name) || blob.type === 'image/png') return { grid: await decodeImageGrid(blob), units: '' };
+  if (/\.(csv|tsv|txt)$/i.test(name) || blob.type === 'text/csv') return parseCsvGrid(await blob.text());
+  return parseJsonGrid(parseJson(await blob.text()));
+};
+
+export const loadRasterFromFile = async (file: File, layerIndex: number): Promise<RasterLayer> => {
+  const { grid, units } = await parseRasterBlob(file.name, file);
+  return createRasterLayer(file.name, file.name, grid, units, layerIndex);
+};
+
+export const loadRasterFromUrl = async (url: string, layerIndex: number): Promise<RasterLayer> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${url}`);
+  const name = decodeURIComponent(url.split('/').pop()?.split('?')[0] || 'Remote grid');
+  const { grid, units } = await parseRasterBlob(name, await response.blob());
+  return createRasterLayer(name, url, grid, units, layerIndex);
+};
+
+// Nearest-cell value, or null where the grid has no data
+export const sampleGrid = (grid: RasterGrid, location: LocationData) => {
+  const col = Math.min(grid.width - 1, Math.floor(((location.lon + 180) % 360 + 360) % 360 / 360 * grid.width));
+  const row = Math.min(grid.height - 1, Math.max(0, Math.floor((90 - location.lat) / 180 * grid.height)));
+  const value = grid.values[row * grid.width + col];
+  return Number.isNaN(value) ? null : value;
+};
+
+export const formatRasterValue = (value: number) =>
+  Math.abs(value) >= 1000 || Number.isInteger(value) ? Math.round(value).toLocaleString() : value.toPrecision(3);
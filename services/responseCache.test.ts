@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GeminiResponse, KnowledgeProvider, LocationReport } from '../types';
+import { withResponseCache } from './responseCache';
+
+const REPORT: LocationReport = {
+  regionName: 'Test Region', country: null, climateZone: 'Temperate', temperatureC: 12,
+  conditions: 'Clear', populationEstimate: null, fact: 'A fact.', confidence: 0.8,
+};
+
+// Provider whose coordinate scans answer with `scan`; IndexedDB is absent here, so the cache is memory-only
+const provider = (scan: GeminiResponse) => {
+  const streamLocationAnalysis = vi.fn(async () => scan);
+  const stub = {
+    id: 'stub',
+    label: 'Stub',
+    fetchEarthData: async () => ({ text: 'category' }),
+    analyzeLocation: async () => scan,
+    askFollowUp: async () => ({ text: 'answer' }),
+    streamEarthData: async () => ({ text: 'category' }),
+    streamLocationAnalysis,
+    compareLocations: async () => ({ text: 'comparison' }),
+  } satisfies KnowledgeProvider;
+  return { cache: withResponseCache(stub), streamLocationAnalysis };
+};
+
+describe('withResponseCache', () => {
+  it('serves a repeated coordinate scan from the cache', async () => {
+    const { cache, streamLocationAnalysis } = provider({ text: 'report', report: REPORT });
+    await cache.streamLocationAnalysis(10, 20, {});
+    const second = await cache.streamLocationAnalysis(10.1, 20.1, {});
+    expect(streamLocationAnalysis).toHaveBeenCalledTimes(1);
+    expect(second.cachedAt).toBeTypeOf('number');
+  });
+
+  it.each([
+    ['an unvalidated report', { text: 'REGION: somewhere' }],
+    ['a failure', { text: 'Telemetry link failed.', failed: true }],
+  ])('does not cache %s', async (_, scan) => {
+    const { cache, streamLocationAnalysis } = provider(scan);
+    await cache.streamLocationAnalysis(10, 20, {});
+    await cache.streamLocationAnalysis(10, 20, {});
+    expect(streamLocationAnalysis).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,159 @@
+import { EarthCategory, GeminiResponse, KnowledgeProvider, LocationContext, StreamOptions } from "../types";
+
+// --- Cache policy ---
+// Weather changes quickly, category summaries barely at all
+export const LOCATION_TTL_MS = 15 * 60 * 1000;
+export const CATEGORY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'holoearth-cache';
+const STORE_NAME = 'responses';
+
+interface CacheEntry {
+  key: string;
+  response: GeminiResponse;
+  storedAt: number;
+  expiresAt: number;
+}
+
+interface ResponseCacheOptions {
+  // Coordinate scans are snapped to this grid (degrees) before keying
+  gridDegrees?: number;
+  locationTtlMs?: number;
+  categoryTtlMs?: number;
+}
+
+// Snap to the grid so nearly identical clicks share one cache entry
+export const snapToGrid = (value: number, gridDegrees: number) =>
+  Math.round(value / gridDegrees) * gridDegrees;
+
+// --- IndexedDB persistence ---
+// Falls back to the in-memory map alone when IndexedDB is unavailable (private mode, tests)
+const openDatabase = (): Promise<IDBDatabase | null> =>
+  new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("Response cache unavailable:", request.error);
+      resolve(null);
+    };
+  });
+
+const createStore = () => {
+  const memory = new Map<string, CacheEntry>();
+  const dbPromise = openDatabase();
+
+  const get = async (key: string): Promise<CacheEntry | undefined> => {
+    const cached = memory.get(key);
+    if (cached) return cached;
+
+    const db = await dbPromise;
+    if (!db) return undefined;
+    return new Promise(resolve => {
+      let request: IDBRequest;
+      try {
+        request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      } catch (error) {
+        console.warn("Response cache read failed:", error);
+        return resolve(undefined);
+      }
+      request.onsuccess = () => {
+        const entry = request.result as CacheEntry | undefined;
+        if (entry) memory.set(key, entry);
+        resolve(entry);
+      };
+      request.onerror = () => resolve(undefined);
+    });
+  };
+
+  // Callers don't await writes, so failures are logged here rather than rejected
+  // (transaction() throws synchronously once the connection has closed)
+  const write = async (apply: (objects: IDBObjectStore) => void) => {
+    const db = await dbPromise;
+    if (!db) return;
+    try {
+      apply(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME));
+    } catch (error) {
+      console.warn("Response cache write failed:", error);
+    }
+  };
+
+  const put = (entry: CacheEntry) => {
+    memory.set(entry.key, entry);
+    return write(objects => objects.put(entry));
+  };
+
+  const remove = (key: string) => {
+    memory.delete(key);
+    return write(objects => objects.delete(key));
+  };
+
+  return { get, put, remove };
+};
+
+// Decorates a provider so category and coordinate lookups are served from cache
+// while fresh. Follow-up questions always go to the underlying provider.
+export const withResponseCache = (provider: KnowledgeProvider, options: ResponseCacheOptions = {}): KnowledgeProvider => {
+  const gridDegrees = options.gridDegrees || 0.5;
+  const locationTtlMs = options.locationTtlMs ?? LOCATION_TTL_MS;
+  const categoryTtlMs = options.categoryTtlMs ?? CATEGORY_TTL_MS;
+  const store = createStore();
+
+  const categoryKey = (category: EarthCategory, query?: string) =>
+    `${provider.id}:category:${category}:${query?.trim().toLowerCase() ?? ''}`;
+
+  // Scans with feature context get their own entry: the prompt (and answer) differ
+  const locationKey = (lat: number, lon: number, context?: LocationContext) =>
+    `${provider.id}:location:${snapToGrid(lat, gridDegrees).toFixed(3)},${snapToGrid(lon, gridDegrees).toFixed(3)}` +
+    (context ? `:${JSON.stringify(context)}` : '');
+
+  const lookup = async (key: string): Promise<GeminiResponse | null> => {
+    const entry = await store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      store.remove(key);
+      return null;
+    }
+    return { ...entry.response, cachedAt: entry.storedAt };
+  };
+
+  const cached = async (
+    key: string,
+    ttlMs: number,
+    fetch: () => Promise<GeminiResponse>,
+    { signal, onText }: StreamOptions = {},
+    cacheable = (response: GeminiResponse) => !response.failed
+  ): Promise<GeminiResponse> => {
+    const hit = await lookup(key);
+    if (hit) {
+      signal?.throwIfAborted();
+      onText?.(hit.text);
+      return hit;
+    }
+
+    const response = await fetch();
+    if (cacheable(response)) {
+      const now = Date.now();
+      store.put({ key, response, storedAt: now, expiresAt: now + ttlMs });
+    }
+    return response;
+  };
+
+  // A scan whose JSON didn't validate is shown as plain text but not kept, so the next scan retries
+  const isReport = (response: GeminiResponse) => !response.failed && !!response.report;
+
+  return {
+    ...provider,
+    fetchEarthData: (category, query) =>
+      cached(categoryKey(category, query), categoryTtlMs, () => provider.fetchEarthData(category, query)),
+    analyzeLocation: (lat, lon) =>
+      cached(locationKey(lat, lon), locationTtlMs, () => provider.analyzeLocation(lat, lon), {}, isReport),
+    streamEarthData: (category, query, streamOptions) =>
+      cached(categoryKey(category, query), categoryTtlMs, () => provider.streamEarthData(category, query, streamOptions), streamOptions),
+    streamLocationAnalysis: (lat, lon, streamOptions, context) =>
+      cached(locationKey(lat, lon, context), locationTtlMs, () => provider.streamLocationAnalysis(lat, lon, streamOptions, context), streamOptions, isReport),
+  };
+};
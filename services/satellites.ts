@@ -0,0 +1,132 @@
+import { LocationContext, LocationData } from "../types";
+import { Vec3, toDeg, toRad } from "../utils/geodesy";
+import { Sgp4Model, initSgp4, minutesSinceEpoch, parseTle, propagate } from "../utils/sgp4";
+import { greenwichSiderealTime } from "../utils/solar";
+import { SAMPLE_TLE, SAMPLE_TLE_SOURCE } from "../data/tle";
+
+// WGS-84, for geodetic sub-satellite latitude and altitude
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+export interface Satellite {
+  id: string; // NORAD catalogue number
+  name: string;
+  model: Sgp4Model;
+}
+
+export interface SatelliteCatalog {
+  source: string; // URL, file name or "Bundled sample"
+  satellites: Satellite[];
+  // Malformed or deep-space element sets left out
+  skipped: number;
+}
+
+export interface SatelliteState {
+  // Earth-fixed position (km, +Z north, +X through lon 0)
+  ecef: Vec3;
+  // Geodetic sub-satellite point
+  location: LocationData;
+  altitudeKm: number;
+  speedKmS: number; // inertial
+}
+
+// Accepts 3-line (name + elements) and bare 2-line sets, in any mix
+export const parseTleCatalog = (text: string, source: string): SatelliteCatalog => {
+  const lines = text.split(/\r?\n/).map(line => line.trimEnd()).filter(line => line.trim());
+  const satellites: Satellite[] = [];
+  let skipped = 0;
+  let deepSpace = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const named = !lines[i].startsWith('1 ');
+    const [line1, line2] = named ? [lines[i + 1], lines[i + 2]] : [lines[i], lines[i + 1]];
+    if (!line1?.startsWith('1 ') || !line2?.startsWith('2 ')) continue;
+    const name = named ? lines[i].replace(/^0 /, '').trim() : `NORAD ${line1.slice(2, 7).trim()}`;
+    i += named ? 2 : 1;
+
+    try {
+      const model = initSgp4(parseTle(line1, line2));
+      if (!model) {
+        deepSpace++;
+        skipped++;
+        continue;
+      }
+      satellites.push({ id: model.elements.catalogNumber, name, model });
+    } catch (error) {
+      console.error(`Skipping element set for ${name}:`, error);
+      skipped++;
+    }
+  }
+
+  if (satellites.length === 0) {
+    if (deepSpace) throw new Error("No near-Earth satellites in file (deep-space orbits aren't supported)");
+    throw new Error(skipped ? `None of the ${skipped} element sets could be read` : "No two-line element sets found");
+  }
+  return { source, satellites, skipped };
+};
+
+// Iterative ECEF -> geodetic conversion; converges to sub-metre in a few passes
+const toGeodetic = ({ x, y, z }: Vec3) => {
+  const p = Math.hypot(x, y);
+  let lat = Math.atan2(z, p * (1 - WGS84_E2));
+  let height = 0;
+  for (let i = 0; i < 5; i++) {
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * Math.sin(lat) ** 2);
+    height = p / Math.cos(lat) - n;
+    lat = Math.atan2(z, p * (1 - WGS84_E2 * n / (n + height)));
+  }
+  return { location: { lat: toDeg(lat), lon: toDeg(Math.atan2(y, x)) }, altitudeKm: height };
+};
+
+// TEME is rotated into the Earth-fixed frame by sidereal time (polar motion ignored)
+export const satelliteState = (satellite: Satellite, timeMs: number): SatelliteState | null => {
+  const state = propagate(satellite.model, minutesSinceEpoch(satellite.model, timeMs));
+  if (!state) return null;
+
+  const theta = toRad(greenwichSiderealTime(new Date(timeMs)));
+  const { x, y, z } = state.position;
+  const ecef = {
+    x: Math.cos(theta) * x + Math.sin(theta) * y,
+    y: -Math.sin(theta) * x + Math.cos(theta) * y,
+    z,
+  };
+  const { x: vx, y: vy, z: vz } = state.velocity;
+  return { ecef, ...toGeodetic(ecef), speedKmS: Math.sqrt(vx * vx + vy * vy + vz * vz) };
+};
+
+// Geocentric sub-satellite points from `fromMin` to `toMin` minutes around `timeMs`
+export const groundTrack = (satellite: Satellite, timeMs: number, fromMin: number, toMin: number, stepMin = 1): LocationData[] => {
+  const points: LocationData[] = [];
+  for (let t = fromMin; t <= toMin; t += stepMin) {
+    const state = satelliteState(satellite, timeMs + t * 60000);
+    if (!state) continue;
+    const { x, y, z } = state.ecef;
+    points.push({ lat: toDeg(Math.atan2(z, Math.hypot(x, y))), lon: toDeg(Math.atan2(y, x)) });
+  }
+  return points;
+};
+
+// Handed to the location analysis so the report is about the satellite's overflight
+export const satelliteContext = (satellite: Satellite, state: SatelliteState, timeMs: number): LocationContext => ({
+  title: `Ground point beneath ${satellite.name}`,
+  properties: {
+    satellite: satellite.name,
+    noradId: satellite.id,
+    altitudeKm: Math.round(state.altitudeKm),
+    speedKmPerSec: Number(state.speedKmS.toFixed(2)),
+    orbitalPeriodMin: Number(satellite.model.periodMinutes.toFixed(1)),
+    time: new Date(timeMs).toISOString(),
+  },
+});
+
+export const loadSampleCatalog = () => parseTleCatalog(SAMPLE_TLE, SAMPLE_TLE_SOURCE);
+
+export const loadTleFromUrl = async (url: string): Promise<SatelliteCatalog> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${url}`);
+  return parseTleCatalog(await response.text(), url);
+};
+
+export const loadTleFromFile = async (file: File): Promise<SatelliteCatalog> =>
+  parseTleCatalog(await file.text(), file.name);
@@ -0,0 +1,63 @@
+import { HistoryEntry } from "../types";
+import { downloadFile, fileTimestamp } from "../utils/download";
+import { formatLatLon } from "../utils/geodesy";
+
+export type ExportFormat = 'markdown' | 'json' | 'csv';
+
+const KIND_LABELS: Record<HistoryEntry['kind'], string> = {
+  category: 'Sector summary',
+  location: 'Coordinate scan',
+  comparison: 'Comparison',
+};
+
+export const historyToMarkdown = (entries: HistoryEntry[]) => {
+  const lines = [`# HoloEarth Session`, ``, `Exported ${new Date().toISOString()} · ${entries.length} scans`, ``];
+  entries.forEach(entry => {
+    lines.push(`## ${entry.title}`, ``);
+    lines.push(`- **Type:** ${KIND_LABELS[entry.kind]}`);
+    lines.push(`- **Time:** ${new Date(entry.timestamp).toISOString()}`);
+    if (entry.location) lines.push(`- **Location:** ${formatLatLon(entry.location)} (${entry.location.lat.toFixed(4)}, ${entry.location.lon.toFixed(4)})`);
+    if (entry.result.cachedAt) lines.push(`- **Cached from:** ${new Date(entry.result.cachedAt).toISOString()}`);
+    lines.push(``, entry.result.text, ``);
+    if (entry.result.sources?.length) {
+      lines.push(`Sources:`, ``);
+      entry.result.sources.forEach(source => lines.push(`- [${source.title || source.uri}](${source.uri})`));
+      lines.push(``);
+    }
+  });
+  return lines.join('\n');
+};
+
+export const historyToJson = (entries: HistoryEntry[]) =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2);
+
+const csvCell = (value: string | number | undefined | null) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per scan; sources are joined into a single cell
+export const historyToCsv = (entries: HistoryEntry[]) => {
+  const header = ['timestamp', 'type', 'title', 'lat', 'lon', 'text', 'sources'];
+  const rows = entries.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    entry.kind,
+    entry.title,
+    entry.location?.lat.toFixed(4),
+    entry.location?.lon.toFixed(4),
+    entry.result.text,
+    entry.result.sources?.map(source => source.uri).join(' | '),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+const FORMATS: Record<ExportFormat, { extension: string; type: string; render: (entries: HistoryEntry[]) => string }> = {
+  markdown: { extension: 'md', type: 'text/markdown', render: historyToMarkdown },
+  json: { extension: 'json', type: 'application/json', render: historyToJson },
+  csv: { extension: 'csv', type: 'text/csv', render: historyToCsv },
+};
+
+export const downloadHistory = (entries: HistoryEntry[], format: ExportFormat) => {
+  const { extension, type, render } = FORMATS[format];
+  downloadFile(render(entries), `holoearth-session-${fileTimestamp()}.${extension}`, type);
+};
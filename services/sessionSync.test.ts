@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ViewState } from '../types';
+import { VIEW_SEND_INTERVAL, createViewBuffer, pushView, sampleView } from './sessionSync';
+
+const HOUR = 60 * 60 * 1000;
+
+// Views tagged by camera distance so tests can tell whose they are
+const view = (distance: number): ViewState => ({ globe: [0, 0, 0, 1], camera: [0, 0, distance] });
+
+// Streams `count` views from a controller whose clock reads `clock` when ours reads `now`
+const stream = (buffer: ReturnType<typeof createViewBuffer>, { now, clock, count, distance }: { now: number; clock: number; count: number; distance: number }) => {
+  for (let i = 0; i < count; i++) {
+    const offset = i * VIEW_SEND_INTERVAL;
+    pushView(buffer, view(distance), clock + offset, now + offset + 20);
+  }
+  return now + count * VIEW_SEND_INTERVAL;
+};
+
+describe('view buffer', () => {
+  it('drops samples that arrive out of order', () => {
+    const buffer = createViewBuffer();
+    pushView(buffer, view(6), 1000, 5000);
+    pushView(buffer, view(7), 900, 5010);
+    expect(buffer.samples.map(sample => sample.sentAt)).toEqual([1000]);
+  });
+
+  it('plays a mirror back behind the controller', () => {
+    const buffer = createViewBuffer();
+    const now = stream(buffer, { now: 0, clock: 10 * HOUR, count: 10, distance: 6 });
+    const sample = sampleView(buffer, now);
+    expect(sample).not.toBeNull();
+    expect(sample!.t).toBeGreaterThanOrEqual(0);
+    expect(sample!.t).toBeLessThanOrEqual(1);
+  });
+
+  it.each([
+    ['behind', -HOUR],
+    ['ahead of', HOUR],
+  ])('follows a new controller whose clock is an hour %s the old one', (_, skew) => {
+    const buffer = createViewBuffer();
+    const oldClock = 10 * HOUR;
+    let now = stream(buffer, { now: 0, clock: oldClock, count: 20, distance: 6 });
+
+    // Handoff: the next views come from another display's clock
+    now = stream(buffer, { now, clock: oldClock + now + skew, count: 20, distance: 8 });
+
+    expect(buffer.samples.every(sample => sample.view.camera[2] === 8)).toBe(true);
+    const sample = sampleView(buffer, now);
+    expect(sample!.from.camera[2]).toBe(8);
+    expect(sample!.to.camera[2]).toBe(8);
+    // Still moving: the render position is inside the new stream, not pinned to its end
+    expect(sample!.t).toBeGreaterThan(0);
+  });
+});
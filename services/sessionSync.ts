@@ -0,0 +1,195 @@
+import { SessionRoster, SessionSnapshot, ViewBuffer, ViewState } from "../types";
+import { isRecord, parseJson } from "../utils/json";
+
+// Presenter/audience sync through the local relay in scripts/session-relay.mjs.
+// Every display joins a room. The controller streams its view (globe quaternion
+// and camera) and a snapshot of the selection and InfoPanel; the others mirror
+// them. Control moves with claim/handoff/release, and the relay is the only
+// judge of who holds it.
+//
+// Messages (JSON):
+//   client -> relay   join {room, name} · claim · handoff {to} · release · raise {raised}
+//                     view {view, sentAt} · snapshot {snapshot}      (controller only)
+//   relay -> client   welcome {id} · roster {roster} · error {message} · forwarded view/snapshot
+
+const SETTINGS_KEY = 'holoearth-session';
+
+// Views are sampled this often while in control, and only sent when they change
+export const VIEW_SEND_INTERVAL = 66;
+// Snapshots change with every streamed chunk of text, so they are coalesced
+const SNAPSHOT_SEND_INTERVAL = 100;
+
+// Mirrors keep this much view history and render between MIN and MAX behind the controller
+const VIEW_WINDOW_MS = 2000;
+const MIN_VIEW_DELAY_MS = 100;
+const MAX_VIEW_DELAY_MS = 1000;
+
+export type SessionStatus = 'connecting' | 'connected' | 'closed';
+
+export interface SessionSettings {
+  url: string;
+  room: string;
+  name: string;
+}
+
+export const defaultRelayUrl = () =>
+  process.env.SESSION_RELAY_URL || `ws://${window.location.hostname || 'localhost'}:8787`;
+
+export const loadSessionSettings = (): SessionSettings => {
+  const defaults = { url: defaultRelayUrl(), room: 'holoearth', name: '' };
+  try {
+    const stored = parseJson(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    if (isRecord(stored)) {
+      const { url, room, name } = stored;
+      return {
+        url: typeof url === 'string' ? url : defaults.url,
+        room: typeof room === 'string' ? room : defaults.room,
+        name: typeof name === 'string' ? name : defaults.name,
+      };
+    }
+  } catch (error) {
+    console.error("Session settings load failed:", error);
+  }
+  return defaults;
+};
+
+export const saveSessionSettings = (settings: SessionSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Session settings save failed:", error);
+  }
+};
+
+// --- View interpolation ---
+
+export const createViewBuffer = (): ViewBuffer => ({ samples: [] });
+
+export const pushView = (buffer: ViewBuffer, view: ViewState, sentAt: number, receivedAt = Date.now()) => {
+  const { samples } = buffer;
+  const last = samples[samples.length - 1];
+  // Out-of-order samples are dropped. A jump of more than the window either way (a long
+  // pause, the relay's replay on joining, or a new controller with a skewed clock) starts afresh.
+  if (last && Math.abs(sentAt - last.sentAt) > VIEW_WINDOW_MS) samples.length = 0;
+  else if (last && sentAt <= last.sentAt) return;
+  samples.push({ view, sentAt, receivedAt });
+  while (samples.length > 2 && receivedAt - samples[0].receivedAt > VIEW_WINDOW_MS) samples.shift();
+};
+
+// The two samples to blend between now, and the weight of the second. Clocks are
+// never compared directly: the fastest delivery seen maps the controller's clock
+// onto ours, and playback is held back by the recent spread in delivery times so
+// the next sample has usually arrived by the time it is needed.
+export const sampleView = (buffer: ViewBuffer, now = Date.now()) => {
+  const { samples } = buffer;
+  if (samples.length === 0) return null;
+  const transit = samples.map(sample => sample.receivedAt - sample.sentAt);
+  const fastest = Math.min(...transit);
+  const jitter = Math.max(...transit) - fastest;
+  const delay = Math.max(MIN_VIEW_DELAY_MS, Math.min(MAX_VIEW_DELAY_MS, jitter + VIEW_SEND_INTERVAL));
+  const renderAt = now - fastest - delay;
+
+  let index = samples.length - 1;
+  while (index > 0 && samples[index].sentAt > renderAt) index--;
+  const from = samples[index];
+  const to = samples[Math.min(index + 1, samples.length - 1)];
+  const span = to.sentAt - from.sentAt;
+  const t = span > 0 ? Math.max(0, Math.min(1, (renderAt - from.sentAt) / span)) : 1;
+  return { from: from.view, to: to.view, t };
+};
+
+// --- Relay connection ---
+
+export interface SessionHandlers {
+  onStatus: (status: SessionStatus) => void;
+  onWelcome: (id: string) => void;
+  onRoster: (roster: SessionRoster) => void;
+  onView: (view: ViewState, sentAt: number) => void;
+  onSnapshot: (snapshot: SessionSnapshot) => void;
+  onError: (message: string) => void;
+}
+
+const isNumberTuple = (value: unknown, length: number) =>
+  Array.isArray(value) && value.length === length && value.every(n => typeof n === 'number');
+
+// Relayed payloads come from other displays running this app, so only their shape is checked
+const isViewState = (value: unknown): value is ViewState =>
+  isRecord(value) && isNumberTuple(value.globe, 4) && isNumberTuple(value.camera, 3);
+
+const isRoster = (value: unknown): value is SessionRoster =>
+  isRecord(value) && Array.isArray(value.peers) && (typeof value.controllerId === 'string' || value.controllerId === null);
+
+const isSnapshot = (value: unknown): value is SessionSnapshot =>
+  isRecord(value) && typeof value.activeCategory === 'string' && typeof value.fact === 'string' && typeof value.loading === 'boolean';
+
+export const connectSession = ({ url, room, name }: SessionSettings, handlers: SessionHandlers) => {
+  const socket = new WebSocket(url);
+  let pendingSnapshot: SessionSnapshot | null = null;
+  let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastView = '';
+
+  const send = (message: object) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  handlers.onStatus('connecting');
+  socket.onopen = () => {
+    send({ type: 'join', room, name });
+    handlers.onStatus('connected');
+  };
+  socket.onmessage = (event) => {
+    let message: unknown;
+    try {
+      message = parseJson(event.data);
+    } catch (error) {
+      console.error("Malformed relay message:", error);
+      return;
+    }
+    if (!isRecord(message)) return;
+    const { type } = message;
+    if (type === 'welcome') handlers.onWelcome(String(message.id));
+    else if (type === 'roster' && isRoster(message.roster)) handlers.onRoster(message.roster);
+    else if (type === 'view' && isViewState(message.view) && typeof message.sentAt === 'number') handlers.onView(message.view, message.sentAt);
+    else if (type === 'snapshot' && isSnapshot(message.snapshot)) handlers.onSnapshot(message.snapshot);
+    else if (type === 'error') handlers.onError(String(message.message));
+  };
+  socket.onerror = () => handlers.onError(`Relay unreachable at ${url}`);
+  socket.onclose = () => {
+    if (snapshotTimer) clearTimeout(snapshotTimer);
+    handlers.onStatus('closed');
+  };
+
+  const flushSnapshot = () => {
+    snapshotTimer = null;
+    if (pendingSnapshot) send({ type: 'snapshot', snapshot: pendingSnapshot });
+    pendingSnapshot = null;
+  };
+
+  return {
+    claim: () => send({ type: 'claim' }),
+    handoff: (to: string) => send({ type: 'handoff', to }),
+    release: () => send({ type: 'release' }),
+    raise: (raised: boolean) => send({ type: 'raise', raised }),
+    sendView: (view: ViewState) => {
+      const key = JSON.stringify(view);
+      if (key === lastView) return;
+      lastView = key;
+      send({ type: 'view', view, sentAt: Date.now() });
+    },
+    // Leading edge goes out at once, later changes at most every SNAPSHOT_SEND_INTERVAL
+    sendSnapshot: (snapshot: SessionSnapshot) => {
+      pendingSnapshot = snapshot;
+      if (snapshotTimer) return;
+      flushSnapshot();
+      snapshotTimer = setTimeout(flushSnapshot, SNAPSHOT_SEND_INTERVAL);
+    },
+    // Forgets the last view sent so the next one goes out even if unchanged (e.g. after gaining control)
+    resendView: () => { lastView = ''; },
+    close: () => {
+      if (snapshotTimer) clearTimeout(snapshotTimer);
+      socket.close();
+    },
+  };
+};
+
+export type SessionConnection = ReturnType<typeof connectSession>;
@@ -0,0 +1,119 @@
+// Thin wrappers over the browser Web Speech APIs (recognition + synthesis).
+// Recognition is only exposed as `webkitSpeechRecognition` in Chromium, and
+// TypeScript's DOM lib doesn't declare it, so the minimal surface is typed here.
+
+interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+}
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<SpeechRecognitionAlternativeLike> & { isFinal: boolean }>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+// Not in the DOM typings yet; Chrome and Safari only ship the prefixed name
+type SpeechWindow = Window & {
+  SpeechRecognition?: SpeechRecognitionConstructor;
+  webkitSpeechRecognition?: SpeechRecognitionConstructor;
+};
+
+const recognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow: SpeechWindow = window;
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+export const isRecognitionSupported = () => !!recognitionConstructor();
+
+export const isSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+interface RecognizerOptions {
+  lang?: string;
+  // Called with the running transcript; `final` once the utterance is complete
+  onTranscript: (text: string, final: boolean) => void;
+  onError?: (error: string) => void;
+  onEnd?: () => void;
+}
+
+// One recognition session per press; start() again for the next utterance
+export const createSpeechRecognizer = (options: RecognizerOptions) => {
+  const Recognition = recognitionConstructor();
+  if (!Recognition) return null;
+
+  let session: { recognition: SpeechRecognitionLike; cancel: () => void } | null = null;
+
+  const start = () => {
+    session?.cancel();
+    const recognition = new Recognition();
+    recognition.lang = options.lang ?? navigator.language ?? 'en-US';
+    recognition.continuous = false;
+    recognition.interimResults = true;
+
+    let transcript = '';
+    let cancelled = false;
+    recognition.onresult = (event) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) transcript += result[0].transcript;
+        else interim += result[0].transcript;
+      }
+      options.onTranscript((transcript + interim).trim(), false);
+    };
+    recognition.onerror = (event) => {
+      // 'aborted' and 'no-speech' are routine when the button is released early
+      if (event.error !== 'aborted' && event.error !== 'no-speech') options.onError?.(event.error);
+    };
+    recognition.onend = () => {
+      if (session?.recognition === recognition) session = null;
+      if (!cancelled && transcript.trim()) options.onTranscript(transcript.trim(), true);
+      options.onEnd?.();
+    };
+
+    session = {
+      recognition,
+      cancel: () => {
+        cancelled = true;
+        recognition.abort();
+      }
+    };
+    recognition.start();
+  };
+
+  // Finishes the utterance; the final transcript arrives through onTranscript
+  const stop = () => session?.recognition.stop();
+
+  // Drops the utterance without reporting it
+  const abort = () => session?.cancel();
+
+  return { start, stop, abort };
+};
+
+export type SpeechRecognizer = NonNullable<ReturnType<typeof createSpeechRecognizer>>;
+
+export const speak = (text: string, onEnd?: () => void) => {
+  if (!isSynthesisSupported() || !text.trim()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = 1.05;
+  utterance.onend = () => onEnd?.();
+  utterance.onerror = () => onEnd?.();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (isSynthesisSupported()) window.speechSynthesis.cancel();
+};
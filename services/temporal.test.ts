@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createTemporalLayer, formatTimelineDate, parseFrameDate, temporalSpan } from './temporal';
+
+const BASE_URL = 'http://localhost/series/manifest.json';
+
+const grid = (...values: (number | null)[]) => ({ width: values.length, height: 1, values });
+
+describe('parseFrameDate', () => {
+  it('keeps the precision the date was written with', () => {
+    expect(parseFrameDate('1980')).toEqual({ time: Date.UTC(1980, 0, 1), precision: 'year' });
+    expect(parseFrameDate(1980)).toEqual({ time: Date.UTC(1980, 0, 1), precision: 'year' });
+    expect(parseFrameDate('1990-09')).toEqual({ time: Date.UTC(1990, 8, 1), precision: 'month' });
+    expect(parseFrameDate(' 2000-09-15 ')).toEqual({ time: Date.UTC(2000, 8, 15), precision: 'day' });
+    expect(parseFrameDate('2000-09-15T12:00:00Z')).toEqual({ time: Date.UTC(2000, 8, 15, 12), precision: 'day' });
+  });
+
+  it('handles years outside 100-9999', () => {
+    expect(new Date(parseFrameDate('50').time).getUTCFullYear()).toBe(50);
+    expect(new Date(parseFrameDate('-20000').time).getUTCFullYear()).toBe(-20000);
+  });
+
+  it('rejects missing and unreadable dates', () => {
+    expect(() => parseFrameDate(undefined)).toThrow('Frame is missing its date');
+    expect(() => parseFrameDate(' ')).toThrow('Frame is missing its date');
+    expect(() => parseFrameDate(1980.5)).toThrow('Frame is missing its date');
+    expect(() => parseFrameDate('last spring')).toThrow('Unrecognised frame date "last spring"');
+  });
+
+  it('formats back to the same precision', () => {
+    const { time } = parseFrameDate('1990-09');
+    expect(formatTimelineDate(time, 'year')).toBe('1990');
+    expect(formatTimelineDate(time, 'month')).toBe('1990-09');
+    expect(formatTimelineDate(time, 'day')).toBe('1990-09-01');
+  });
+});
+
+describe('createTemporalLayer', () => {
+  it('builds a raster series from inline grids, oldest first', async () => {
+    const layer = await createTemporalLayer({
+      name: ' Sea ice ',
+      kind: 'raster',
+      units: '%',
+      ramp: 'thermal',
+      frames: [
+        { date: '2000-09', grid: grid(10, 20) },
+        { date: 1980, grid: grid(null, 90) },
+      ],
+    }, 'ice.json', 'ice.json', 0, BASE_URL);
+    expect(layer).toMatchObject({ name: 'Sea ice', kind: 'raster', precision: 'month', ramp: 'thermal', units: '%', range: [10, 90] });
+    expect(layer.frames.map(frame => frame.label)).toEqual(['1980', '2000-09']);
+    expect(temporalSpan([layer])).toEqual({ start: Date.UTC(1980, 0, 1), end: Date.UTC(2000, 8, 1) });
+  });
+
+  it('builds a GeoJSON series and falls back on defaults', async () => {
+    const layer = await createTemporalLayer({
+      kind: 'geojson',
+      ramp: 'rainbow',
+      frames: [{ date: '2010', geojson: { type: 'Point', coordinates: [10, 20] } }],
+    }, 'points.json', 'points.json', 1, BASE_URL);
+    expect(layer).toMatchObject({ name: 'points.json', precision: 'year', ramp: 'viridis', units: '', range: [0, 1] });
+    expect(layer.frames[0].features).toHaveLength(1);
+  });
+
+  it('rejects bad manifests and names the frame that failed', async () => {
+    const create = (manifest: unknown) => createTemporalLayer(manifest, 'x', 'x', 0, BASE_URL);
+    await expect(create([])).rejects.toThrow('Manifest is not a JSON object');
+    await expect(create({ kind: 'video', frames: [] })).rejects.toThrow('Manifest "kind" must be "raster" or "geojson"');
+    await expect(create({ kind: 'raster', frames: [] })).rejects.toThrow('Manifest has no frames');
+    await expect(create({ kind: 'raster', frames: [{ date: '1990' }] })).rejects.toThrow('Frame 1990: Frame needs a url or an inline grid');
+    await expect(create({ kind: 'raster', frames: [{ grid: grid(1) }] })).rejects.toThrow('Frame 1: Frame is missing its date');
+    await expect(create({ kind: 'raster', frames: [{ date: '1990', grid: { width: 2 } }] })).rejects.toThrow('Frame 1990: Not a grid file');
+  });
+});
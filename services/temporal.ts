@@ -0,0 +1,142 @@
+import { ColorRampName, TemporalFrame, TemporalLayer } from "../types";
+import { COLOR_RAMPS, parseJsonGrid, parseRasterBlob } from "./raster";
+import { defaultOverlayStyle, parseGeoJson } from "./geojson";
+import { isRecord, parseJson } from "../utils/json";
+
+// Temporal layers are described by a JSON manifest listing dated frames:
+//
+// {
+//   "name": "Arctic sea ice",              optional, defaults to the file name
+//   "kind": "raster",                      or "geojson"
+//   "units": "%", "ramp": "thermal",       optional, raster only
+//   "frames": [
+//     { "date": "1980", "url": "ice-1980.png" },
+//     { "date": "1990-09", "grid": { "width": 360, "height": 180, "values": [...] } },
+//     { "date": "2000-09-15", "geojson": { "type": "FeatureCollection", ... } }
+//   ]
+// }
+//
+// Frame URLs are resolved against the manifest's URL. Raster frames accept the
+// same PNG/CSV/JSON grids as the DATA GRIDS panel.
+
+type Precision = TemporalLayer['precision'];
+
+const MAX_FRAMES = 200;
+const PRECISION_ORDER: Precision[] = ['year', 'month', 'day'];
+
+// "YYYY", "YYYY-MM", "YYYY-MM-DD" (or a bare year number) as UTC; other strings go through Date.parse
+export const parseFrameDate = (value: unknown): { time: number; precision: Precision } => {
+  const text = typeof value === 'number' && Number.isInteger(value) ? String(value) : value;
+  if (typeof text !== 'string' || !text.trim()) throw new Error("Frame is missing its date");
+
+  const match = text.trim().match(/^(-?\d{1,6})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (match) {
+    const [, year, month, day] = match;
+    const date = new Date(Date.UTC(2000, month ? Number(month) - 1 : 0, day ? Number(day) : 1));
+    // Date.UTC maps years 0-99 onto the 1900s
+    date.setUTCFullYear(Number(year));
+    return { time: date.getTime(), precision: day ? 'day' : month ? 'month' : 'year' };
+  }
+  const time = Date.parse(text);
+  if (Number.isNaN(time)) throw new Error(`Unrecognised frame date "${text}"`);
+  return { time, precision: 'day' };
+};
+
+export const formatTimelineDate = (time: number, precision: Precision) => {
+  const date = new Date(time);
+  if (precision === 'year') return String(date.getUTCFullYear());
+  const iso = date.toISOString();
+  return precision === 'month' ? iso.slice(0, 7) : iso.slice(0, 10);
+};
+
+export const finestPrecision = (layers: TemporalLayer[]): Precision =>
+  PRECISION_ORDER[Math.max(0, ...layers.map(layer => PRECISION_ORDER.indexOf(layer.precision)))];
+
+const fetchFrame = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${url}`);
+  return response;
+};
+
+const loadFrame = async (frame: Record<string, unknown>, kind: TemporalLayer['kind'], baseUrl: string): Promise<Omit<TemporalFrame, 'time' | 'label'>> => {
+  const url = typeof frame.url === 'string' ? new URL(frame.url, baseUrl).href : null;
+  if (kind === 'raster') {
+    if (frame.grid) return { grid: parseJsonGrid(frame.grid).grid };
+    if (!url) throw new Error("Frame needs a url or an inline grid");
+    const name = decodeURIComponent(url.split('/').pop()?.split('?')[0] ?? '');
+    return { grid: (await parseRasterBlob(name, await (await fetchFrame(url)).blob())).grid };
+  }
+  if (frame.geojson) return { features: parseGeoJson(frame.geojson) };
+  if (!url) throw new Error("Frame needs a url or inline geojson");
+  return { features: parseGeoJson(await (await fetchFrame(url)).json()) };
+};
+
+const isRampName = (value: unknown): value is ColorRampName => typeof value === 'string' && value in COLOR_RAMPS;
+
+export const createTemporalLayer = async (manifest: unknown, fallbackName: string, source: string, layerIndex: number, baseUrl = window.location.href): Promise<TemporalLayer> => {
+  if (!isRecord(manifest)) throw new Error("Manifest is not a JSON object");
+  const kind = manifest.kind;
+  if (kind !== 'raster' && kind !== 'geojson') throw new Error('Manifest "kind" must be "raster" or "geojson"');
+  if (!Array.isArray(manifest.frames) || manifest.frames.length === 0) throw new Error("Manifest has no frames");
+  if (manifest.frames.length > MAX_FRAMES) throw new Error(`More than ${MAX_FRAMES} frames`);
+
+  const frames: TemporalFrame[] = [];
+  let precision: Precision = 'year';
+  for (const raw of manifest.frames) {
+    const frame = isRecord(raw) ? raw : {};
+    const label = String(frame.date ?? '');
+    try {
+      const date = parseFrameDate(frame.date);
+      if (PRECISION_ORDER.indexOf(date.precision) > PRECISION_ORDER.indexOf(precision)) precision = date.precision;
+      frames.push({ time: date.time, label, ...(await loadFrame(frame, kind, baseUrl)) });
+    } catch (error) {
+      throw new Error(`Frame ${label || frames.length + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  frames.sort((a, b) => a.time - b.time);
+
+  const grids = frames.map(frame => frame.grid).filter(grid => grid !== undefined);
+  const min = Math.min(...grids.map(grid => grid.min));
+  const max = Math.max(...grids.map(grid => grid.max));
+  const ramp = isRampName(manifest.ramp) ? manifest.ramp : 'viridis';
+
+  return {
+    id: `temporal-${Date.now()}-${layerIndex}`,
+    name: typeof manifest.name === 'string' && manifest.name.trim() ? manifest.name.trim() : fallbackName,
+    source,
+    visible: true,
+    kind,
+    frames,
+    precision,
+    ramp,
+    opacity: 0.7,
+    range: grids.length ? [Number(min.toPrecision(4)), Number(max.toPrecision(4))] : [0, 1],
+    units: typeof manifest.units === 'string' ? manifest.units : '',
+    style: defaultOverlayStyle(layerIndex),
+  };
+};
+
+export const loadTemporalFromUrl = async (url: string, layerIndex: number): Promise<TemporalLayer> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${url}`);
+  const name = decodeURIComponent(url.split('/').pop()?.split('?')[0] || 'Remote series');
+  return createTemporalLayer(await response.json(), name, url, layerIndex, new URL(url, window.location.href).href);
+};
+
+// Frames referenced by relative URL resolve against the app, so local manifests should inline their data
+export const loadTemporalFromFile = async (file: File, layerIndex: number): Promise<TemporalLayer> =>
+  createTemporalLayer(parseJson(await file.text()), file.name, file.name, layerIndex);
+
+// Span covered by all loaded layers
+export const temporalSpan = (layers: TemporalLayer[]) => {
+  const times = layers.flatMap(layer => layer.frames.map(frame => frame.time));
+  return times.length ? { start: Math.min(...times), end: Math.max(...times) } : null;
+};
+
+// Sector-query focus while temporal layers are shown, so the commentary describes the displayed date
+export const temporalFocus = (layers: TemporalLayer[], time: number) => {
+  const shown = layers.filter(layer => layer.visible);
+  if (shown.length === 0) return undefined;
+  const date = formatTimelineDate(time, finestPrecision(shown));
+  return `the situation as of ${date}, treating ${date} as the present (the globe is showing ${shown.map(layer => layer.name).join(', ')} for ${date})`;
+};
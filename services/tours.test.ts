@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { EarthCategory } from '../types';
+import { parseTour, serializeTour } from './tours';
+
+const tour = (steps: unknown[], extra: object = {}) => JSON.stringify({ version: 1, title: 'Test', steps, ...extra });
+
+describe('parseTour', () => {
+  it('reads steps and round-trips through serializeTour', () => {
+    const parsed = parseTour(tour([
+      { title: 'Alps', lat: 46.5, lon: 10.2, category: EarthCategory.GEOLOGY, durationMs: 8000 },
+      { narration: 'Back to the overview', cameraDistance: 6 },
+    ]));
+    expect(parsed.title).toBe('Test');
+    expect(parsed.steps[0]).toMatchObject({ title: 'Alps', lat: 46.5, lon: 10.2, category: EarthCategory.GEOLOGY, durationMs: 8000 });
+    expect(parsed.steps[1].lat).toBeUndefined();
+    expect(parseTour(serializeTour(parsed))).toEqual(parsed);
+  });
+
+  it('names untitled tours', () => {
+    expect(parseTour(tour([{ lat: 0, lon: 0 }], { title: '' })).title).toBe('Untitled Tour');
+  });
+
+  it('rejects files that are not tours', () => {
+    expect(() => parseTour('{')).toThrow('Tour is not valid JSON.');
+    expect(() => parseTour('[]')).toThrow('Not a tour file');
+    expect(() => parseTour(JSON.stringify({ version: 2, steps: [] }))).toThrow('Not a tour file');
+    expect(() => parseTour(tour([]))).toThrow('Tour has no steps.');
+  });
+
+  it('reports the step that is wrong', () => {
+    expect(() => parseTour(tour([{ lat: 0, lon: 0 }, 'Paris']))).toThrow('Step 2 is not an object.');
+    expect(() => parseTour(tour([{ lat: 10 }]))).toThrow('Step 1: "lat" and "lon" must be given together.');
+    expect(() => parseTour(tour([{ lat: '10', lon: 0 }]))).toThrow('Step 1: "lat" must be a number.');
+    expect(() => parseTour(tour([{ title: 3 }]))).toThrow('Step 1: "title" must be a string.');
+    expect(() => parseTour(tour([{ category: 'Astrology' }]))).toThrow('Step 1: unknown category "Astrology"');
+  });
+
+  it('rejects coordinates off the globe', () => {
+    expect(() => parseTour(tour([{ lat: 91, lon: 0 }]))).toThrow('Step 1: latitude out of range.');
+    expect(() => parseTour(tour([{ lat: 0, lon: 0 }, { lat: 0, lon: 181 }]))).toThrow('Step 2: longitude out of range.');
+    expect(() => parseTour(tour([{ lat: 0, lon: -180.5 }]))).toThrow('Step 1: longitude out of range.');
+    expect(parseTour(tour([{ lat: -90, lon: 180 }])).steps[0]).toMatchObject({ lat: -90, lon: 180 });
+  });
+});
@@ -0,0 +1,86 @@
+import { EarthCategory, Pin, Tour, TourStep } from "../types";
+import { downloadFile, fileTimestamp } from "../utils/download";
+import { isRecord, parseJson } from "../utils/json";
+
+export const DEFAULT_STEP_MS = 12000;
+
+const CATEGORIES = Object.values(EarthCategory) as string[];
+
+const optionalNumber = (value: unknown, field: string, index: number) => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`Step ${index + 1}: "${field}" must be a number.`);
+  return value;
+};
+
+const optionalString = (value: unknown, field: string, index: number) => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new Error(`Step ${index + 1}: "${field}" must be a string.`);
+  return value;
+};
+
+const parseStep = (raw: unknown, index: number): TourStep => {
+  if (!isRecord(raw)) throw new Error(`Step ${index + 1} is not an object.`);
+
+  const lat = optionalNumber(raw.lat, 'lat', index);
+  const lon = optionalNumber(raw.lon, 'lon', index);
+  if ((lat === undefined) !== (lon === undefined)) throw new Error(`Step ${index + 1}: "lat" and "lon" must be given together.`);
+  if (lat !== undefined && Math.abs(lat) > 90) throw new Error(`Step ${index + 1}: latitude out of range.`);
+  if (lon !== undefined && Math.abs(lon) > 180) throw new Error(`Step ${index + 1}: longitude out of range.`);
+
+  const category = optionalString(raw.category, 'category', index);
+  if (category !== undefined && !CATEGORIES.includes(category)) {
+    throw new Error(`Step ${index + 1}: unknown category "${category}" (expected one of ${CATEGORIES.join(', ')}).`);
+  }
+
+  return {
+    title: optionalString(raw.title, 'title', index),
+    lat,
+    lon,
+    cameraDistance: optionalNumber(raw.cameraDistance, 'cameraDistance', index),
+    category: category as EarthCategory | undefined,
+    prompt: optionalString(raw.prompt, 'prompt', index),
+    narration: optionalString(raw.narration, 'narration', index),
+    durationMs: optionalNumber(raw.durationMs, 'durationMs', index),
+  };
+};
+
+// Throws with a readable message when the file isn't a valid tour
+export const parseTour = (text: string): Tour => {
+  let data: unknown;
+  try {
+    data = parseJson(text);
+  } catch {
+    throw new Error("Tour is not valid JSON.");
+  }
+  if (!isRecord(data) || data.version !== 1 || !Array.isArray(data.steps)) {
+    throw new Error("Not a tour file (expected version 1 with a steps array).");
+  }
+  if (data.steps.length === 0) throw new Error("Tour has no steps.");
+
+  return {
+    version: 1,
+    title: typeof data.title === 'string' && data.title ? data.title : 'Untitled Tour',
+    steps: data.steps.map(parseStep),
+  };
+};
+
+// Unset optional fields are undefined and drop out of the JSON
+export const serializeTour = (tour: Tour) => JSON.stringify(tour, null, 2);
+
+export const downloadTour = (tour: Tour) =>
+  downloadFile(serializeTour(tour), `${tour.title.replace(/[^\w-]+/g, '-').toLowerCase() || 'tour'}-${fileTimestamp()}.json`);
+
+// Starting point for a new tour: one step per pin, narrated with its stored report
+export const tourFromPins = (pins: Pin[], title = 'Pinned Locations'): Tour => ({
+  version: 1,
+  title,
+  steps: pins.map(pin => ({
+    title: pin.label,
+    lat: pin.location.lat,
+    lon: pin.location.lon,
+    narration: pin.result?.text,
+    durationMs: DEFAULT_STEP_MS,
+  })),
+});
+
+export const stepDuration = (step: TourStep) => step.durationMs ?? DEFAULT_STEP_MS;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { EarthCategory } from '../types';
+import { UrlState, decodeUrlState, encodeUrlState } from './urlState';
+
+describe('url state', () => {
+  it('round-trips a shared view', () => {
+    const state: UrlState = {
+      location: { lat: 35.6762, lon: 139.6503 },
+      category: EarthCategory.OCEANOGRAPHY,
+      view: { globe: [0.1, 0.2, 0.3, 0.9274], camera: [0, 1.5, 4.25] },
+      layers: ['https://example.com/rivers.geojson', 'https://example.com/lakes.geojson'],
+      time: Date.UTC(2024, 5, 21, 12),
+      speed: 3600,
+    };
+    const hash = encodeUrlState(state);
+    expect(hash).toMatch(/^#lat=35\.6762&lon=139\.6503&cat=Oceans&globe=0\.1,0\.2,0\.3,0\.9274&cam=0,1\.5,4\.25/);
+    expect(decodeUrlState(hash)).toEqual(state);
+  });
+
+  it('encodes an empty state as no hash', () => {
+    expect(encodeUrlState({})).toBe('');
+    expect(decodeUrlState('')).toEqual({});
+  });
+
+  it('rounds coordinates and view values for short links', () => {
+    const hash = encodeUrlState({ location: { lat: 1.234567, lon: -2.345678 }, view: { globe: [0.123456, 0, 0, 1], camera: [0, 0, 6.00049] } });
+    expect(decodeUrlState(hash)).toEqual({ location: { lat: 1.2346, lon: -2.3457 }, view: { globe: [0.1235, 0, 0, 1], camera: [0, 0, 6] } });
+  });
+
+  it('ignores parameters it cannot use', () => {
+    expect(decodeUrlState('#lat=95&lon=10')).toEqual({});
+    expect(decodeUrlState('#lat=10')).toEqual({});
+    expect(decodeUrlState('#cat=Astrology')).toEqual({});
+    expect(decodeUrlState('#globe=0,0,1&cam=0,0,6')).toEqual({});
+    expect(decodeUrlState('#layer=file:///tmp/a.geojson&layer=https://example.com/b.geojson')).toEqual({ layers: ['https://example.com/b.geojson'] });
+    expect(decodeUrlState('#t=yesterday&speed=fast')).toEqual({});
+  });
+});
@@ -0,0 +1,79 @@
+import { EarthCategory, LocationData, ViewState } from "../types";
+
+// Everything a shared link restores. Absent fields leave the app's defaults alone.
+export interface UrlState {
+  location?: LocationData;
+  category?: EarthCategory;
+  view?: ViewState;
+  // Visible overlays loaded from URLs (local files can't be shared)
+  layers?: string[];
+  // Simulated time and speed, only when the clock isn't tracking real time
+  time?: number;
+  speed?: number;
+}
+
+export const DEFAULT_VIEW: ViewState = { globe: [0, 0, 0, 1], camera: [0, 0, 6] };
+
+const CATEGORIES = Object.values(EarthCategory) as string[];
+
+export const isRemoteSource = (source: string) => /^https?:\/\//i.test(source);
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const numbers = (value: string | null, count: number) => {
+  if (!value) return undefined;
+  const parts = value.split(',').map(Number);
+  return parts.length === count && parts.every(Number.isFinite) ? parts : undefined;
+};
+
+// Produces "#lat=..&lon=.." style hashes; an empty state encodes to ''
+export const encodeUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.location) {
+    params.set('lat', state.location.lat.toFixed(4));
+    params.set('lon', state.location.lon.toFixed(4));
+  }
+  if (state.category) params.set('cat', state.category);
+  if (state.view) {
+    params.set('globe', state.view.globe.map(v => round(v, 4)).join(','));
+    params.set('cam', state.view.camera.map(v => round(v, 3)).join(','));
+  }
+  state.layers?.forEach(url => params.append('layer', url));
+  if (state.time !== undefined) params.set('t', new Date(state.time).toISOString());
+  if (state.speed !== undefined) params.set('speed', String(state.speed));
+
+  // Commas are safe in a fragment; keeping them literal makes links readable
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `#${query}` : '';
+};
+
+// Invalid or unknown parameters are ignored rather than failing the whole link
+export const decodeUrlState = (hash: string): UrlState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: UrlState = {};
+
+  const lat = Number(params.get('lat'));
+  const lon = Number(params.get('lon'));
+  if (params.has('lat') && params.has('lon') && Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90) {
+    state.location = { lat, lon };
+  }
+
+  const category = params.get('cat');
+  if (category && CATEGORIES.includes(category)) state.category = category as EarthCategory;
+
+  const globe = numbers(params.get('globe'), 4);
+  const camera = numbers(params.get('cam'), 3);
+  if (globe && camera) {
+    state.view = { globe: globe as ViewState['globe'], camera: camera as ViewState['camera'] };
+  }
+
+  const layers = params.getAll('layer').filter(isRemoteSource);
+  if (layers.length) state.layers = layers;
+
+  const time = Date.parse(params.get('t') ?? '');
+  if (Number.isFinite(time)) state.time = time;
+  const speed = Number(params.get('speed'));
+  if (params.has('speed') && Number.isFinite(speed)) state.speed = speed;
+
+  return state;
+};
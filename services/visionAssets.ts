@@ -0,0 +1,62 @@
+import { FilesetResolver, GestureRecognizer } from '@mediapipe/tasks-vision';
+
+export type VisionDelegate = 'GPU' | 'CPU';
+
+export interface VisionAssetSource {
+  // 'CDN' for the public hosts, 'LOCAL' when served from the app's own origin
+  label: 'CDN' | 'LOCAL';
+  wasmPath: string;
+  modelPath: string;
+}
+
+export interface LoadedRecognizer {
+  recognizer: GestureRecognizer;
+  delegate: VisionDelegate;
+  source: VisionAssetSource;
+}
+
+const CDN_SOURCE: VisionAssetSource = {
+  label: 'CDN',
+  wasmPath: "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm",
+  modelPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task"
+};
+
+// Base path is injected at build time by vite.config.ts (MEDIAPIPE_ASSET_BASE env var).
+// It must contain `wasm/` and `gesture_recognizer.task`; `npm run vision-assets` populates public/mediapipe.
+export const resolveVisionAssets = (base: string = process.env.MEDIAPIPE_ASSET_BASE || ''): VisionAssetSource => {
+  if (!base) return CDN_SOURCE;
+  const root = base.replace(/\/+$/, '');
+  return {
+    label: 'LOCAL',
+    wasmPath: `${root}/wasm`,
+    modelPath: `${root}/gesture_recognizer.task`
+  };
+};
+
+// GPU first; machines without WebGL2 (or with a blocklisted driver) fail there and get the CPU delegate
+const DELEGATES: VisionDelegate[] = ['GPU', 'CPU'];
+
+export const loadGestureRecognizer = async (
+  numHands: number,
+  source: VisionAssetSource = resolveVisionAssets(),
+  onAttempt?: (delegate: VisionDelegate) => void
+): Promise<LoadedRecognizer> => {
+  const vision = await FilesetResolver.forVisionTasks(source.wasmPath);
+
+  let lastError: unknown;
+  for (const delegate of DELEGATES) {
+    onAttempt?.(delegate);
+    try {
+      const recognizer = await GestureRecognizer.createFromOptions(vision, {
+        baseOptions: { modelAssetPath: source.modelPath, delegate },
+        runningMode: "VIDEO",
+        numHands
+      });
+      return { recognizer, delegate, source };
+    } catch (error) {
+      console.warn(`Gesture recognizer failed on ${delegate} delegate:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
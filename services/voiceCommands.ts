@@ -0,0 +1,75 @@
+import { EarthCategory } from "../types";
+
+export type VoiceCommand =
+  | { type: 'goto'; place: string }
+  | { type: 'category'; category: EarthCategory }
+  | { type: 'compare'; focus?: string }
+  | { type: 'pin' }
+  | { type: 'narrate' }
+  | { type: 'silence' }
+  | { type: 'question'; text: string };
+
+// Spoken names for each sector, including the sidebar labels
+const CATEGORY_ALIASES: { category: EarthCategory; words: string[] }[] = [
+  { category: EarthCategory.ATMOSPHERE, words: ['atmosphere', 'air', 'weather', 'climate'] },
+  { category: EarthCategory.OCEANOGRAPHY, words: ['oceans', 'ocean', 'hydrosphere', 'oceanography', 'water'] },
+  { category: EarthCategory.GEOLOGY, words: ['geology', 'geosphere', 'rocks', 'tectonics'] },
+  { category: EarthCategory.ECOLOGY, words: ['ecology', 'biosphere', 'life', 'wildlife'] },
+  { category: EarthCategory.HUMAN_IMPACT, words: ['human impact', 'anthroposphere', 'humans', 'people'] },
+];
+
+const GOTO = /^(?:go|fly|take me|navigate|zoom|jump)\s+(?:to|over to)\s+(.+)$/;
+const CATEGORY = /^(?:show|open|switch to|display|select)\s+(?:me\s+)?(?:the\s+)?(.+?)(?:\s+(?:sector|data|layer))?$/;
+const COMPARE = /^compare\b(?:.*?\bpins?\b)?(?:\s+(?:on|by|for|in terms of)\s+(.+))?$/;
+const PIN = /^(?:pin|mark|save)\s+(?:this|here|it|this location|this place)$/;
+const NARRATE = /^(?:read|narrate|say)\s+(?:it|that|this|the report)?\s*(?:out|aloud|out loud)?$/;
+const SILENCE = /^(?:stop|quiet|silence|be quiet|stop talking|stop reading)$/;
+
+const normalize = (transcript: string) =>
+  transcript
+    .toLowerCase()
+    .replace(/[.,!?]+$/g, '')
+    .replace(/^(?:please|okay|ok|hey earth|earth),?\s+/, '')
+    .trim();
+
+const matchCategory = (phrase: string) =>
+  CATEGORY_ALIASES.find(alias => alias.words.includes(phrase))?.category;
+
+// Maps a recognised utterance onto an app action. Anything that isn't a known
+// command is treated as a question for the knowledge provider.
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = normalize(transcript);
+  if (!text) return null;
+
+  const goto = text.match(GOTO);
+  if (goto) return { type: 'goto', place: goto[1] };
+
+  const category = text.match(CATEGORY);
+  if (category) {
+    const match = matchCategory(category[1]);
+    if (match) return { type: 'category', category: match };
+  }
+  const bare = matchCategory(text);
+  if (bare) return { type: 'category', category: bare };
+
+  const compare = text.match(COMPARE);
+  if (compare) return { type: 'compare', focus: compare[1] };
+
+  if (PIN.test(text)) return { type: 'pin' };
+  if (NARRATE.test(text)) return { type: 'narrate' };
+  if (SILENCE.test(text)) return { type: 'silence' };
+
+  return { type: 'question', text: transcript.trim() };
+};
+
+export const describeVoiceCommand = (command: VoiceCommand) => {
+  switch (command.type) {
+    case 'goto': return `GO TO ${command.place.toUpperCase()}`;
+    case 'category': return `SHOW ${command.category.toUpperCase()}`;
+    case 'compare': return command.focus ? `COMPARE PINS · ${command.focus.toUpperCase()}` : 'COMPARE PINS';
+    case 'pin': return 'PIN LOCATION';
+    case 'narrate': return 'NARRATE REPORT';
+    case 'silence': return 'STOP NARRATION';
+    case 'question': return 'QUERY';
+  }
+};
@@ -18,17 +18,384 @@ export interface HandLandmark {
   z: number;
 }
 
+// Canned gesture labels produced by MediaPipe's gesture recognizer
+export type GestureName =
+  | 'None'
+  | 'Closed_Fist'
+  | 'Open_Palm'
+  | 'Pointing_Up'
+  | 'Thumb_Down'
+  | 'Thumb_Up'
+  | 'Victory'
+  | 'ILoveYou';
+
+// One frame of raw recognizer output, indexed per hand
 export interface GestureData {
   landmarks: HandLandmark[][];
   handedness: any[];
+  // Top gesture label for each hand
+  gestures?: GestureName[];
+  // Frame time in ms (performance or epoch clock, consistent within a stream)
+  timestamp?: number;
+}
+
+// Per-user hand tuning, produced by the calibration wizard and stored in localStorage
+export interface HandProfile {
+  name: string;
+  // Pinch engages below `pinchOn` and releases above `pinchOff` (normalized thumb-index distance)
+  pinchOn: number;
+  pinchOff: number;
+  // Globe rotation in radians per full frame width of hand travel
+  sensitivity: number;
+  // One Euro filter for the hand cursor
+  filter: { minCutoff: number; beta: number; dCutoff: number };
+}
+
+// A captured stream of recognizer frames, replayable through the gesture engine
+export interface GestureRecording {
+  version: 1;
+  recordedAt: string; // ISO date
+  // Every frame carries a timestamp; playback preserves the original spacing
+  frames: GestureData[];
+}
+
+// Discrete gestures; `seq` increases monotonically so each consumer can track what it has seen
+export type GestureEvent =
+  | { seq: number; type: 'swipe'; direction: 'left' | 'right' }
+  | { seq: number; type: 'select'; x: number; y: number }
+  | { seq: number; type: 'reset' };
+
+// Hand state shared through a ref between HandTracker, HoloEarth and App.
+// Coordinates are normalized screen space (0..1), already mirrored.
+export interface HandData {
+  x: number;
+  y: number;
+  // Single-hand pinch: grab & rotate the globe
+  active: boolean;
+  // Two hands pinching: `zoom` is a running log of their spread; consumers apply the change since their last frame
+  zooming: boolean;
+  zoom: number;
+  // Index fingertip while pointing; `dwell` fills 0..1 while held still
+  pointer: { x: number; y: number; dwell: number } | null;
+  // Most recent discrete gestures, oldest first
+  events: GestureEvent[];
+}
+
+// Keyboard and gamepad navigation, shared through a ref like HandData.
+// Rates are -1..1 and applied per second by the globe and camera.
+export interface NavInput {
+  // +x looks east, +y looks north
+  rotate: { x: number; y: number };
+  // Positive moves the camera in
+  zoom: number;
+  // Screen-centre reticle used for keyboard/gamepad selection
+  crosshair: boolean;
+  // 'select' events target the crosshair (0.5, 0.5); 'reset' matches the fist gesture
+  events: GestureEvent[];
+}
+
+export interface LocationReport {
+  regionName: string;
+  country: string | null;
+  climateZone: string;
+  temperatureC: number;
+  conditions: string;
+  populationEstimate: number | null;
+  fact: string;
+  confidence: number; // 0..1
 }
 
 export interface GeminiResponse {
   text: string;
   sources?: { uri: string; title: string }[];
+  // Present when a coordinate scan returned a valid structured report
+  report?: LocationReport;
+  // Set when the text is an error message rather than real data (never cached)
+  failed?: boolean;
+  // Epoch ms of the original fetch when served from the response cache
+  cachedAt?: number;
 }
 
 export interface LocationData {
   lat: number;
   lon: number;
-}
\ No newline at end of file
+}
+
+export interface ComparisonTarget extends LocationData {
+  label: string;
+}
+
+// A location the operator has pinned, along with the last report fetched for it
+export interface Pin {
+  id: string;
+  label: string;
+  location: LocationData;
+  result?: GeminiResponse;
+}
+
+// One completed scan in the session history
+export interface HistoryEntry {
+  id: string;
+  timestamp: number; // epoch ms
+  kind: 'category' | 'location' | 'comparison';
+  // Sector name, place label or comparison targets
+  title: string;
+  location: LocationData | null;
+  result: GeminiResponse;
+}
+
+// Extra context about what was clicked (e.g. a GeoJSON feature), folded into the scan prompt
+export interface LocationContext {
+  title: string;
+  properties: Record<string, string | number | boolean | null>;
+}
+
+// --- GeoJSON overlays ---
+export type Position = number[]; // [lon, lat, (alt)]
+
+export type GeoJsonGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJsonGeometry[] };
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, unknown> | null;
+  id?: string | number;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+// A feature flattened into globe-ready primitives
+export interface OverlayFeature {
+  index: number;
+  properties: Record<string, unknown>;
+  points: LocationData[];
+  lines: LocationData[][];
+  // Each polygon is [outerRing, ...holes]
+  polygons: LocationData[][][];
+  // Representative location used when the feature is selected from a list
+  anchor: LocationData;
+}
+
+export interface OverlayStyle {
+  color: string;
+  opacity: number;
+  fillOpacity: number;
+  lineWidth: number;
+  pointSize: number;
+}
+
+export interface OverlayLayer {
+  id: string;
+  name: string;
+  source: string; // URL or file name
+  visible: boolean;
+  style: OverlayStyle;
+  features: OverlayFeature[];
+}
+
+export interface FeatureSelection {
+  layerId: string;
+  featureIndex: number;
+}
+
+// --- Seismic layer (USGS GeoJSON feed format) ---
+export interface Earthquake {
+  id: string;
+  location: LocationData;
+  magnitude: number;
+  depthKm: number;
+  time: number; // epoch ms
+  place: string;
+  url?: string;
+  tsunami: boolean;
+}
+
+export interface SeismicFeed {
+  source: string; // URL or file name
+  fetchedAt: number;
+  quakes: Earthquake[];
+}
+
+export interface SeismicFilter {
+  minMagnitude: number;
+  // Hours before the simulation clock; null shows the whole feed
+  windowHours: number | null;
+}
+
+// --- Raster overlays ---
+// Equirectangular grid: rows run north to south from 90°, columns east from -180°.
+// NaN marks cells without data.
+export interface RasterGrid {
+  width: number;
+  height: number;
+  values: Float32Array;
+  min: number;
+  max: number;
+}
+
+export type ColorRampName = 'viridis' | 'inferno' | 'thermal' | 'greys';
+
+export interface RasterLayer {
+  id: string;
+  name: string;
+  source: string; // URL or file name
+  visible: boolean;
+  grid: RasterGrid;
+  ramp: ColorRampName;
+  opacity: number;
+  // Values mapped to the ends of the ramp (defaults to the data range)
+  range: [number, number];
+  units: string;
+}
+
+// --- Temporal layers ---
+// One dated state of a temporal layer; raster layers carry `grid`, GeoJSON layers `features`
+export interface TemporalFrame {
+  time: number; // epoch ms
+  label: string; // date as written in the source, e.g. "1990" or "2004-09"
+  grid?: RasterGrid;
+  features?: OverlayFeature[];
+}
+
+// A sequence of frames played back on the timeline, e.g. yearly ice extent.
+// Raster frames with matching dimensions are interpolated; GeoJSON frames step.
+export interface TemporalLayer {
+  id: string;
+  name: string;
+  source: string; // URL or file name
+  visible: boolean;
+  kind: 'raster' | 'geojson';
+  frames: TemporalFrame[]; // oldest first
+  // Finest date part the frame labels use, for formatting the timeline
+  precision: 'year' | 'month' | 'day';
+  // Raster styling, shared by every frame
+  ramp: ColorRampName;
+  opacity: number;
+  range: [number, number];
+  units: string;
+  // GeoJSON styling
+  style: OverlayStyle;
+}
+
+
+// `id` distinguishes repeated requests for the same coordinates.
+export interface FlyToRequest extends LocationData {
+  id: number;
+  // Optional camera distance from the globe centre to settle at
+  distance?: number;
+}
+
+// Globe orientation (Earth group quaternion x, y, z, w) and camera position, for saving and restoring the view
+export interface ViewState {
+  globe: [number, number, number, number];
+  camera: [number, number, number];
+}
+
+// Request to jump straight to a saved view; `id` distinguishes repeated requests
+export interface ViewRequest extends ViewState {
+  id: number;
+}
+
+// --- Session Sync ---
+// The controller drives the globe and panels; mirrors follow it
+export type SessionRole = 'controller' | 'mirror';
+
+// One display connected to a session relay
+export interface SessionPeer {
+  id: string;
+  name: string;
+  // Asking the controller for control
+  raised: boolean;
+}
+
+export interface SessionRoster {
+  peers: SessionPeer[];
+  controllerId: string | null;
+  // First display to take control; it can always take control back
+  presenterId: string | null;
+}
+
+// What mirrors copy from the controller besides the view: the selection and the InfoPanel content
+export interface SessionSnapshot {
+  activeCategory: string;
+  selectedLocation: LocationData | null;
+  fact: string;
+  loading: boolean;
+  sources?: { uri: string; title: string }[];
+  report?: LocationReport;
+  cachedAt?: number;
+  thread?: ChatTurn[];
+}
+
+// Controller views in arrival order, for mirrors to replay slightly behind real time
+export interface ViewBuffer {
+  samples: { view: ViewState; sentAt: number; receivedAt: number }[];
+}
+
+// --- Tours ---
+// One stop of a guided tour. Every field is optional so a step can just change
+// the sector, just move the globe, or both.
+export interface TourStep {
+  title?: string;
+  lat?: number;
+  lon?: number;
+  cameraDistance?: number;
+  category?: EarthCategory;
+  // Question for the knowledge provider; its answer fills the InfoPanel
+  prompt?: string;
+  // Presenter script; fills the InfoPanel when there is no prompt
+  narration?: string;
+  // Auto-advance delay while playing
+  durationMs?: number;
+}
+
+export interface Tour {
+  version: 1;
+  title: string;
+  steps: TourStep[];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  sources?: { uri: string; title: string }[];
+}
+
+export interface FollowUpContext {
+  category?: string;
+  location?: LocationData | null;
+  previousAnswer?: string;
+  // Prior turns of this thread, oldest first, excluding the new question
+  history: ChatTurn[];
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Receives the accumulated text each time a new chunk arrives
+  onText?: (text: string) => void;
+}
+
+// Contract every knowledge backend (Gemini, offline fixtures, ...) implements.
+// App.tsx only talks to this interface, never to a concrete SDK.
+export interface KnowledgeProvider {
+  id: string;
+  label: string;
+  fetchEarthData: (category: EarthCategory, query?: string) => Promise<GeminiResponse>;
+  analyzeLocation: (lat: number, lon: number) => Promise<GeminiResponse>;
+  askFollowUp: (question: string, context: FollowUpContext, options?: StreamOptions) => Promise<GeminiResponse>;
+  // Streaming variants reject with an AbortError once `signal` is aborted
+  streamEarthData: (category: EarthCategory, query: string | undefined, options: StreamOptions) => Promise<GeminiResponse>;
+  streamLocationAnalysis: (lat: number, lon: number, options: StreamOptions, context?: LocationContext) => Promise<GeminiResponse>;
+  // Side-by-side report over N locations, optionally focused on one aspect (e.g. "climate")
+  compareLocations: (targets: ComparisonTarget[], focus: string | undefined, options: StreamOptions) => Promise<GeminiResponse>;
+}
@@ -0,0 +1,20 @@
+// Saves text content as a file via a temporary object URL
+export const downloadFile = (content: string, filename: string, type = 'application/json') => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  // Firefox wants the link in the document, and Firefox/Safari cancel the download if the
+  // URL is revoked before it has started, so both are cleaned up a little later
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    link.remove();
+    URL.revokeObjectURL(url);
+  }, 1000);
+};
+
+// Timestamp safe for file names, e.g. 2024-05-01T12-30-00-000Z
+export const fileTimestamp = (date: Date = new Date()) => date.toISOString().replace(/[:.]/g, '-');
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { LocationData } from '../types';
+import { MARKER_RADIUS } from '../components/globe/sceneMath';
+import {
+  EARTH_RADIUS_KM, cartesianToLatLon, greatCirclePoints, haversineKm, initialBearing, interpolateGreatCircle, latLonToCartesian, midpoint, pathLengthKm,
+} from './geodesy';
+
+const LONDON = { lat: 51.5074, lon: -0.1278 };
+const PARIS = { lat: 48.8566, lon: 2.3522 };
+const HALF_CIRCUMFERENCE_KM = Math.PI * EARTH_RADIUS_KM;
+
+const expectLatLon = (actual: LocationData, expected: LocationData, digits = 6) => {
+  expect(actual.lat).toBeCloseTo(expected.lat, digits);
+  expect(actual.lon).toBeCloseTo(expected.lon, digits);
+};
+
+describe('London to Paris', () => {
+  it('is about 343.6 km', () => {
+    expect(haversineKm(LONDON, PARIS)).toBeCloseTo(343.56, 1);
+    expect(haversineKm(PARIS, LONDON)).toBeCloseTo(haversineKm(LONDON, PARIS), 9);
+  });
+
+  it('sets off south-east and comes back north-west', () => {
+    expect(initialBearing(LONDON, PARIS)).toBeCloseTo(148.12, 1);
+    expect(initialBearing(PARIS, LONDON)).toBeCloseTo(330.02, 1);
+  });
+
+  it('has its midpoint halfway along the route', () => {
+    const m = midpoint(LONDON, PARIS);
+    expectLatLon(m, { lat: 50.1886, lon: 1.1466 }, 3);
+    expect(haversineKm(LONDON, m)).toBeCloseTo(haversineKm(m, PARIS), 6);
+    expectLatLon(interpolateGreatCircle(LONDON, PARIS, 0.5), m);
+  });
+
+  it('samples a path as long as the great circle', () => {
+    const points = greatCirclePoints(LONDON, PARIS, 16);
+    expect(points).toHaveLength(17);
+    expectLatLon(points[0], LONDON);
+    expectLatLon(points[16], PARIS);
+    expect(pathLengthKm(points)).toBeCloseTo(haversineKm(LONDON, PARIS), 6);
+  });
+});
+
+describe('across the antimeridian', () => {
+  const west = { lat: 0, lon: 179 };
+  const east = { lat: 0, lon: -179 };
+
+  it('takes the short way round', () => {
+    expect(haversineKm(west, east)).toBeCloseTo(222.39, 1);
+    expect(initialBearing(west, east)).toBeCloseTo(90, 6);
+  });
+
+  it('keeps intermediate longitudes normalized', () => {
+    expect(Math.abs(midpoint(west, east).lon)).toBeCloseTo(180, 6);
+    const lons = greatCirclePoints(west, east, 4).map(point => point.lon);
+    [179, 179.5, -180, -179.5, -179].forEach((lon, i) => expect(lons[i]).toBeCloseTo(lon, 6));
+    expect(pathLengthKm(greatCirclePoints(west, east, 4))).toBeCloseTo(haversineKm(west, east), 6);
+  });
+});
+
+describe('antipodal points', () => {
+  const a = { lat: 30, lon: 40 };
+  const b = { lat: -30, lon: -140 };
+
+  it('are half the circumference apart', () => {
+    expect(haversineKm(a, b)).toBeCloseTo(HALF_CIRCUMFERENCE_KM, 6);
+    expect(haversineKm({ lat: 90, lon: 0 }, { lat: -90, lon: 0 })).toBeCloseTo(HALF_CIRCUMFERENCE_KM, 6);
+  });
+
+  it('are joined through the midpoint, a quarter of the way round from each', () => {
+    const m = midpoint(a, b);
+    expect(haversineKm(a, m)).toBeCloseTo(HALF_CIRCUMFERENCE_KM / 2, 6);
+    expectLatLon(interpolateGreatCircle(a, b, 0.5), m);
+    const points = greatCirclePoints(a, b, 8);
+    expectLatLon(points[8], b);
+    expect(pathLengthKm(points)).toBeCloseTo(HALF_CIRCUMFERENCE_KM, 3);
+  });
+});
+
+describe('identical points', () => {
+  it('are zero apart and interpolate to themselves', () => {
+    expect(haversineKm(LONDON, LONDON)).toBe(0);
+    expectLatLon(midpoint(LONDON, LONDON), LONDON);
+    expect(interpolateGreatCircle(LONDON, LONDON, 0.3)).toEqual(LONDON);
+    expect(pathLengthKm(greatCirclePoints(LONDON, LONDON, 4))).toBe(0);
+  });
+});
+
+describe('cartesian conversion', () => {
+  it('follows the scene axes', () => {
+    const { x, y, z } = latLonToCartesian(0, 90, MARKER_RADIUS);
+    expect(x).toBeCloseTo(0, 9);
+    expect(y).toBeCloseTo(0, 9);
+    expect(z).toBeCloseTo(-MARKER_RADIUS, 9);
+    expect(latLonToCartesian(90, 0, MARKER_RADIUS).y).toBeCloseTo(MARKER_RADIUS, 9);
+  });
+
+  it('round-trips at the marker radius', () => {
+    [LONDON, PARIS, { lat: -33.8688, lon: 151.2093 }, { lat: 0, lon: -180 + 1e-6 }, { lat: -89.9, lon: -45 }].forEach(point => {
+      const v = latLonToCartesian(point.lat, point.lon, MARKER_RADIUS);
+      expect(Math.hypot(v.x, v.y, v.z)).toBeCloseTo(MARKER_RADIUS, 9);
+      expectLatLon(cartesianToLatLon(v), point, 9);
+    });
+  });
+});
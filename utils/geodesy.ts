@@ -0,0 +1,101 @@
+import { LocationData } from "../types";
+
+// Spherical-Earth geodesy helpers. All angles are degrees; longitudes are
+// normalized to [-180, 180). Scene convention: +Y is north, lon 0 faces +X,
+// lon +90 faces -Z. This is how three's SphereGeometry UV-maps an
+// equirectangular texture, so coordinates line up with the Earth imagery.
+
+export const EARTH_RADIUS_KM = 6371;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const toRad = (deg: number) => deg * Math.PI / 180;
+export const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+export const normalizeLon = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+export const latLonToCartesian = (lat: number, lon: number, radius = 1): Vec3 => {
+  const phi = toRad(90 - lat); // Angle from North Pole
+  const theta = toRad(lon);
+  return {
+    x: radius * Math.sin(phi) * Math.cos(theta),
+    y: radius * Math.cos(phi),
+    z: -radius * Math.sin(phi) * Math.sin(theta),
+  };
+};
+
+// Inverse of latLonToCartesian; the vector does not need to be normalized
+export const cartesianToLatLon = ({ x, y, z }: Vec3): LocationData => {
+  const length = Math.sqrt(x * x + y * y + z * z) || 1;
+  const phi = Math.acos(Math.max(-1, Math.min(1, y / length)));
+  const theta = Math.atan2(-z, x); // Angle around Y axis
+  return { lat: 90 - toDeg(phi), lon: toDeg(theta) };
+};
+
+// Great-circle distance (haversine formula)
+export const haversineKm = (a: LocationData, b: LocationData, radiusKm = EARTH_RADIUS_KM) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * radiusKm * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Initial bearing (forward azimuth) from a to b, degrees clockwise from north in [0, 360)
+export const initialBearing = (a: LocationData, b: LocationData) => {
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+export const midpoint = (a: LocationData, b: LocationData): LocationData => {
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const lon1 = toRad(a.lon);
+  const dLon = toRad(b.lon - a.lon);
+  const bx = Math.cos(lat2) * Math.cos(dLon);
+  const by = Math.cos(lat2) * Math.sin(dLon);
+  const latM = Math.atan2(Math.sin(lat1) + Math.sin(lat2), Math.sqrt((Math.cos(lat1) + bx) ** 2 + by ** 2));
+  const lonM = lon1 + Math.atan2(by, Math.cos(lat1) + bx);
+  return { lat: toDeg(latM), lon: normalizeLon(toDeg(lonM)) };
+};
+
+// Point at `fraction` (0..1) along the great circle from a to b
+export const interpolateGreatCircle = (a: LocationData, b: LocationData, fraction: number): LocationData => {
+  const angle = haversineKm(a, b, 1);
+  if (angle === 0) return { ...a };
+  // Antipodal points lie on every great circle through them; follow the one through midpoint()
+  if (Math.PI - angle < 1e-9) {
+    const m = midpoint(a, b);
+    return fraction <= 0.5 ? interpolateGreatCircle(a, m, fraction * 2) : interpolateGreatCircle(m, b, fraction * 2 - 1);
+  }
+  const va = latLonToCartesian(a.lat, a.lon);
+  const vb = latLonToCartesian(b.lat, b.lon);
+  const wa = Math.sin((1 - fraction) * angle) / Math.sin(angle);
+  const wb = Math.sin(fraction * angle) / Math.sin(angle);
+  return cartesianToLatLon({
+    x: wa * va.x + wb * vb.x,
+    y: wa * va.y + wb * vb.y,
+    z: wa * va.z + wb * vb.z,
+  });
+};
+
+// Evenly spaced samples along the great circle, endpoints included
+export const greatCirclePoints = (a: LocationData, b: LocationData, segments = 64): LocationData[] =>
+  Array.from({ length: segments + 1 }, (_, i) => interpolateGreatCircle(a, b, i / segments));
+
+export const pathLengthKm = (points: LocationData[]) =>
+  points.reduce((total, point, i) => (i === 0 ? 0 : total + haversineKm(points[i - 1], point)), 0);
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+export const compassPoint = (bearing: number) => COMPASS_POINTS[Math.round(bearing / 22.5) % 16];
+
+export const formatLatLon = ({ lat, lon }: LocationData) =>
+  `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? 'N' : 'S'} ${Math.abs(lon).toFixed(2)}°${lon >= 0 ? 'E' : 'W'}`;
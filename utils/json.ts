@@ -0,0 +1,7 @@
+// Parsed JSON is `unknown` until checked; these narrow it one level at a time
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON.parse typed as what it really returns
+export const parseJson = (text: string): unknown => JSON.parse(text);
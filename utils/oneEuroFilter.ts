@@ -0,0 +1,45 @@
+// One Euro filter (Casiez et al., 2012): a low-pass filter whose cutoff rises
+// with speed, so a still hand is heavily smoothed but fast motion has little lag.
+
+export interface OneEuroParams {
+  // Cutoff in Hz when the signal is still; lower = smoother but laggier
+  minCutoff: number;
+  // How quickly the cutoff rises with speed (per unit/s)
+  beta: number;
+  // Cutoff used to smooth the speed estimate itself
+  dCutoff: number;
+}
+
+const smoothingFactor = (cutoff: number, dtSeconds: number) => {
+  const r = 2 * Math.PI * cutoff * dtSeconds;
+  return r / (r + 1);
+};
+
+export const createOneEuroFilter = (params: OneEuroParams) => {
+  let previous: { value: number; derivative: number; t: number } | null = null;
+
+  const filter = (value: number, timestampMs: number) => {
+    if (!previous) {
+      previous = { value, derivative: 0, t: timestampMs };
+      return value;
+    }
+    // Guard against duplicate or out-of-order timestamps
+    const dt = Math.max((timestampMs - previous.t) / 1000, 1e-3);
+
+    const derivative = previous.derivative
+      + smoothingFactor(params.dCutoff, dt) * ((value - previous.value) / dt - previous.derivative);
+    const cutoff = params.minCutoff + params.beta * Math.abs(derivative);
+    const filtered = previous.value + smoothingFactor(cutoff, dt) * (value - previous.value);
+
+    previous = { value: filtered, derivative, t: timestampMs };
+    return filtered;
+  };
+
+  const reset = () => {
+    previous = null;
+  };
+
+  return { filter, reset };
+};
+
+export type OneEuroFilter = ReturnType<typeof createOneEuroFilter>;
@@ -0,0 +1,311 @@
+import { Vec3 } from "./geodesy";
+
+// Near-Earth SGP4 propagator (Hoots & Roehrich, Spacetrack Report #3, with the
+// corrections from Vallado et al. 2006), WGS-72 constants. Positions are TEME, km.
+// Deep-space orbits (period >= 225 min: GPS, geostationary, Molniya) need the SDP4
+// resonance terms and are rejected rather than propagated wrongly.
+
+const MU = 398600.8; // km³/s²
+export const SGP4_EARTH_RADIUS_KM = 6378.135;
+const XKE = 60 / Math.sqrt(SGP4_EARTH_RADIUS_KM ** 3 / MU);
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+const X2O3 = 2 / 3;
+const TWO_PI = 2 * Math.PI;
+const DEG = Math.PI / 180;
+const MINUTES_PER_DAY = 1440;
+const VKM_PER_SEC = SGP4_EARTH_RADIUS_KM * XKE / 60;
+
+export interface OrbitalElements {
+  catalogNumber: string;
+  epoch: number; // epoch ms
+  bstar: number; // 1/earth radii
+  inclination: number; // radians
+  raan: number; // radians
+  eccentricity: number;
+  argPerigee: number; // radians
+  meanAnomaly: number; // radians
+  meanMotion: number; // radians per minute (Kozai)
+}
+
+// Coefficients precomputed from the elements (names follow the reference implementation)
+export interface Sgp4Model {
+  elements: OrbitalElements;
+  periodMinutes: number;
+  no: number; // Brouwer mean motion, rad/min
+  isimp: boolean;
+  con41: number; x1mth2: number; x7thm1: number;
+  eta: number; cc1: number; cc4: number; cc5: number;
+  mdot: number; argpdot: number; nodedot: number;
+  omgcof: number; xmcof: number; nodecf: number; t2cof: number;
+  xlcof: number; aycof: number; delmo: number; sinmao: number;
+  d2: number; d3: number; d4: number; t3cof: number; t4cof: number; t5cof: number;
+}
+
+export interface TemeState {
+  position: Vec3; // km
+  velocity: Vec3; // km/s
+}
+
+// "12345-5" style fields: implied leading decimal point and a power-of-ten exponent
+const impliedDecimal = (field: string) => {
+  const text = field.trim();
+  if (!text) return 0;
+  const match = text.match(/^([+-]?)(\d+)([+-]\d)$/);
+  if (!match) throw new Error(`Bad TLE field "${text}"`);
+  return Number(`${match[1]}0.${match[2]}e${match[3]}`);
+};
+
+const checksum = (line: string) =>
+  line.slice(0, 68).split('').reduce((sum, c) => sum + (c === '-' ? 1 : /\d/.test(c) ? Number(c) : 0), 0) % 10;
+
+// Throws with a readable message when the lines aren't a valid element set
+export const parseTle = (line1: string, line2: string): OrbitalElements => {
+  if (line1[0] !== '1' || line2[0] !== '2' || line1.length < 69 || line2.length < 69) {
+    throw new Error("Expected a pair of 69-column TLE lines starting with 1 and 2");
+  }
+  [line1, line2].forEach((line, i) => {
+    if (checksum(line) !== Number(line[68])) throw new Error(`TLE line ${i + 1} checksum mismatch`);
+  });
+
+  const year = Number(line1.slice(18, 20));
+  const dayOfYear = Number(line1.slice(20, 32));
+  const epoch = Date.UTC(year < 57 ? 2000 + year : 1900 + year, 0, 1) + (dayOfYear - 1) * 86400000;
+
+  const elements: OrbitalElements = {
+    catalogNumber: line1.slice(2, 7).trim(),
+    epoch,
+    bstar: impliedDecimal(line1.slice(53, 61)),
+    inclination: Number(line2.slice(8, 16)) * DEG,
+    raan: Number(line2.slice(17, 25)) * DEG,
+    eccentricity: Number(`0.${line2.slice(26, 33).trim()}`),
+    argPerigee: Number(line2.slice(34, 42)) * DEG,
+    meanAnomaly: Number(line2.slice(43, 51)) * DEG,
+    meanMotion: Number(line2.slice(52, 63)) * TWO_PI / MINUTES_PER_DAY,
+  };
+  if (Object.values(elements).some(v => typeof v === 'number' && !Number.isFinite(v))) {
+    throw new Error("TLE contains non-numeric fields");
+  }
+  return elements;
+};
+
+// Precomputes the secular and drag coefficients; null for deep-space orbits
+export const initSgp4 = (elements: OrbitalElements): Sgp4Model | null => {
+  const { eccentricity: ecco, inclination: inclo, argPerigee: argpo, meanAnomaly: mo, bstar } = elements;
+
+  // Recover the Brouwer mean motion from the Kozai value in the TLE
+  const eccsq = ecco * ecco;
+  const omeosq = 1 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+  const ak = Math.pow(XKE / elements.meanMotion, X2O3);
+  const d1 = 0.75 * J2 * (3 * cosio2 - 1) / (rteosq * omeosq);
+  let del = d1 / (ak * ak);
+  const adel = ak * (1 - del * del - del * (1 / 3 + 134 * del * del / 81));
+  del = d1 / (adel * adel);
+  const no = elements.meanMotion / (1 + del);
+
+  const periodMinutes = TWO_PI / no;
+  if (periodMinutes >= 225) return null;
+
+  const ao = Math.pow(XKE / no, X2O3);
+  const sinio = Math.sin(inclo);
+  const po = ao * omeosq;
+  const con42 = 1 - 5 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1 - ecco);
+
+  // Low perigees (< 220 km) use the simplified drag model
+  const isimp = rp < 220 / SGP4_EARTH_RADIUS_KM + 1;
+
+  let sfour = 78 / SGP4_EARTH_RADIUS_KM + 1;
+  let qzms24 = Math.pow((120 - 78) / SGP4_EARTH_RADIUS_KM, 4);
+  const perigee = (rp - 1) * SGP4_EARTH_RADIUS_KM;
+  if (perigee < 156) {
+    sfour = perigee < 98 ? 20 : perigee - 78;
+    qzms24 = Math.pow((120 - sfour) / SGP4_EARTH_RADIUS_KM, 4);
+    sfour = sfour / SGP4_EARTH_RADIUS_KM + 1;
+  }
+
+  const pinvsq = 1 / posq;
+  const tsi = 1 / (ao - sfour);
+  const eta = ao * ecco * tsi;
+  const etasq = eta * eta;
+  const eeta = ecco * eta;
+  const psisq = Math.abs(1 - etasq);
+  const coef = qzms24 * Math.pow(tsi, 4);
+  const coef1 = coef / Math.pow(psisq, 3.5);
+  const cc2 = coef1 * no * (ao * (1 + 1.5 * etasq + eeta * (4 + etasq)) +
+    0.375 * J2 * tsi / psisq * con41 * (8 + 3 * etasq * (8 + etasq)));
+  const cc1 = bstar * cc2;
+  const cc3 = ecco > 1e-4 ? -2 * coef * tsi * J3OJ2 * no * sinio / ecco : 0;
+  const x1mth2 = 1 - cosio2;
+  const cc4 = 2 * no * coef1 * ao * omeosq * (eta * (2 + 0.5 * etasq) + ecco * (0.5 + 2 * etasq) -
+    J2 * tsi / (ao * psisq) * (-3 * con41 * (1 - 2 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+    0.75 * x1mth2 * (2 * etasq - eeta * (1 + etasq)) * Math.cos(2 * argpo)));
+  const cc5 = 2 * coef1 * ao * omeosq * (1 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+  const cosio4 = cosio2 * cosio2;
+  const temp1 = 1.5 * J2 * pinvsq * no;
+  const temp2 = 0.5 * temp1 * J2 * pinvsq;
+  const temp3 = -0.46875 * J4 * pinvsq * pinvsq * no;
+  const mdot = no + 0.5 * temp1 * rteosq * con41 + 0.0625 * temp2 * rteosq * (13 - 78 * cosio2 + 137 * cosio4);
+  const argpdot = -0.5 * temp1 * con42 + 0.0625 * temp2 * (7 - 114 * cosio2 + 395 * cosio4) +
+    temp3 * (3 - 36 * cosio2 + 49 * cosio4);
+  const xhdot1 = -temp1 * cosio;
+  const nodedot = xhdot1 + (0.5 * temp2 * (4 - 19 * cosio2) + 2 * temp3 * (3 - 7 * cosio2)) * cosio;
+
+  const model: Sgp4Model = {
+    elements, periodMinutes, no, isimp, con41, x1mth2, x7thm1: 7 * cosio2 - 1,
+    eta, cc1, cc4, cc5, mdot, argpdot, nodedot,
+    omgcof: bstar * cc3 * Math.cos(argpo),
+    xmcof: ecco > 1e-4 ? -X2O3 * coef * bstar / eeta : 0,
+    nodecf: 3.5 * omeosq * xhdot1 * cc1,
+    t2cof: 1.5 * cc1,
+    // Guard against division by zero for 180° inclination
+    xlcof: -0.25 * J3OJ2 * sinio * (3 + 5 * cosio) / (Math.abs(cosio + 1) > 1.5e-12 ? 1 + cosio : 1.5e-12),
+    aycof: -0.5 * J3OJ2 * sinio,
+    delmo: Math.pow(1 + eta * Math.cos(mo), 3),
+    sinmao: Math.sin(mo),
+    d2: 0, d3: 0, d4: 0, t3cof: 0, t4cof: 0, t5cof: 0,
+  };
+
+  if (!isimp) {
+    const cc1sq = cc1 * cc1;
+    model.d2 = 4 * ao * tsi * cc1sq;
+    const temp = model.d2 * tsi * cc1 / 3;
+    model.d3 = (17 * ao + sfour) * temp;
+    model.d4 = 0.5 * temp * ao * tsi * (221 * ao + 31 * sfour) * cc1;
+    model.t3cof = model.d2 + 2 * cc1sq;
+    model.t4cof = 0.25 * (3 * model.d3 + cc1 * (12 * model.d2 + 10 * cc1sq));
+    model.t5cof = 0.2 * (3 * model.d4 + 12 * cc1 * model.d3 + 6 * model.d2 * model.d2 + 15 * cc1sq * (2 * model.d2 + cc1sq));
+  }
+  return model;
+};
+
+const mod2pi = (x: number) => ((x % TWO_PI) + TWO_PI) % TWO_PI;
+
+// State `tsince` minutes after the element epoch; null once the orbit has decayed
+export const propagate = (model: Sgp4Model, tsince: number): TemeState | null => {
+  const m = model;
+  const { eccentricity, inclination, argPerigee, raan, meanAnomaly, bstar } = m.elements;
+
+  // Secular gravity and atmospheric drag
+  const xmdf = meanAnomaly + m.mdot * tsince;
+  const argpdf = argPerigee + m.argpdot * tsince;
+  const nodedf = raan + m.nodedot * tsince;
+  let argpm = argpdf;
+  let mm = xmdf;
+  const t2 = tsince * tsince;
+  let nodem = nodedf + m.nodecf * t2;
+  let tempa = 1 - m.cc1 * tsince;
+  let tempe = bstar * m.cc4 * tsince;
+  let templ = m.t2cof * t2;
+
+  if (!m.isimp) {
+    const delomg = m.omgcof * tsince;
+    const delm = m.xmcof * (Math.pow(1 + m.eta * Math.cos(xmdf), 3) - m.delmo);
+    mm = xmdf + delomg + delm;
+    argpm = argpdf - delomg - delm;
+    const t3 = t2 * tsince;
+    const t4 = t3 * tsince;
+    tempa -= m.d2 * t2 + m.d3 * t3 + m.d4 * t4;
+    tempe += bstar * m.cc5 * (Math.sin(mm) - m.sinmao);
+    templ += m.t3cof * t3 + t4 * (m.t4cof + tsince * m.t5cof);
+  }
+
+  const am = Math.pow(XKE / m.no, X2O3) * tempa * tempa;
+  const nm = XKE / Math.pow(am, 1.5);
+  let em = eccentricity - tempe;
+  if (em >= 1 || em < -0.001) return null;
+  if (em < 1e-6) em = 1e-6;
+
+  mm += m.no * templ;
+  const xlm = mm + argpm + nodem;
+  nodem = mod2pi(nodem);
+  argpm = mod2pi(argpm);
+  mm = mod2pi(mod2pi(xlm) - argpm - nodem);
+
+  // Long-period periodics
+  const sinip = Math.sin(inclination);
+  const cosip = Math.cos(inclination);
+  const axnl = em * Math.cos(argpm);
+  let temp = 1 / (am * (1 - em * em));
+  const aynl = em * Math.sin(argpm) + temp * m.aycof;
+  const xl = mm + argpm + nodem + temp * m.xlcof * axnl;
+
+  // Kepler's equation
+  const u = mod2pi(xl - nodem);
+  let eo1 = u;
+  let tem5 = 9999.9;
+  let sineo1 = 0;
+  let coseo1 = 0;
+  for (let ktr = 1; Math.abs(tem5) >= 1e-12 && ktr <= 10; ktr++) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / (1 - coseo1 * axnl - sineo1 * aynl);
+    tem5 = Math.max(-0.95, Math.min(0.95, tem5));
+    eo1 += tem5;
+  }
+
+  // Short-period periodics
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1 - el2);
+  if (pl < 0) return null;
+
+  const rl = am * (1 - ecose);
+  const rdotl = Math.sqrt(am) * esine / rl;
+  const rvdotl = Math.sqrt(pl) / rl;
+  const betal = Math.sqrt(1 - el2);
+  temp = esine / (1 + betal);
+  const sinu = am / rl * (sineo1 - aynl - axnl * temp);
+  const cosu = am / rl * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1 - 2 * sinu * sinu;
+  temp = 1 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  const mrt = rl * (1 - 1.5 * temp2 * betal * m.con41) + 0.5 * temp1 * m.x1mth2 * cos2u;
+  if (mrt < 1) return null;
+  su -= 0.25 * temp2 * m.x7thm1 * sin2u;
+  const xnode = nodem + 1.5 * temp2 * cosip * sin2u;
+  const xinc = inclination + 1.5 * temp2 * cosip * sinip * cos2u;
+  const mvt = rdotl - nm * temp1 * m.x1mth2 * sin2u / XKE;
+  const rvdot = rvdotl + nm * temp1 * (m.x1mth2 * cos2u + 1.5 * m.con41) / XKE;
+
+  // Orientation vectors
+  const sinsu = Math.sin(su);
+  const cossu = Math.cos(su);
+  const snod = Math.sin(xnode);
+  const cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc);
+  const cosi = Math.cos(xinc);
+  const xmx = -snod * cosi;
+  const xmy = cnod * cosi;
+  const ux = xmx * sinsu + cnod * cossu;
+  const uy = xmy * sinsu + snod * cossu;
+  const uz = sini * sinsu;
+  const vx = xmx * cossu - cnod * sinsu;
+  const vy = xmy * cossu - snod * sinsu;
+  const vz = sini * cossu;
+
+  const r = mrt * SGP4_EARTH_RADIUS_KM;
+  return {
+    position: { x: r * ux, y: r * uy, z: r * uz },
+    velocity: {
+      x: (mvt * ux + rvdot * vx) * VKM_PER_SEC,
+      y: (mvt * uy + rvdot * vy) * VKM_PER_SEC,
+      z: (mvt * uz + rvdot * vz) * VKM_PER_SEC,
+    },
+  };
+};
+
+export const minutesSinceEpoch = (model: Sgp4Model, timeMs: number) => (timeMs - model.elements.epoch) / 60000;
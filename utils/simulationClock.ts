@@ -0,0 +1,35 @@
+// Simulation clock shared by everything time-dependent on the globe (sun, orbits, ...).
+// The clock is an immutable value: simulated time advances linearly from an anchor,
+// and every change re-anchors it so there is never a jump.
+
+export interface SimulationClock {
+  // Simulated epoch ms at the anchor
+  anchorSimMs: number;
+  // Real epoch ms at the anchor
+  anchorRealMs: number;
+  // Simulated ms per real ms; 0 pauses, negative runs backwards
+  speed: number;
+}
+
+export const createClock = (simMs = Date.now(), speed = 1): SimulationClock => ({
+  anchorSimMs: simMs,
+  anchorRealMs: Date.now(),
+  speed,
+});
+
+export const clockTime = (clock: SimulationClock, realMs = Date.now()) =>
+  clock.anchorSimMs + (realMs - clock.anchorRealMs) * clock.speed;
+
+export const clockDate = (clock: SimulationClock, realMs = Date.now()) => new Date(clockTime(clock, realMs));
+
+export const setClockSpeed = (clock: SimulationClock, speed: number): SimulationClock =>
+  createClock(clockTime(clock), speed);
+
+export const setClockTime = (clock: SimulationClock, simMs: number): SimulationClock =>
+  createClock(simMs, clock.speed);
+
+export const resetClock = (): SimulationClock => createClock();
+
+// Real time, real speed: the clock is tracking the wall clock
+export const isLive = (clock: SimulationClock, toleranceMs = 5000) =>
+  clock.speed === 1 && Math.abs(clockTime(clock) - Date.now()) < toleranceMs;
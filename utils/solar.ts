@@ -0,0 +1,53 @@
+import { LocationData } from "../types";
+import { normalizeLon, toDeg, toRad } from "./geodesy";
+
+// Low-precision solar ephemeris (Astronomical Almanac, ~0.01° accuracy 1950-2050).
+// Good enough to place the day/night terminator; not for navigation.
+
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const MS_PER_DAY = 86400000;
+
+export interface SolarPosition {
+  // Degrees
+  declination: number;
+  rightAscension: number;
+  // Greenwich mean sidereal time, degrees
+  gmst: number;
+}
+
+// Greenwich mean sidereal time, degrees in [0, 360)
+export const greenwichSiderealTime = (date: Date) => {
+  const n = (date.getTime() - J2000_MS) / MS_PER_DAY;
+  return (((280.46061837 + 360.98564736629 * n) % 360) + 360) % 360;
+};
+
+export const solarPosition = (date: Date): SolarPosition => {
+  const n = (date.getTime() - J2000_MS) / MS_PER_DAY;
+
+  const meanLongitude = (280.46 + 0.9856474 * n) % 360;
+  const meanAnomaly = toRad((357.528 + 0.9856003 * n) % 360);
+  const eclipticLongitude = toRad(meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly));
+  const obliquity = toRad(23.439 - 0.0000004 * n);
+
+  const declination = toDeg(Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude)));
+  const rightAscension = toDeg(Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude)));
+  return { declination, rightAscension, gmst: greenwichSiderealTime(date) };
+};
+
+// Point on Earth where the Sun is directly overhead
+export const subsolarPoint = (date: Date): LocationData => {
+  const { declination, rightAscension, gmst } = solarPosition(date);
+  return { lat: declination, lon: normalizeLon(rightAscension - gmst) };
+};
+
+// Local hour angle of the Sun at a longitude, degrees (0 = solar noon)
+export const solarHourAngle = (date: Date, lon: number) => normalizeLon(lon - subsolarPoint(date).lon);
+
+// Sun elevation above the horizon at a location, degrees
+export const solarElevation = (date: Date, location: LocationData) => {
+  const sun = subsolarPoint(date);
+  const lat = toRad(location.lat);
+  const dec = toRad(sun.lat);
+  const hourAngle = toRad(location.lon - sun.lon);
+  return toDeg(Math.asin(Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(hourAngle)));
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_MERCATOR_LAT, tileChildren, tileKey, tileXToLon, tileYToLat, tmsRow } from './tiles';
+
+describe('tile arithmetic', () => {
+  it('spans the Mercator square at zoom 0', () => {
+    expect(tileXToLon(0, 0)).toBe(-180);
+    expect(tileXToLon(1, 0)).toBe(180);
+    expect(tileYToLat(0, 0)).toBeCloseTo(MAX_MERCATOR_LAT, 9);
+    expect(tileYToLat(1, 0)).toBeCloseTo(-MAX_MERCATOR_LAT, 9);
+  });
+
+  it('puts the equator and prime meridian on tile edges', () => {
+    expect(tileXToLon(2, 2)).toBe(0);
+    expect(tileYToLat(2, 2)).toBeCloseTo(0, 9);
+    expect(tileXToLon(1, 2)).toBe(-90);
+  });
+
+  it('splits a tile into the four below it', () => {
+    const children = tileChildren({ z: 1, x: 1, y: 0 });
+    expect(children.map(tileKey)).toEqual(['2/2/0', '2/3/0', '2/2/1', '2/3/1']);
+    // The children share their parent's outer edges
+    expect(tileXToLon(children[0].x, 2)).toBe(tileXToLon(1, 1));
+    expect(tileYToLat(children[3].y + 1, 2)).toBeCloseTo(tileYToLat(1, 1), 9);
+  });
+
+  it('numbers TMS rows from the south', () => {
+    expect(tmsRow({ z: 0, x: 0, y: 0 })).toBe(0);
+    expect(tmsRow({ z: 3, x: 5, y: 0 })).toBe(7);
+    expect(tmsRow({ z: 3, x: 5, y: 7 })).toBe(0);
+  });
+});
@@ -0,0 +1,30 @@
+import { toDeg } from "./geodesy";
+
+// Web Mercator (XYZ) tile arithmetic. Zoom z splits the world into 2^z x 2^z
+// tiles; x runs east from -180°, y runs south from the top edge at ~85.05°N.
+
+export interface TileId {
+  z: number;
+  x: number;
+  y: number;
+}
+
+// Latitude where the square Mercator world ends
+export const MAX_MERCATOR_LAT = 85.0511287798;
+
+export const tileKey = ({ z, x, y }: TileId) => `${z}/${x}/${y}`;
+
+// Edges of tile columns and rows; fractional values give points inside a tile
+export const tileXToLon = (x: number, z: number) => x / 2 ** z * 360 - 180;
+
+export const tileYToLat = (y: number, z: number) => toDeg(Math.atan(Math.sinh(Math.PI * (1 - 2 * y / 2 ** z))));
+
+export const tileChildren = ({ z, x, y }: TileId): TileId[] => [
+  { z: z + 1, x: 2 * x, y: 2 * y },
+  { z: z + 1, x: 2 * x + 1, y: 2 * y },
+  { z: z + 1, x: 2 * x, y: 2 * y + 1 },
+  { z: z + 1, x: 2 * x + 1, y: 2 * y + 1 },
+];
+
+// TMS numbers rows from the south instead
+export const tmsRow = ({ z, y }: TileId) => 2 ** z - 1 - y;
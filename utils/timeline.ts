@@ -0,0 +1,79 @@
+// Playback state for temporal layers, kept apart from the simulation clock:
+// timelines span years while the sun and orbits need minutes. Like the clock it
+// is an immutable value that re-anchors on every change, so consumers can work
+// out the current position each frame without it living in React state.
+
+export interface Timeline {
+  // Covered span, epoch ms
+  start: number;
+  end: number;
+  // Timeline position at the anchor
+  anchorMs: number;
+  // Real epoch ms at the anchor
+  anchorRealMs: number;
+  playing: boolean;
+  loop: boolean;
+  // Real ms for one sweep from start to end
+  sweepMs: number;
+}
+
+export const DEFAULT_SWEEP_MS = 20000;
+
+export const createTimeline = (start: number, end: number, sweepMs = DEFAULT_SWEEP_MS): Timeline => ({
+  start,
+  end,
+  anchorMs: start,
+  anchorRealMs: Date.now(),
+  playing: false,
+  loop: true,
+  sweepMs,
+});
+
+export const timelineTime = (timeline: Timeline, realMs = Date.now()) => {
+  const { start, end, anchorMs, anchorRealMs, playing, loop, sweepMs } = timeline;
+  if (!playing || end <= start) return anchorMs;
+  const position = anchorMs + (realMs - anchorRealMs) * (end - start) / sweepMs;
+  if (!loop) return Math.min(end, position);
+  return start + (position - start) % (end - start);
+};
+
+// A non-looping timeline that has run to its end
+export const timelineEnded = (timeline: Timeline, realMs = Date.now()) =>
+  timeline.playing && !timeline.loop && timelineTime(timeline, realMs) >= timeline.end;
+
+const reanchor = (timeline: Timeline, patch: Partial<Timeline>): Timeline => ({
+  ...timeline,
+  anchorMs: timelineTime(timeline),
+  anchorRealMs: Date.now(),
+  ...patch,
+});
+
+export const playTimeline = (timeline: Timeline): Timeline =>
+  // Playing from the end of a finished run starts over
+  reanchor(timeline, timelineTime(timeline) >= timeline.end ? { playing: true, anchorMs: timeline.start } : { playing: true });
+
+export const pauseTimeline = (timeline: Timeline): Timeline => reanchor(timeline, { playing: false });
+
+export const seekTimeline = (timeline: Timeline, time: number): Timeline =>
+  reanchor(timeline, { anchorMs: Math.max(timeline.start, Math.min(timeline.end, time)) });
+
+export const setTimelineLoop = (timeline: Timeline, loop: boolean): Timeline => reanchor(timeline, { loop });
+
+export const setTimelineSweep = (timeline: Timeline, sweepMs: number): Timeline => reanchor(timeline, { sweepMs });
+
+// Keeps the position (clamped) when layers are added or removed
+export const setTimelineRange = (timeline: Timeline, start: number, end: number): Timeline => {
+  const time = timelineTime(timeline);
+  return { ...timeline, start, end, anchorMs: Math.max(start, Math.min(end, time)), anchorRealMs: Date.now() };
+};
+
+// Frames bracketing `time`: `weight` runs 0..1 from `index` towards `next`
+export const frameAt = (times: number[], time: number) => {
+  if (times.length === 0) return null;
+  let index = 0;
+  while (index < times.length - 1 && times[index + 1] <= time) index++;
+  const next = Math.min(index + 1, times.length - 1);
+  const span = times[next] - times[index];
+  const weight = span > 0 ? Math.max(0, Math.min(1, (time - times[index]) / span)) : 0;
+  return { index, next, weight };
+};
@@ -1,9 +1,12 @@
 import path from 'path';
+import { existsSync } from 'fs';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `npm run earth-textures` copies the base globe textures here for offline use
+    const localTextures = existsSync(path.resolve(__dirname, 'public/textures/earth')) ? '/textures/earth' : '';
     return {
       server: {
         port: 3000,
@@ -12,7 +15,23 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Knowledge backend selection: 'gemini' (default) or 'mock' for offline fixtures
+        'process.env.KNOWLEDGE_PROVIDER': JSON.stringify(env.KNOWLEDGE_PROVIDER || 'gemini'),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL || ''),
+        // Grid (degrees) that coordinate scans snap to before hitting the response cache
+        'process.env.KNOWLEDGE_CACHE_GRID': JSON.stringify(env.KNOWLEDGE_CACHE_GRID || ''),
+        // Where MediaPipe's wasm/ and gesture_recognizer.task are served from, e.g. '/mediapipe'; empty = public CDNs
+        'process.env.MEDIAPIPE_ASSET_BASE': JSON.stringify(env.MEDIAPIPE_ASSET_BASE || ''),
+        // USGS-format earthquake feed loaded by the seismic layer; a same-origin path works offline
+        'process.env.QUAKE_FEED_URL': JSON.stringify(env.QUAKE_FEED_URL || ''),
+        // Base globe textures, tried before the three.js copies on GitHub; defaults to the local copy when present
+        'process.env.EARTH_TEXTURE_BASE': JSON.stringify(env.EARTH_TEXTURE_BASE || localTextures),
+        // XYZ/TMS day imagery template ({z}/{x}/{y}, {-y} for TMS); empty = NASA GIBS Blue Marble, 'none' = base textures only
+        'process.env.EARTH_TILE_URL': JSON.stringify(env.EARTH_TILE_URL || ''),
+        'process.env.EARTH_TILE_MAX_ZOOM': JSON.stringify(env.EARTH_TILE_MAX_ZOOM || ''),
+        // WebSocket URL of `npm run session-relay`; empty = port 8787 on the host serving the app
+        'process.env.SESSION_RELAY_URL': JSON.stringify(env.SESSION_RELAY_URL || '')
       },
       resolve: {
         alias: {